@@ -1,104 +1,163 @@
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
+import { Link } from 'react-router'
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   PieChart, Pie, Cell, Legend, Treemap,
 } from 'recharts'
 import {
-  Building2, FileText, DollarSign, Layers, TrendingUp,
+  Building2, FileText, DollarSign, Layers, TrendingUp, HardHat,
   CheckCircle2, AlertTriangle, ChevronDown, ChevronRight,
-  PieChart as PieChartIcon, Activity, Database,
+  PieChart as PieChartIcon, Activity, Database, Scale, GitCompare, Handshake, Download, Tags, Dices, MapPin, FileSearch, FileImage, Boxes, ShieldCheck, ClipboardCheck, CalendarRange, Briefcase,
 } from 'lucide-react'
-
-interface ProjectData {
-  project: {
-    name: string; client: string; location: string; building_type: string;
-    construction_type: string; stories: number; gross_floor_area_sf: number;
-    units: number; unit_type: string; report_date: string; report_number: string;
-    prepared_by: string; class: string; confidence_range: string;
-    area_source?: string; mezzanine?: boolean; level_1_sf?: number; mezzanine_sf?: number;
-  };
-  summary: {
-    total_cost: number; cost_per_sf: number; cost_per_unit: number;
-    line_count: number;
-    pricing_method: { cost_db_pct: number; rate_library_fallback_pct: number; parametric_gap_fill_pct: number; match_rate: number };
-  };
-  sections: { name: string; divisions: string[]; pla: number; engine: number; pct: number }[];
-  division_totals: Record<string, number>;
-  lines: {
-    description: string; quantity: number; unit: string; unit_cost: number;
-    total_cost: number; csi_division: string; source: string; confidence: string;
-  }[];
-  benchmarks: Record<string, { total: number; sf: number; cost_per_sf: number; note: string }>;
-}
-
-const fmt = (n: number) => new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD', maximumFractionDigits: 0 }).format(n)
-const fmtK = (n: number) => n >= 1_000_000 ? `$${(n / 1_000_000).toFixed(1)}M` : `$${(n / 1_000).toFixed(0)}K`
-const fmtPct = (n: number) => `${n.toFixed(1)}%`
-
-const SECTION_COLORS = [
-  '#1e40af', '#0891b2', '#059669', '#65a30d', '#ca8a04',
-  '#ea580c', '#dc2626', '#9333ea', '#6366f1',
-]
-
-const SOURCE_COLORS: Record<string, string> = {
-  cost_db: '#059669',
-  cost_db_assembly: '#10b981',
-  system_breakout_db: '#0891b2',
-  system_breakout_fallback: '#06b6d4',
-  rate_library_fallback: '#ca8a04',
-  parametric_gap_fill: '#94a3b8',
-}
-
-const SOURCE_LABELS: Record<string, string> = {
-  cost_db: 'Cost Database',
-  cost_db_assembly: 'DB Assembly',
-  system_breakout_db: 'System Breakout (DB)',
-  system_breakout_fallback: 'System Breakout (Est.)',
-  rate_library_fallback: 'Rate Library',
-  parametric_gap_fill: 'Parametric Gap-Fill',
-}
-
-const CONFIDENCE_COLORS: Record<string, string> = {
-  high: '#059669',
-  medium: '#ca8a04',
-  low: '#dc2626',
-}
-
-const DIVISION_NAMES: Record<string, string> = {
-  '01': 'General Requirements', '02': 'Existing Conditions', '03': 'Concrete',
-  '04': 'Masonry', '05': 'Metals', '06': 'Wood & Plastics', '07': 'Thermal/Moisture',
-  '08': 'Openings', '09': 'Finishes', '10': 'Specialties', '11': 'Equipment',
-  '12': 'Furnishings', '14': 'Conveying', '21': 'Fire Suppression', '22': 'Plumbing',
-  '23': 'HVAC', '25': 'Integrated Automation', '26': 'Electrical',
-  '27': 'Communications', '28': 'Electronic Safety', '31': 'Earthwork',
-  '32': 'Ext. Improvements', '33': 'Utilities',
-}
+import type { EstimateLine, Markup, ProjectData } from './types'
+import { DEFAULT_ESTIMATE_ID, EXTRACTION_ITEMS_PATH, PLA_ESTIMATE_PATH, findEstimateFile } from './data/catalog'
+import { parsePlaEstimate } from './data/pla'
+import { useFetchedJson } from './data/useFetchedJson'
+import { useEstimate } from './data/useEstimate'
+import { useScenarios } from './data/useScenarios'
+import { useRepricing } from './data/useRepricing'
+import { useReview } from './data/useReview'
+import { useLineFilter } from './data/useLineFilter'
+import { usePlaCrosswalk } from './data/usePlaCrosswalk'
+import { readStored, writeStored } from './data/storage'
+import type { UnitSystem } from './data/units'
+import { DataIssuesPanel } from './components/DataIssuesPanel'
+import { EstimatePicker } from './components/EstimatePicker'
+import { StatCard } from './components/StatCard'
+import { ClassificationToggle } from './components/ClassificationToggle'
+import { UnitSystemToggle } from './components/UnitSystemToggle'
+import { FilterBar } from './components/FilterBar'
+import { MarkupStack } from './components/MarkupStack'
+import { ScenarioPanel } from './components/ScenarioPanel'
+import { ProvenanceDrawer } from './components/ProvenanceDrawer'
+import { ElementalCheckPanel } from './components/ElementalCheckPanel'
+import { CostSplitPanel } from './components/CostSplitPanel'
+import { applyMarkups } from './lib/markups'
+import { applyScenario, editAddedLine, overrideLine } from './lib/scenarios'
+import { auditEstimate, type AuditFinding } from './lib/audit'
+import { COST_COMPONENTS, COST_COMPONENT_LABELS, hasSplit, lineSplit, summarizeSplit, type CostComponent, type CostSplit } from './lib/costSplit'
+import { signOffStatement, type SignOff } from './lib/review'
+import { repriceEstimate, repricingFor } from './lib/repricing'
+import { defaultCrosswalk, mapPlaLines, plaCoversProject, withPlaSections } from './lib/reconcile'
+import { buildSchedule, scheduleToCsv, scheduleToXlsx } from './lib/qsExport'
+import { downloadBlob, fileStem } from './lib/download'
+import { MeasuresContext, measuresFor, useMeasures } from './lib/measures'
+import { filterEstimate, sortLines, type LineFilter } from './lib/lineFilter'
+import { useDashboardRoute } from './lib/route'
+import { fmt, fmtK, fmtPct } from './format'
+import {
+  CONFIDENCE_COLORS, SECTION_COLORS, SOURCE_COLORS, SOURCE_LABELS,
+} from './constants'
+import {
+  CLASSIFICATION_LABELS, costGroups, elementMajorGroups, type Classification,
+} from './lib/classification'
+import { BenchmarksTab } from './tabs/BenchmarksTab'
+import { CompareTab } from './tabs/CompareTab'
+import { ReconcileTab } from './tabs/ReconcileTab'
+import { ClassificationTab } from './tabs/ClassificationTab'
+import { RiskTab } from './tabs/RiskTab'
+import { RepricingTab } from './tabs/RepricingTab'
+import { ExtractionTab } from './tabs/ExtractionTab'
+import { SheetsTab } from './tabs/SheetsTab'
+import { AssembliesTab } from './tabs/AssembliesTab'
+import { AuditTab } from './tabs/AuditTab'
+import { ReviewTab } from './tabs/ReviewTab'
+import { CashflowTab } from './tabs/CashflowTab'
+import { PortfolioTab } from './tabs/PortfolioTab'
 
 function App() {
-  const [data, setData] = useState<ProjectData | null>(null)
-  const [activeTab, setActiveTab] = useState('overview')
-  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set())
+  const route = useDashboardRoute()
+  const { estimateId, setEstimate: setEstimateId } = route
+  // Bumped when the reclassification file changes, so the loader re-applies it
+  const [revision, setRevision] = useState(0)
+  const estimate = useEstimate(estimateId, revision)
+  const [classification, setClassification] = useState<Classification>('csi')
+  const [markupEdits, setMarkupEdits] = useState<{ id: string; markups: Markup[] } | null>(null)
+  const scenarios = useScenarios(estimateId)
+  const pricing = useRepricing(estimateId)
+  const review = useReview(estimate.status === 'ready' ? estimate.result.data.project.report_number : null)
+  const [filter, setFilter] = useLineFilter()
+  const pla = useFetchedJson(PLA_ESTIMATE_PATH, parsePlaEstimate)
+  const crosswalk = usePlaCrosswalk()
+  const [unitSystem, setUnitSystem] = useState(() => readStored<UnitSystem>('unit-system', 'imperial'))
+  const measures = measuresFor(unitSystem)
+  const changeUnitSystem = (system: UnitSystem) => {
+    setUnitSystem(system)
+    writeStored('unit-system', system)
+  }
 
-  useEffect(() => {
-    fetch('/data/estimate-v2.json').then(r => r.json()).then(setData)
-  }, [])
+  if (estimate.status === 'error') return (
+    <div className="min-h-screen bg-slate-950 flex items-center justify-center px-6">
+      <div className="max-w-lg rounded-xl border border-red-800/50 bg-red-950/20 p-6">
+        <div className="flex items-start gap-3">
+          <AlertTriangle size={20} className="text-red-400 mt-0.5" />
+          <div>
+            <h2 className="font-medium text-red-300 mb-2">Cannot open {findEstimateFile(estimateId)?.label ?? estimateId}</h2>
+            <p className="text-sm text-slate-400 leading-relaxed mb-4">{estimate.error}</p>
+            {findEstimateFile(estimateId)?.path === EXTRACTION_ITEMS_PATH && (
+              <p className="text-sm text-slate-400 mb-4">
+                Its extracted items can be browsed on the{' '}
+                <Link to={`/${DEFAULT_ESTIMATE_ID}/extraction`} className="text-emerald-400 hover:underline">Extraction tab</Link>.
+              </p>
+            )}
+            <EstimatePicker value={estimateId} onChange={setEstimateId} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
 
-  if (!data) return (
+  if (estimate.status === 'loading') return (
     <div className="min-h-screen bg-slate-950 flex items-center justify-center">
       <div className="animate-pulse text-slate-400 text-lg">Loading estimate data...</div>
     </div>
   )
 
-  const toggleSection = (name: string) => {
-    setExpandedSections(prev => {
-      const next = new Set(prev)
-      next.has(name) ? next.delete(name) : next.add(name)
-      return next
-    })
+  const { data: fileData, issues } = estimate.result
+
+  // The audit checks the file's own arithmetic, so it runs before anything restates the numbers
+  const audit = auditEstimate(fileData)
+
+  // Re-pricing restates the file's rates for another location or tender date before anything else sees them
+  const repricing = repricingFor(fileData.project, pricing.indices, pricing.curve, pricing.target)
+  const baseData = repriceEstimate(fileData, repricing.factor)
+
+  // An active what-if scenario patches the lines; everything below derives from the patched data
+  const { active: scenario } = scenarios
+  const { data: scenarioData, originals, skipped } = scenario
+    ? applyScenario(baseData, scenario, repricing.factor)
+    : { data: baseData, originals: new Map<EstimateLine, EstimateLine>(), skipped: 0 }
+  // Section PLA figures come from the contractor estimate for this project, mapped through the Reconciliation tab's crosswalk
+  const data = pla.status === 'ready' && plaCoversProject(pla.value, scenarioData.project)
+    ? withPlaSections(scenarioData, mapPlaLines(pla.value, crosswalk.saved ?? defaultCrosswalk(pla.value)))
+    : scenarioData
+  const editLine = (line: EstimateLine, patch: { quantity?: number; unit_cost?: number }) => {
+    if (!scenario) return
+    const index = data.lines.indexOf(line)
+    // Scenarios keep rates at the file's prices; lines past the file's own are ones the scenario added
+    const atFileRates = { ...patch, ...(patch.unit_cost !== undefined && { unit_cost: patch.unit_cost / repricing.factor }) }
+    const next = index < fileData.lines.length
+      ? overrideLine(scenario, index, fileData.lines[index], atFileRates)
+      : editAddedLine(scenario, index - fileData.lines.length, atFileRates)
+    scenarios.save(scenarios.scenarios.map(s => s.id === next.id ? next : s))
   }
 
+  // The filter bar narrows what the tabs see; the banner and the benchmarks keep the whole estimate
+  const view = filterEstimate(data, filter)
+
+  // Markups start from the file's own and are edited per estimate
+  const markups = markupEdits?.id === estimateId ? markupEdits.markups : data.markups ?? []
+  const setMarkups = (next: Markup[]) => setMarkupEdits({ id: estimateId, markups: next })
+  const { grandTotal: totalWithMarkups, markupTotal } = applyMarkups(data.summary.total_cost, markups)
+  const repricedFrom = repricing.factor !== 1 ? applyMarkups(data.summary.total_cost / repricing.factor, markups).grandTotal : null
+
+  // Lines are addressed in the URL by their index in the (unfiltered) estimate
+  const focusedLine = route.focusedLine === null ? undefined : data.lines[route.focusedLine]
+  const focusLine = (line: EstimateLine | null) => route.focusLine(line && line !== focusedLine ? data.lines.indexOf(line) : null)
+  const auditFindings = new Map<EstimateLine, AuditFinding[]>([...audit.lineFindings].map(([index, findings]) => [data.lines[index], findings]))
+
   // Compute source breakdown from lines
-  const sourceBreakdown = data.lines.reduce((acc, line) => {
+  const sourceBreakdown = view.lines.reduce((acc, line) => {
     const src = line.source
     acc[src] = (acc[src] || 0) + line.total_cost
     return acc
@@ -114,7 +173,7 @@ function App() {
     }))
 
   // Section comparison for bar chart
-  const sectionBarData = data.sections.map((s, i) => ({
+  const sectionBarData = view.sections.map((s, i) => ({
     name: s.name.length > 14 ? s.name.slice(0, 12) + '…' : s.name,
     fullName: s.name,
     engine: s.engine,
@@ -124,14 +183,20 @@ function App() {
   }))
 
   // Treemap data
-  const treemapData = data.sections.map((s, i) => ({
-    name: s.name,
-    size: s.engine,
-    color: SECTION_COLORS[i],
-  }))
+  const treemapData = classification === 'csi'
+    ? view.sections.map((s, i) => ({
+      name: s.name,
+      size: s.engine,
+      color: SECTION_COLORS[i],
+    }))
+    : elementMajorGroups(view).map((g, i) => ({
+      name: `${g.code} ${g.name}`,
+      size: g.total,
+      color: SECTION_COLORS[i % SECTION_COLORS.length],
+    }))
 
   // Confidence breakdown
-  const confidenceCounts = data.lines.reduce((acc, line) => {
+  const confidenceCounts = view.lines.reduce((acc, line) => {
     acc[line.confidence] = (acc[line.confidence] || 0) + 1
     return acc
   }, {} as Record<string, number>)
@@ -141,112 +206,203 @@ function App() {
     { id: 'breakdown', label: 'Cost Breakdown', icon: PieChartIcon },
     { id: 'qs', label: 'Quantity Survey', icon: Layers },
     { id: 'details', label: 'By Section', icon: Database },
+    { id: 'benchmarks', label: 'Benchmarks', icon: Scale },
+    { id: 'repricing', label: 'Re-pricing', icon: MapPin },
+    { id: 'risk', label: 'Risk', icon: Dices },
+    { id: 'assemblies', label: 'Assemblies', icon: Boxes },
+    { id: 'cashflow', label: 'Cash Flow', icon: CalendarRange },
+    { id: 'compare', label: 'Compare', icon: GitCompare },
+    { id: 'portfolio', label: 'Portfolio', icon: Briefcase },
+    { id: 'reconcile', label: 'PLA Reconciliation', icon: Handshake },
+    { id: 'extraction', label: 'Extraction', icon: FileSearch },
+    { id: 'sheets', label: 'Drawing Sheets', icon: FileImage },
+    { id: 'classification', label: 'Classification', icon: Tags },
+    { id: 'audit', label: 'Audit', icon: ShieldCheck },
+    { id: 'review', label: 'Review', icon: ClipboardCheck },
     { id: 'methodology', label: 'Methodology', icon: Activity },
   ]
+  const activeTab = tabs.some(t => t.id === route.tab) ? route.tab : 'overview'
 
   return (
-    <div className="min-h-screen bg-slate-950 text-slate-200">
-      {/* Header */}
-      <header className="border-b border-slate-800 bg-slate-950/80 backdrop-blur-sm sticky top-0 z-50">
-        <div className="max-w-7xl mx-auto px-6 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <div className="w-10 h-10 rounded-lg bg-emerald-600 flex items-center justify-center">
-                <Building2 size={22} className="text-white" />
+    <MeasuresContext value={measures}>
+      <div className="min-h-screen bg-slate-950 text-slate-200">
+        {/* Header */}
+        <header className="border-b border-slate-800 bg-slate-950/80 backdrop-blur-sm sticky top-0 z-50">
+          <div className="max-w-7xl mx-auto px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                <div className="w-10 h-10 rounded-lg bg-emerald-600 flex items-center justify-center">
+                  <Building2 size={22} className="text-white" />
+                </div>
+                <div>
+                  <h1 className="text-lg font-semibold text-white tracking-tight">BuildCode</h1>
+                  <p className="text-xs text-slate-500 uppercase tracking-widest">Construction Cost Intelligence</p>
+                </div>
               </div>
-              <div>
-                <h1 className="text-lg font-semibold text-white tracking-tight">BuildCode</h1>
-                <p className="text-xs text-slate-500 uppercase tracking-widest">Construction Cost Intelligence</p>
+              <div className="flex items-center gap-4">
+                <UnitSystemToggle value={unitSystem} onChange={changeUnitSystem} />
+                <EstimatePicker value={estimateId} onChange={setEstimateId} />
+                <div className="text-right">
+                  <p className="text-sm text-slate-400">{data.project.report_number}</p>
+                  <p className="text-xs text-slate-600">{data.project.report_date}</p>
+                </div>
               </div>
             </div>
-            <div className="text-right">
-              <p className="text-sm text-slate-400">{data.project.report_number}</p>
-              <p className="text-xs text-slate-600">{data.project.report_date}</p>
-            </div>
           </div>
-        </div>
-      </header>
-
-      {/* Project Info Banner */}
-      <div className="bg-gradient-to-r from-slate-900 via-slate-900 to-emerald-950/30 border-b border-slate-800">
-        <div className="max-w-7xl mx-auto px-6 py-8">
-          <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-6">
-            <div>
-              <p className="text-xs text-emerald-400 uppercase tracking-widest mb-1">Project Estimate Report</p>
-              <h2 className="text-2xl font-bold text-white mb-2">{data.project.name}</h2>
-              <p className="text-slate-400">{data.project.client}</p>
-              <p className="text-sm text-slate-500 mt-1">{data.project.location} — {data.project.building_type}</p>
-            </div>
-            <div className="flex gap-8">
-              <div className="text-center">
-                <p className="text-3xl font-bold text-white">{fmtK(data.summary.total_cost)}</p>
-                <p className="text-xs text-slate-500 uppercase">Total Estimate</p>
-              </div>
-              <div className="text-center">
-                <p className="text-3xl font-bold text-emerald-400">${data.summary.cost_per_sf.toFixed(0)}</p>
-                <p className="text-xs text-slate-500 uppercase">Per SF</p>
+        </header>
+
+        {/* Project Info Banner */}
+        <div className="bg-gradient-to-r from-slate-900 via-slate-900 to-emerald-950/30 border-b border-slate-800">
+          <div className="max-w-7xl mx-auto px-6 py-8">
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-6">
+              <div>
+                <p className="text-xs text-emerald-400 uppercase tracking-widest mb-1">Project Estimate Report</p>
+                <h2 className="text-2xl font-bold text-white mb-2">{data.project.name}</h2>
+                <p className="text-slate-400">{data.project.client}</p>
+                <p className="text-sm text-slate-500 mt-1">{data.project.location} — {data.project.building_type}</p>
+                {scenario && <p className="text-xs text-violet-400 mt-2">What-if scenario: {scenario.name}</p>}
+                {repricing.factor !== 1 && (
+                  <p className="text-xs text-amber-400 mt-2">
+                    Re-priced ×{repricing.factor.toFixed(4)}
+                    {repricing.locationFactor !== 1 && ` to ${pricing.target.location}`}
+                    {repricing.tenderDate && repricing.escalationFactor !== 1 && `, tender ${repricing.tenderDate.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}`}
+                  </p>
+                )}
               </div>
-              <div className="text-center">
-                <p className="text-3xl font-bold text-cyan-400">{fmtK(data.summary.cost_per_unit)}</p>
-                <p className="text-xs text-slate-500 uppercase">Per Bed</p>
+              <div className="flex gap-8">
+                <div className="text-center">
+                  <p className="text-3xl font-bold text-white">{fmtK(totalWithMarkups)}</p>
+                  <p className="text-xs text-slate-500 uppercase">Total Estimate{markupTotal !== 0 && ' incl. Markups'}</p>
+                  {repricedFrom !== null && <p className="text-xs text-slate-600 mt-1">was {fmtK(repricedFrom)}</p>}
+                </div>
+                <div className="text-center">
+                  <p className="text-3xl font-bold text-emerald-400">${(markupTotal !== 0 ? measures.perArea(totalWithMarkups, data.project.gross_floor_area_sf) : measures.areaRate(data.summary.cost_per_sf)).toFixed(0)}</p>
+                  <p className="text-xs text-slate-500 uppercase">Per {measures.areaUnit}</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-3xl font-bold text-cyan-400">{fmtK(markupTotal !== 0 && data.project.units > 0 ? totalWithMarkups / data.project.units : data.summary.cost_per_unit)}</p>
+                  <p className="text-xs text-slate-500 uppercase">Per Bed</p>
+                </div>
               </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Tabs */}
-      <nav className="border-b border-slate-800 bg-slate-950/50 backdrop-blur-sm sticky top-[72px] z-40">
-        <div className="max-w-7xl mx-auto px-6">
-          <div className="flex gap-1 overflow-x-auto">
-            {tabs.map(tab => (
-              <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
-                className={`flex items-center gap-2 px-4 py-3 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
-                  activeTab === tab.id
-                    ? 'border-emerald-500 text-emerald-400'
-                    : 'border-transparent text-slate-500 hover:text-slate-300'
-                }`}
-              >
-                <tab.icon size={16} />
-                {tab.label}
-              </button>
-            ))}
+        {/* Tabs */}
+        <nav className="border-b border-slate-800 bg-slate-950/50 backdrop-blur-sm sticky top-[72px] z-40">
+          <div className="max-w-7xl mx-auto px-6">
+            <div className="flex gap-1 overflow-x-auto">
+              {tabs.map(tab => (
+                <Link
+                  key={tab.id}
+                  to={route.tabTarget(tab.id)}
+                  className={`flex items-center gap-2 px-4 py-3 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${
+                    activeTab === tab.id
+                      ? 'border-emerald-500 text-emerald-400'
+                      : 'border-transparent text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  <tab.icon size={16} />
+                  {tab.label}
+                </Link>
+              ))}
+            </div>
           </div>
-        </div>
-      </nav>
-
-      {/* Content */}
-      <main className="max-w-7xl mx-auto px-6 py-8">
-        {activeTab === 'overview' && <OverviewTab data={data} sectionBarData={sectionBarData} sourcePieData={sourcePieData} confidenceCounts={confidenceCounts} />}
-        {activeTab === 'breakdown' && <BreakdownTab data={data} sourcePieData={sourcePieData} treemapData={treemapData} />}
-        {activeTab === 'qs' && <QSTab data={data} expandedDivisions={expandedSections} toggleDivision={toggleSection} />}
-        {activeTab === 'details' && <DetailsTab data={data} expandedSections={expandedSections} toggleSection={toggleSection} />}
-        {activeTab === 'methodology' && <MethodologyTab data={data} />}
-      </main>
-
-      {/* Footer */}
-      <footer className="border-t border-slate-800 bg-slate-950">
-        <div className="max-w-7xl mx-auto px-6 py-6">
-          <div className="flex flex-col md:flex-row justify-between items-center gap-4">
-            <div className="flex items-center gap-3">
-              <div className="w-8 h-8 rounded bg-emerald-600/20 flex items-center justify-center">
-                <Building2 size={16} className="text-emerald-400" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-slate-400">BuildCode Ltd.</p>
-                <p className="text-xs text-slate-600">Construction Cost Intelligence Platform</p>
+        </nav>
+
+        {/* Content */}
+        <main className="max-w-7xl mx-auto px-6 py-8">
+          <DataIssuesPanel key={estimateId} issues={issues} fileLabel={findEstimateFile(estimateId)?.path ?? estimateId} />
+          {!['benchmarks', 'compare', 'extraction', 'sheets', 'assemblies', 'cashflow', 'audit', 'review', 'portfolio'].includes(activeTab) && <FilterBar data={data} view={view} filter={filter} onChange={setFilter} />}
+          {activeTab === 'overview' && <OverviewTab data={view} estimate={data} sectionBarData={sectionBarData} sourcePieData={sourcePieData} confidenceCounts={confidenceCounts} />}
+          {activeTab === 'breakdown' && <BreakdownTab data={view} sourcePieData={sourcePieData} treemapData={treemapData} classification={classification} onClassificationChange={setClassification} />}
+          {activeTab === 'qs' && (
+            <div className="space-y-4">
+              <ScenarioPanel
+                scenarios={scenarios.scenarios}
+                active={scenario}
+                skipped={skipped}
+                base={baseData}
+                revised={data}
+                onSelect={scenarios.select}
+                onSave={scenarios.save}
+              />
+              <QSTab
+                data={view} filter={filter} expandedDivisions={route.expanded('qs')} toggleDivision={div => route.toggleExpanded('qs', div)}
+                focusedLine={focusedLine} onFocusLine={focusLine}
+                classification={classification} onClassificationChange={setClassification}
+                markups={markups} onMarkupsChange={setMarkups}
+                originals={originals} onEditLine={scenario ? editLine : undefined} scenarioName={scenario?.name}
+                auditFindings={auditFindings} signoff={review.review?.signoff}
+              />
+            </div>
+          )}
+          {activeTab === 'details' && (
+            <DetailsTab
+              data={view} sort={filter}
+              expandedSections={route.expanded('details')} toggleSection={name => route.toggleExpanded('details', name)}
+              focusedLine={focusedLine} onFocusLine={focusLine}
+            />
+          )}
+          {activeTab === 'benchmarks' && <BenchmarksTab data={data} />}
+          {activeTab === 'risk' && <RiskTab data={view} />}
+          {activeTab === 'repricing' && (
+            <RepricingTab
+              original={fileData} restated={baseData} repricing={repricing} markups={markups}
+              indices={pricing.indices} curve={pricing.curve} target={pricing.target}
+              onIndicesChange={pricing.saveIndices} onCurveChange={pricing.saveCurve} onTargetChange={pricing.saveTarget}
+            />
+          )}
+          {activeTab === 'assemblies' && (
+            <AssembliesTab key={estimateId} estimateId={estimateId} scenarios={scenarios.scenarios} active={scenario} onSave={scenarios.save} />
+          )}
+          {activeTab === 'cashflow' && <CashflowTab key={estimateId} estimateId={estimateId} data={data} markups={markups} />}
+          {activeTab === 'portfolio' && <PortfolioTab estimateId={estimateId} indices={pricing.indices} curve={pricing.curve} />}
+          {activeTab === 'compare' && <CompareTab key={estimateId} estimateId={estimateId} />}
+          {activeTab === 'reconcile' && <ReconcileTab data={view} pla={pla} saved={crosswalk.saved} onSave={crosswalk.save} />}
+          {activeTab === 'extraction' && <ExtractionTab />}
+          {activeTab === 'sheets' && <SheetsTab data={data} />}
+          {activeTab === 'classification' && <ClassificationTab key={estimateId} data={view} onSaved={() => setRevision(r => r + 1)} />}
+          {activeTab === 'audit' && <AuditTab data={fileData} report={audit} lineTarget={index => route.lineTarget('qs', index)} />}
+          {activeTab === 'review' && (
+            <ReviewTab key={estimateId} data={fileData} stored={review.review} loading={review.loading} error={review.error} onSave={review.save} />
+          )}
+          {activeTab === 'methodology' && <MethodologyTab data={view} />}
+        </main>
+
+        {/* Clicking a line in the schedules focuses it and traces where its number came from */}
+        {(activeTab === 'qs' || activeTab === 'details') && focusedLine && route.focusedLine !== null && (
+          <ProvenanceDrawer
+            line={focusedLine}
+            context={{ project: data.project, fileLine: fileData.lines[route.focusedLine] ?? focusedLine, baseLine: originals.get(focusedLine), repricing }}
+            onClose={() => focusLine(null)}
+          />
+        )}
+
+        {/* Footer */}
+        <footer className="border-t border-slate-800 bg-slate-950">
+          <div className="max-w-7xl mx-auto px-6 py-6">
+            <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded bg-emerald-600/20 flex items-center justify-center">
+                  <Building2 size={16} className="text-emerald-400" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-slate-400">BuildCode Ltd.</p>
+                  <p className="text-xs text-slate-600">Construction Cost Intelligence Platform</p>
+                </div>
               </div>
+              <p className="text-xs text-slate-700">
+                {review.review?.signoff
+                  ? `This estimate is generated by automated extruction. ${signOffStatement(review.review.signoff, data.summary.total_cost)}. `
+                  : 'This estimate is generated by automated extruction and should be reviewed by a qualified estimator. '}
+                {data.project.class} estimate — accuracy range {data.project.confidence_range}.
+              </p>
             </div>
-            <p className="text-xs text-slate-700">
-              This estimate is generated by automated extruction and should be reviewed by a qualified estimator.
-              {data.project.class} estimate — accuracy range {data.project.confidence_range}.
-            </p>
           </div>
-        </div>
-      </footer>
-    </div>
+        </footer>
+      </div>
+    </MeasuresContext>
   )
 }
 
@@ -254,41 +410,31 @@ function App() {
 // TAB COMPONENTS
 // ============================================================
 
-function StatCard({ icon: Icon, label, value, sub, accent = 'emerald' }: {
-  icon: typeof DollarSign; label: string; value: string; sub?: string;
-  accent?: 'emerald' | 'cyan' | 'amber' | 'violet'
-}) {
-  const colors = {
-    emerald: 'bg-emerald-600/10 text-emerald-400 border-emerald-800/50',
-    cyan: 'bg-cyan-600/10 text-cyan-400 border-cyan-800/50',
-    amber: 'bg-amber-600/10 text-amber-400 border-amber-800/50',
-    violet: 'bg-violet-600/10 text-violet-400 border-violet-800/50',
-  }
-  return (
-    <div className={`rounded-xl border p-5 ${colors[accent]}`}>
-      <div className="flex items-center gap-2 mb-3">
-        <Icon size={16} />
-        <span className="text-xs uppercase tracking-wider opacity-70">{label}</span>
-      </div>
-      <p className="text-2xl font-bold text-white">{value}</p>
-      {sub && <p className="text-xs mt-1 opacity-60">{sub}</p>}
-    </div>
-  )
-}
-
-function OverviewTab({ data, sectionBarData, sourcePieData, confidenceCounts }: {
-  data: ProjectData; sectionBarData: any[]; sourcePieData: any[]; confidenceCounts: Record<string, number>
+function OverviewTab({ data, estimate, sectionBarData, sourcePieData, confidenceCounts }: {
+  data: ProjectData;
+  /** The whole estimate, unfiltered: the elemental check needs every line to judge $/SF */
+  estimate: ProjectData;
+  sectionBarData: any[]; sourcePieData: any[]; confidenceCounts: Record<string, number>
 }) {
+  const m = useMeasures()
   const totalConfidence = Object.values(confidenceCounts).reduce((a, b) => a + b, 0)
+  const areaRate = m.areaRate(data.summary.cost_per_sf)
+  const split = summarizeSplit(data.lines)
 
   return (
     <div className="space-y-8">
       {/* KPI Cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-        <StatCard icon={DollarSign} label="Total Estimate" value={fmt(data.summary.total_cost)} sub={`${data.summary.cost_per_sf.toFixed(2)}/SF`} accent="emerald" />
-        <StatCard icon={TrendingUp} label="Cost Per SF" value={`$${data.summary.cost_per_sf.toFixed(0)}`} sub={`${data.project.gross_floor_area_sf.toLocaleString()} SF`} accent="cyan" />
+      <div className={`grid grid-cols-2 gap-4 ${split.split > 0 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'}`}>
+        <StatCard icon={DollarSign} label="Total Estimate" value={fmt(data.summary.total_cost)} sub={`${areaRate.toFixed(2)}/${m.areaUnit}`} accent="emerald" />
+        <StatCard icon={TrendingUp} label={`Cost Per ${m.areaUnit}`} value={`$${areaRate.toFixed(0)}`} sub={`${m.area(data.project.gross_floor_area_sf).toLocaleString(undefined, { maximumFractionDigits: 0 })} ${m.areaUnit}`} accent="cyan" />
         <StatCard icon={Layers} label="Line Items" value={`${data.summary.line_count}`} sub={`${data.summary.pricing_method.match_rate}% DB match rate`} accent="amber" />
         <StatCard icon={CheckCircle2} label="DB-Priced" value={`${(100 - data.summary.pricing_method.parametric_gap_fill_pct).toFixed(0)}%`} sub={`${data.summary.pricing_method.parametric_gap_fill_pct}% parametric`} accent="violet" />
+        {split.split > 0 && (
+          <StatCard
+            icon={HardHat} label="Labour Share" value={fmtPct(split.laborShare)} accent="amber"
+            sub={`${fmt(split.labor)} labour${split.unsplit > 0 ? ` · ${fmtPct(split.split / (split.split + split.unsplit) * 100)} of cost split` : ''}`}
+          />
+        )}
       </div>
 
       {/* Project Details */}
@@ -299,7 +445,7 @@ function OverviewTab({ data, sectionBarData, sourcePieData, confidenceCounts }:
             {[
               ['Building Type', data.project.building_type],
               ['Construction Type', data.project.construction_type],
-              ['Gross Floor Area', `${data.project.gross_floor_area_sf.toLocaleString()} SF`],
+              ['Gross Floor Area', `${m.area(data.project.gross_floor_area_sf).toLocaleString(undefined, { maximumFractionDigits: 0 })} ${m.areaUnit}`],
               ['Stories', data.project.stories === 1 ? `${data.project.stories} + Mezzanine` : `${data.project.stories}`],
               ['Units', `${data.project.units} ${data.project.unit_type}`],
               ['Location', data.project.location],
@@ -337,6 +483,8 @@ function OverviewTab({ data, sectionBarData, sourcePieData, confidenceCounts }:
         </div>
       </div>
 
+      <ElementalCheckPanel data={estimate} />
+
       {/* Section Summary Chart */}
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
         <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-6">Cost by Section</h3>
@@ -355,6 +503,7 @@ function OverviewTab({ data, sectionBarData, sourcePieData, confidenceCounts }:
             />
             <Legend verticalAlign="top" height={36} />
             <Bar dataKey="engine" name="BuildCode Estimate" fill="#059669" radius={[4, 4, 0, 0]} />
+            {sectionBarData.some(d => d.pla > 0) && <Bar dataKey="pla" name="PLA Contractor" fill="#9333ea" radius={[4, 4, 0, 0]} />}
           </BarChart>
         </ResponsiveContainer>
       </div>
@@ -399,17 +548,18 @@ function OverviewTab({ data, sectionBarData, sourcePieData, confidenceCounts }:
   )
 }
 
-function BreakdownTab({ data, sourcePieData, treemapData }: {
-  data: ProjectData; sourcePieData: any[]; treemapData: any[]
+function BreakdownTab({ data, sourcePieData, treemapData, classification, onClassificationChange }: {
+  data: ProjectData; sourcePieData: any[]; treemapData: any[];
+  classification: Classification; onClassificationChange: (value: Classification) => void
 }) {
-  // Division breakdown
-  const divData = Object.entries(data.division_totals)
-    .filter(([, v]) => v > 0)
-    .sort((a, b) => b[1] - a[1])
-    .map(([div, total]) => ({
-      name: `${div} ${DIVISION_NAMES[div] || div}`,
-      total,
-      pct: total / data.summary.total_cost * 100,
+  const m = useMeasures()
+  // Division (or element) breakdown
+  const divData = costGroups(data, classification)
+    .sort((a, b) => b.total - a.total)
+    .map(g => ({
+      name: `${g.code} ${g.name}`,
+      total: g.total,
+      pct: g.total / data.summary.total_cost * 100,
     }))
 
   return (
@@ -439,15 +589,16 @@ function BreakdownTab({ data, sourcePieData, treemapData }: {
 
       {/* Division Table */}
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
-        <div className="p-6 border-b border-slate-800">
-          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">CSI Division Breakdown</h3>
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">{CLASSIFICATION_LABELS[classification]} Breakdown</h3>
+          <ClassificationToggle value={classification} onChange={onClassificationChange} />
         </div>
         <table className="w-full">
           <thead>
             <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
-              <th className="text-left p-4">Division</th>
+              <th className="text-left p-4">{classification === 'csi' ? 'Division' : 'Element'}</th>
               <th className="text-right p-4">Total</th>
-              <th className="text-right p-4">$/SF</th>
+              <th className="text-right p-4">$/{m.areaUnit}</th>
               <th className="text-right p-4 w-48">Share</th>
             </tr>
           </thead>
@@ -456,7 +607,7 @@ function BreakdownTab({ data, sourcePieData, treemapData }: {
               <tr key={d.name} className="border-b border-slate-800/50 hover:bg-slate-800/30">
                 <td className="p-4 text-sm text-slate-300">{d.name}</td>
                 <td className="text-right p-4 text-sm font-mono text-slate-300">{fmt(d.total)}</td>
-                <td className="text-right p-4 text-sm font-mono text-slate-500">${(d.total / data.project.gross_floor_area_sf).toFixed(2)}</td>
+                <td className="text-right p-4 text-sm font-mono text-slate-500">${m.perArea(d.total, data.project.gross_floor_area_sf).toFixed(2)}</td>
                 <td className="p-4">
                   <div className="flex items-center gap-2">
                     <div className="flex-1 h-2 rounded-full bg-slate-800 overflow-hidden">
@@ -471,6 +622,8 @@ function BreakdownTab({ data, sourcePieData, treemapData }: {
         </table>
       </div>
 
+      <CostSplitPanel data={data} classification={classification} />
+
       {/* Source Breakdown */}
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
         <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Pricing Source Breakdown</h3>
@@ -503,15 +656,42 @@ function BreakdownTab({ data, sourcePieData, treemapData }: {
   )
 }
 
-function QSTab({ data, expandedDivisions, toggleDivision }: {
-  data: ProjectData; expandedDivisions: Set<string>; toggleDivision: (name: string) => void
+function QSTab({
+  data, filter, expandedDivisions, toggleDivision, focusedLine, onFocusLine,
+  classification, onClassificationChange, markups, onMarkupsChange, originals, onEditLine, scenarioName, auditFindings, signoff,
+}: {
+  data: ProjectData; filter: LineFilter; expandedDivisions: Set<string>; toggleDivision: (name: string) => void;
+  focusedLine?: EstimateLine; onFocusLine: (line: EstimateLine | null) => void;
+  classification: Classification; onClassificationChange: (value: Classification) => void;
+  markups: Markup[]; onMarkupsChange: (markups: Markup[]) => void;
+  originals: Map<EstimateLine, EstimateLine>;
+  onEditLine?: (line: EstimateLine, patch: { quantity?: number; unit_cost?: number }) => void;
+  scenarioName?: string
+  /** Arithmetic audit findings on the file's lines, shown as a badge */
+  auditFindings: Map<EstimateLine, AuditFinding[]>
+  signoff?: SignOff
 }) {
-  // Group lines by CSI division
-  const divisions = Object.entries(data.division_totals)
-    .filter(([, v]) => v > 0)
-    .sort((a, b) => a[0].localeCompare(b[0]))
+  // Group lines by CSI division or UNIFORMAT element
+  const divisions = costGroups(data, classification)
+  const groupNoun = classification === 'csi' ? 'divisions' : 'elements'
 
+  const m = useMeasures()
   const grandTotal = data.summary.total_cost
+  // Estimates whose lines carry a material / labour / equipment split get a column for each
+  const showSplit = hasSplit(data.lines)
+  const gridCols = showSplit ? 'grid-cols-15' : 'grid-cols-12'
+
+  const [exportError, setExportError] = useState<string | null>(null)
+  const exportSchedule = async (format: 'xlsx' | 'csv') => {
+    try {
+      const rows = buildSchedule(data, { classification, markups, scenarioName, measures: m, filter, signoff })
+      const blob = format === 'csv' ? scheduleToCsv(rows) : await scheduleToXlsx(rows)
+      downloadBlob(blob, `${fileStem(`${data.project.report_number} QS schedule`)}.${format}`)
+      setExportError(null)
+    } catch (err) {
+      setExportError(`Could not export the .${format} schedule: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
 
   return (
     <div className="space-y-4">
@@ -524,57 +704,71 @@ function QSTab({ data, expandedDivisions, toggleDivision }: {
           </div>
           <div className="text-right">
             <p className="text-2xl font-bold text-emerald-400">{fmt(grandTotal)}</p>
-            <p className="text-xs text-slate-500">{data.lines.length} line items across {divisions.length} divisions</p>
+            <p className="text-xs text-slate-500">{data.lines.length} line items across {divisions.length} {groupNoun}</p>
           </div>
         </div>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <ClassificationToggle value={classification} onChange={onClassificationChange} />
+          <div className="flex gap-2">
+            {(['xlsx', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => exportSchedule(format)}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-lg border border-slate-700 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-500"
+              >
+                <Download size={12} /> Export .{format}
+              </button>
+            ))}
+          </div>
+        </div>
+        {exportError && <p className="mt-2 text-xs text-red-400">{exportError}</p>}
       </div>
 
       {/* Full QS Schedule by Division */}
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
         {/* Column headers */}
-        <div className="grid grid-cols-12 gap-0 px-4 py-3 bg-slate-800/60 text-xs uppercase tracking-wider text-slate-500 border-b border-slate-700 font-semibold">
+        <div className={`grid ${gridCols} gap-0 px-4 py-3 bg-slate-800/60 text-xs uppercase tracking-wider text-slate-500 border-b border-slate-700 font-semibold`}>
           <div className="col-span-4">Description</div>
           <div className="col-span-1 text-right">Qty</div>
           <div className="col-span-1 text-center">Unit</div>
           <div className="col-span-2 text-right">Unit Rate</div>
           <div className="col-span-2 text-right">Total</div>
+          {showSplit && COST_COMPONENTS.map(c => <div key={c} className="col-span-1 text-right" title={COST_COMPONENT_LABELS[c]}>{SPLIT_HEADERS[c]}</div>)}
           <div className="col-span-1 text-center">Source</div>
           <div className="col-span-1 text-center">Conf.</div>
         </div>
 
-        {divisions.map(([div, divTotal]) => {
-          const divLines = data.lines
-            .filter(l => l.csi_division === div)
-            .sort((a, b) => b.total_cost - a.total_cost)
-          const isExpanded = expandedDivisions.has(div)
-          const divName = DIVISION_NAMES[div] || `Division ${div}`
+        {divisions.map(({ code: div, name: divName, total: divTotal, lines }) => {
+          const divLines = sortLines(lines, filter)
+          const isExpanded = expandedDivisions.has(div) || (focusedLine !== undefined && lines.includes(focusedLine))
           const divPct = (divTotal / grandTotal * 100)
-          const divPerSf = divTotal / data.project.gross_floor_area_sf
+          const divPerArea = m.perArea(divTotal, data.project.gross_floor_area_sf)
 
           return (
             <div key={div}>
               {/* Division header row */}
               <button
                 onClick={() => toggleDivision(div)}
-                className="w-full grid grid-cols-12 gap-0 px-4 py-3 hover:bg-slate-800/40 transition-colors border-b border-slate-800/50 items-center"
+                className={`w-full grid ${gridCols} gap-0 px-4 py-3 hover:bg-slate-800/40 transition-colors border-b border-slate-800/50 items-center`}
               >
                 <div className="col-span-4 flex items-center gap-2">
                   {isExpanded
                     ? <ChevronDown size={14} className="text-emerald-400" />
                     : <ChevronRight size={14} className="text-slate-500" />
                   }
-                  <span className="font-bold text-white text-sm">Div {div}</span>
+                  <span className="font-bold text-white text-sm">{classification === 'csi' ? `Div ${div || '—'}` : div}</span>
                   <span className="text-slate-400 text-sm">{divName}</span>
                   <span className="text-xs text-slate-600">({divLines.length})</span>
                 </div>
                 <div className="col-span-1" />
                 <div className="col-span-1" />
                 <div className="col-span-2 text-right text-xs font-mono text-slate-500">
-                  ${divPerSf.toFixed(2)}/SF
+                  ${divPerArea.toFixed(2)}/{m.areaUnit}
                 </div>
                 <div className="col-span-2 text-right font-mono text-sm font-bold text-white">
                   {fmt(divTotal)}
                 </div>
+                {showSplit && <SplitCells split={summarizeSplit(lines)} />}
                 <div className="col-span-1" />
                 <div className="col-span-1 text-center">
                   <span className="text-xs text-slate-600">{divPct.toFixed(1)}%</span>
@@ -586,30 +780,54 @@ function QSTab({ data, expandedDivisions, toggleDivision }: {
                 const srcLabel = SOURCE_LABELS[line.source] || line.source
                 const srcColor = SOURCE_COLORS[line.source] || '#64748b'
                 const confColor = CONFIDENCE_COLORS[line.confidence] || '#64748b'
+                const original = originals.get(line)
+                const shown = m.line(line)
+                const factor = m.quantityFactor(line.unit)
+                const findings = auditFindings.get(line)
 
                 return (
                   <div
                     key={i}
-                    className="grid grid-cols-12 gap-0 px-4 py-2 border-b border-slate-800/30 hover:bg-slate-800/20 transition-colors text-sm items-center"
+                    ref={line === focusedLine ? scrollIntoView : undefined}
+                    className={`grid ${gridCols} gap-0 px-4 py-2 border-b border-slate-800/30 transition-colors text-sm items-center ${
+                      line === focusedLine ? 'bg-emerald-900/20 ring-1 ring-inset ring-emerald-600/50' : 'hover:bg-slate-800/20'
+                    }`}
                   >
-                    <div className="col-span-4 pl-8 text-slate-400 truncate" title={line.description}>
-                      {line.description}
-                    </div>
+                    <button onClick={() => onFocusLine(line)} className="col-span-4 pl-8 flex items-center gap-1.5 min-w-0 text-left text-slate-400 hover:text-slate-200" title={line.description}>
+                      {findings && (
+                        <span title={findings.map(f => f.message).join('\n')} className="shrink-0 text-amber-500">
+                          <AlertTriangle size={12} aria-label="Audit finding" />
+                        </span>
+                      )}
+                      <span className="truncate">{line.description}</span>
+                    </button>
                     <div className="col-span-1 text-right font-mono text-slate-500">
-                      {line.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                      <OverrideCell
+                        value={shown.quantity}
+                        original={original && m.line(original).quantity}
+                        format={n => n.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                        onCommit={onEditLine && (quantity => onEditLine(line, { quantity: quantity / factor }))}
+                      />
                     </div>
                     <div className="col-span-1 text-center text-slate-600 text-xs">
-                      {line.unit}
+                      {shown.unit}
                     </div>
                     <div className="col-span-2 text-right font-mono text-slate-500">
-                      ${line.unit_cost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      <OverrideCell
+                        value={shown.unit_cost}
+                        original={original && m.line(original).unit_cost}
+                        format={n => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                        onCommit={onEditLine && (unit_cost => onEditLine(line, { unit_cost: unit_cost * factor }))}
+                      />
                     </div>
-                    <div className="col-span-2 text-right font-mono text-slate-300">
+                    <div className={`col-span-2 text-right font-mono ${original ? 'text-violet-300' : 'text-slate-300'}`}>
                       {fmt(line.total_cost)}
+                      {original && <div className="text-[10px] text-slate-600 line-through" title="Base estimate">{fmt(original.total_cost)}</div>}
                     </div>
+                    {showSplit && <SplitCells split={lineSplit(line)} />}
                     <div className="col-span-1 text-center" title={srcLabel}>
                       <span className="inline-block px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: `${srcColor}20`, color: srcColor }}>
-                        {line.source.includes('cost_db') ? 'DB' : line.source.includes('breakout') ? 'SYS' : line.source.includes('parametric') ? 'PAR' : 'LIB'}
+                        {line.source === 'cost_db_assembly' ? 'ASM' : line.source.includes('cost_db') ? 'DB' : line.source.includes('breakout') ? 'SYS' : line.source.includes('parametric') ? 'PAR' : 'LIB'}
                       </span>
                     </div>
                     <div className="col-span-1 text-center">
@@ -621,9 +839,9 @@ function QSTab({ data, expandedDivisions, toggleDivision }: {
 
               {/* Division subtotal when expanded */}
               {isExpanded && (
-                <div className="grid grid-cols-12 gap-0 px-4 py-2 bg-slate-800/30 border-b border-slate-700/50 items-center">
+                <div className={`grid ${gridCols} gap-0 px-4 py-2 bg-slate-800/30 border-b border-slate-700/50 items-center`}>
                   <div className="col-span-4 pl-8 text-xs font-semibold text-slate-500 uppercase">
-                    Subtotal — Division {div}
+                    Subtotal — {classification === 'csi' ? 'Division' : 'Element'} {div}
                   </div>
                   <div className="col-span-1" />
                   <div className="col-span-1" />
@@ -631,6 +849,7 @@ function QSTab({ data, expandedDivisions, toggleDivision }: {
                   <div className="col-span-2 text-right font-mono text-sm font-bold text-emerald-400">
                     {fmt(divTotal)}
                   </div>
+                  {showSplit && <SplitCells split={summarizeSplit(lines)} />}
                   <div className="col-span-2" />
                 </div>
               )}
@@ -639,28 +858,38 @@ function QSTab({ data, expandedDivisions, toggleDivision }: {
         })}
 
         {/* Grand Total */}
-        <div className="grid grid-cols-12 gap-0 px-4 py-4 bg-emerald-950/30 border-t-2 border-emerald-800/50 items-center">
+        <div className={`grid ${gridCols} gap-0 px-4 py-4 bg-emerald-950/30 border-t-2 border-emerald-800/50 items-center`}>
           <div className="col-span-4 font-bold text-white text-sm">
             GRAND TOTAL — {data.project.name}
           </div>
           <div className="col-span-1" />
           <div className="col-span-1" />
           <div className="col-span-2 text-right font-mono text-sm text-slate-400">
-            ${data.summary.cost_per_sf.toFixed(2)}/SF
+            ${m.areaRate(data.summary.cost_per_sf).toFixed(2)}/{m.areaUnit}
           </div>
           <div className="col-span-2 text-right font-mono text-lg font-bold text-emerald-400">
             {fmt(grandTotal)}
           </div>
+          {showSplit && <SplitCells split={summarizeSplit(data.lines)} />}
           <div className="col-span-2" />
         </div>
       </div>
 
+      <MarkupStack
+        direct={grandTotal}
+        markups={markups}
+        defaults={data.markups ?? []}
+        floorArea={data.project.gross_floor_area_sf}
+        onChange={onMarkupsChange}
+      />
+
       {/* Legend */}
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4">
         <div className="flex flex-wrap gap-6 text-xs text-slate-500">
           <div className="flex items-center gap-4">
             <span className="font-semibold text-slate-400">Source:</span>
             <span className="inline-flex items-center gap-1"><span className="px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: '#05966920', color: '#059669' }}>DB</span> Cost Database</span>
+            <span className="inline-flex items-center gap-1"><span className="px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: '#10b98120', color: '#10b981' }}>ASM</span> DB Assembly</span>
             <span className="inline-flex items-center gap-1"><span className="px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: '#0891b220', color: '#0891b2' }}>SYS</span> System Breakout</span>
             <span className="inline-flex items-center gap-1"><span className="px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: '#94a3b820', color: '#94a3b8' }}>PAR</span> Parametric</span>
             <span className="inline-flex items-center gap-1"><span className="px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: '#ca8a0420', color: '#ca8a04' }}>LIB</span> Rate Library</span>
@@ -671,15 +900,82 @@ function QSTab({ data, expandedDivisions, toggleDivision }: {
             <span className="inline-flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-amber-500" /> Medium</span>
             <span className="inline-flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500" /> Low</span>
           </div>
+          <div className="flex items-center gap-1">
+            <AlertTriangle size={12} className="text-amber-500" /> Arithmetic doesn't agree — see the Audit tab
+          </div>
         </div>
       </div>
     </div>
   )
 }
 
-function DetailsTab({ data, expandedSections, toggleSection }: {
-  data: ProjectData; expandedSections: Set<string>; toggleSection: (name: string) => void
+// Brings a focused line into view when it first renders, e.g. from a shared link
+const scrollIntoView = (el: HTMLElement | null) => el?.scrollIntoView({ block: 'center' })
+
+const SPLIT_HEADERS: Record<CostComponent, string> = { material: 'Mat.', labor: 'Lab.', equipment: 'Equip.' }
+
+/** Material, labour and equipment cells of a QS row; dashes for lines that carry no split. */
+function SplitCells({ split }: { split: CostSplit | null }) {
+  const money = (n: number) => Math.abs(n) >= 10_000 ? fmtK(n) : fmt(n)
+  return COST_COMPONENTS.map(c => (
+    <div key={c} className="col-span-1 text-right font-mono text-xs text-slate-500">
+      {split ? money(split[c]) : <span className="text-slate-700">—</span>}
+    </div>
+  ))
+}
+
+/** A quantity or rate cell: editable under a scenario, with the base value struck through when overridden. */
+function OverrideCell({ value, original, format, onCommit }: {
+  value: number; original?: number; format: (n: number) => string; onCommit?: (value: number) => void
 }) {
+  const changed = original !== undefined && original !== value
+  return (
+    <div className="flex flex-col items-end">
+      {onCommit ? (
+        <input
+          key={value}
+          type="number"
+          defaultValue={value}
+          onBlur={e => {
+            const next = Number(e.target.value)
+            if (e.target.value.trim() !== '' && Number.isFinite(next) && next !== value) onCommit(next)
+            else e.target.value = String(value)
+          }}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+            if (e.key === 'Escape') {
+              e.currentTarget.value = String(value)
+              e.currentTarget.blur()
+            }
+          }}
+          className={`w-full max-w-28 bg-slate-900 border rounded px-1.5 py-0.5 text-right text-xs focus:outline-none focus:border-emerald-600 ${
+            changed ? 'border-violet-700 text-violet-300' : 'border-slate-700 text-slate-400'
+          }`}
+          aria-label="Override value"
+        />
+      ) : (
+        <span className={changed ? 'text-violet-300' : ''}>{format(value)}</span>
+      )}
+      {changed && <span className="text-[10px] text-slate-600 line-through" title="Base estimate">{format(original)}</span>}
+    </div>
+  )
+}
+
+function DetailsTab({ data, sort, expandedSections, toggleSection, focusedLine, onFocusLine }: {
+  data: ProjectData; sort: Pick<LineFilter, 'sort' | 'dir'>; expandedSections: Set<string>; toggleSection: (name: string) => void;
+  focusedLine?: EstimateLine; onFocusLine: (line: EstimateLine | null) => void
+}) {
+  const m = useMeasures()
+  const groups = data.sections.map(section => ({
+    name: section.name,
+    engine: section.engine,
+    lines: data.lines.filter(l => section.divisions.includes(l.csi_division)),
+  }))
+  // Lines whose division no section claims (unclassified ones included) would otherwise drop out of the list
+  const unsectioned = data.lines.filter(l => !data.sections.some(s => s.divisions.includes(l.csi_division)))
+  if (unsectioned.length > 0) {
+    groups.push({ name: 'Unclassified', engine: unsectioned.reduce((a, l) => a + l.total_cost, 0), lines: unsectioned })
+  }
   return (
     <div className="space-y-4">
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
@@ -688,9 +984,8 @@ function DetailsTab({ data, expandedSections, toggleSection }: {
           <span className="text-xs text-slate-600">{data.lines.length} items</span>
         </div>
 
-        {data.sections.map(section => {
-          const sectionLines = data.lines.filter(l => section.divisions.includes(l.csi_division))
-          const isExpanded = expandedSections.has(section.name)
+        {groups.map(({ lines: sectionLines, ...section }) => {
+          const isExpanded = expandedSections.has(section.name) || (focusedLine !== undefined && sectionLines.includes(focusedLine))
 
           return (
             <div key={section.name} className="border border-slate-800 rounded-lg mb-3 overflow-hidden">
@@ -720,14 +1015,22 @@ function DetailsTab({ data, expandedSections, toggleSection }: {
                       </tr>
                     </thead>
                     <tbody>
-                      {sectionLines.sort((a, b) => b.total_cost - a.total_cost).map((line, i) => {
+                      {sortLines(sectionLines, sort).map((line, i) => {
                         const sourceColor = SOURCE_COLORS[line.source] || '#64748b'
+                        const shown = m.line(line)
                         return (
-                          <tr key={i} className="border-b border-slate-800/30 hover:bg-slate-800/20 text-sm">
+                          <tr
+                            key={i}
+                            ref={line === focusedLine ? scrollIntoView : undefined}
+                            onClick={() => onFocusLine(line)}
+                            className={`border-b border-slate-800/30 text-sm cursor-pointer ${
+                              line === focusedLine ? 'bg-emerald-900/20 ring-1 ring-inset ring-emerald-600/50' : 'hover:bg-slate-800/20'
+                            }`}
+                          >
                             <td className="p-3 pl-12 text-slate-400 max-w-xs truncate">{line.description}</td>
-                            <td className="text-right p-3 font-mono text-slate-500">{line.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })}</td>
-                            <td className="text-right p-3 text-slate-600">{line.unit}</td>
-                            <td className="text-right p-3 font-mono text-slate-500">${line.unit_cost.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                            <td className="text-right p-3 font-mono text-slate-500">{shown.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })}</td>
+                            <td className="text-right p-3 text-slate-600">{shown.unit}</td>
+                            <td className="text-right p-3 font-mono text-slate-500">${shown.unit_cost.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
                             <td className="text-right p-3 font-mono text-slate-300">{fmt(line.total_cost)}</td>
                             <td className="text-center p-3">
                               <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: sourceColor }} title={line.source} />
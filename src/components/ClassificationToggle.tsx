@@ -0,0 +1,19 @@
+import { CLASSIFICATION_LABELS, type Classification } from '../lib/classification'
+
+export function ClassificationToggle({ value, onChange }: {
+  value: Classification; onChange: (value: Classification) => void
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-slate-700 p-0.5 text-xs">
+      {(Object.keys(CLASSIFICATION_LABELS) as Classification[]).map(c => (
+        <button
+          key={c}
+          onClick={() => onChange(c)}
+          className={`px-3 py-1 rounded-md transition-colors ${value === c ? 'bg-emerald-600/20 text-emerald-400' : 'text-slate-500 hover:text-slate-300'}`}
+        >
+          {CLASSIFICATION_LABELS[c]}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import type { ProjectData } from '../types'
+import { fmt, fmtK, fmtPct } from '../format'
+import { COST_COMPONENT_COLORS } from '../constants'
+import { costGroups, type Classification } from '../lib/classification'
+import { COST_COMPONENTS, COST_COMPONENT_LABELS, hasSplit, summarizeSplit } from '../lib/costSplit'
+
+/** Material, labour and equipment per division or element, and which packages lean most on labour. */
+export function CostSplitPanel({ data, classification }: { data: ProjectData; classification: Classification }) {
+  if (!hasSplit(data.lines)) return null
+
+  const groups = costGroups(data, classification).map(g => ({ code: g.code, name: `${g.code} ${g.name}`, ...summarizeSplit(g.lines) }))
+  const byLabour = groups.filter(g => g.split > 0).sort((a, b) => b.laborShare - a.laborShare)
+  const anyUnsplit = groups.some(g => g.unsplit > 0)
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-1">Material / Labour / Equipment</h3>
+      <p className="text-xs text-slate-600 mb-6">Each line's total, shared out in the proportions of its material, labour and equipment costs.</p>
+      <ResponsiveContainer width="100%" height={360}>
+        <BarChart data={groups} margin={{ top: 0, right: 0, left: 0, bottom: 60 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+          <XAxis dataKey="code" angle={-35} textAnchor="end" height={60} tick={{ fill: '#94a3b8', fontSize: 11 }} />
+          <YAxis tickFormatter={(v: number) => fmtK(v)} tick={{ fill: '#64748b', fontSize: 11 }} />
+          <Tooltip
+            contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }}
+            formatter={value => fmt(Number(value))}
+            labelFormatter={label => groups.find(g => g.code === label)?.name ?? String(label)}
+          />
+          <Legend verticalAlign="top" height={36} />
+          {COST_COMPONENTS.map(c => (
+            <Bar key={c} dataKey={c} name={COST_COMPONENT_LABELS[c]} stackId="split" fill={COST_COMPONENT_COLORS[c]} />
+          ))}
+          {anyUnsplit && <Bar dataKey="unsplit" name="Not split" stackId="split" fill={COST_COMPONENT_COLORS.unsplit} />}
+        </BarChart>
+      </ResponsiveContainer>
+
+      <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mt-6 mb-3">Labour share by package</h4>
+      <div className="space-y-2">
+        {byLabour.map(g => (
+          <div key={g.code} className="flex items-center gap-3 text-sm">
+            <span className="w-56 truncate text-slate-400" title={g.name}>{g.name}</span>
+            <div className="flex-1 h-2 rounded-full bg-slate-800 overflow-hidden">
+              <div className="h-full rounded-full" style={{ width: `${g.laborShare}%`, backgroundColor: COST_COMPONENT_COLORS.labor }} />
+            </div>
+            <span className="w-14 text-right font-mono text-xs text-slate-300">{fmtPct(g.laborShare)}</span>
+            <span className="w-24 text-right font-mono text-xs text-slate-500">{fmt(g.labor)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
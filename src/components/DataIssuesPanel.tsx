@@ -0,0 +1,57 @@
+import { useState } from 'react'
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import type { DataIssue } from '../data/validate'
+
+const MAX_SHOWN = 200
+
+export function DataIssuesPanel({ issues, fileLabel }: { issues: DataIssue[]; fileLabel: string }) {
+  const [open, setOpen] = useState(false)
+  if (issues.length === 0) return null
+
+  const errors = issues.filter(i => i.severity === 'error').length
+  const warnings = issues.length - errors
+  const accent = errors > 0
+    ? 'border-red-800/50 bg-red-950/20 text-red-300'
+    : 'border-amber-800/50 bg-amber-950/20 text-amber-300'
+
+  return (
+    <div className={`rounded-xl border mb-8 ${accent}`}>
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center justify-between p-4 text-left">
+        <div className="flex items-center gap-3">
+          <AlertTriangle size={18} />
+          <span className="font-medium">Data issues</span>
+          <span className="text-xs text-slate-400">
+            {errors} error{errors === 1 ? '' : 's'}, {warnings} warning{warnings === 1 ? '' : 's'} in {fileLabel}
+          </span>
+        </div>
+        {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-800 max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs uppercase tracking-wider text-slate-500 border-b border-slate-800/50">
+                <th className="text-left p-3 w-24">Severity</th>
+                <th className="text-left p-3">Path</th>
+                <th className="text-left p-3">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {issues.slice(0, MAX_SHOWN).map((issue, i) => (
+                <tr key={i} className="border-b border-slate-800/30">
+                  <td className={`p-3 text-xs uppercase ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>{issue.severity}</td>
+                  <td className="p-3 font-mono text-xs text-slate-400">{issue.path}</td>
+                  <td className="p-3 text-slate-400">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {issues.length > MAX_SHOWN && (
+            <p className="p-3 text-xs text-slate-500">…and {issues.length - MAX_SHOWN} more</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react'
+import { GitCompare, Minus, Plus, RefreshCw } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt, fmtPct } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import { StatCard } from './StatCard'
+import { diffEstimates, type LineChangeKind } from '../lib/diff'
+import { useMeasures } from '../lib/measures'
+
+const MAX_ROWS = 300
+
+const KIND_STYLES: Record<LineChangeKind, string> = {
+  added: 'bg-emerald-600/20 text-emerald-400',
+  removed: 'bg-red-600/20 text-red-400',
+  repriced: 'bg-amber-600/20 text-amber-400',
+}
+
+const signed = (n: number, format: (n: number) => string) => n === 0 ? '—' : `${n > 0 ? '+' : '−'}${format(Math.abs(n))}`
+const num = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+export function DiffView({ base, revised }: { base: ProjectData; revised: ProjectData }) {
+  const m = useMeasures()
+  const [kind, setKind] = useState<LineChangeKind | 'all'>('all')
+  const diff = diffEstimates(base, revised)
+  const totalDelta = diff.totalRevised - diff.totalBase
+  const counts = { added: 0, removed: 0, repriced: 0 }
+  diff.changes.forEach(c => counts[c.kind]++)
+  const shown = diff.changes.filter(c => kind === 'all' || c.kind === kind)
+  const changedDivisions = diff.divisions.filter(d => Math.abs(d.delta) > 0.005)
+
+  return (
+    <>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          icon={GitCompare}
+          label="Total Change"
+          value={signed(totalDelta, fmt)}
+          sub={`${fmt(diff.totalBase)} → ${fmt(diff.totalRevised)}${diff.totalBase > 0 ? ` (${signed(totalDelta / diff.totalBase * 100, fmtPct)})` : ''}`}
+          accent="emerald"
+        />
+        <StatCard icon={Plus} label="Added Lines" value={`${counts.added}`} sub={fmt(diff.changes.filter(c => c.kind === 'added').reduce((a, c) => a + c.totalDelta, 0))} accent="cyan" />
+        <StatCard icon={Minus} label="Removed Lines" value={`${counts.removed}`} sub={fmt(-diff.changes.filter(c => c.kind === 'removed').reduce((a, c) => a + c.totalDelta, 0))} accent="violet" />
+        <StatCard icon={RefreshCw} label="Repriced Lines" value={`${counts.repriced}`} sub={`${diff.unchanged} unchanged`} accent="amber" />
+      </div>
+
+      {/* Division roll-up */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Division Totals</h3>
+        </div>
+        {changedDivisions.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">Division totals are identical.</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                <th className="text-left p-4">Division</th>
+                <th className="text-right p-4">Base</th>
+                <th className="text-right p-4">Revised</th>
+                <th className="text-right p-4">Change</th>
+                <th className="text-right p-4">%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changedDivisions.map(d => (
+                <tr key={d.division} className="border-b border-slate-800/50 hover:bg-slate-800/30 text-sm">
+                  <td className="p-4 text-slate-300">{d.division || '—'} {DIVISION_NAMES[d.division] || (d.division ? '' : 'Unclassified')}</td>
+                  <td className="text-right p-4 font-mono text-slate-400">{fmt(d.base)}</td>
+                  <td className="text-right p-4 font-mono text-slate-300">{fmt(d.revised)}</td>
+                  <td className={`text-right p-4 font-mono ${d.delta > 0 ? 'text-orange-400' : 'text-cyan-400'}`}>{signed(d.delta, fmt)}</td>
+                  <td className="text-right p-4 font-mono text-slate-500">{d.base > 0 ? signed(d.delta / d.base * 100, fmtPct) : 'new'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Line changes */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Line Changes</h3>
+          <div className="flex gap-1">
+            {(['all', 'added', 'removed', 'repriced'] as const).map(k => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`px-3 py-1 rounded-lg text-xs capitalize ${kind === k ? 'bg-emerald-600/20 text-emerald-400' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {k} {k === 'all' ? `(${diff.changes.length})` : `(${counts[k]})`}
+              </button>
+            ))}
+          </div>
+        </div>
+        {shown.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">No line changes between these runs.</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-xs uppercase tracking-wider text-slate-600 border-b border-slate-800/50">
+                <th className="text-left p-3">Change</th>
+                <th className="text-left p-3">Description</th>
+                <th className="text-center p-3">Div</th>
+                <th className="text-right p-3">Qty</th>
+                <th className="text-right p-3">Unit Rate</th>
+                <th className="text-right p-3">Total Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.slice(0, MAX_ROWS).map((c, i) => {
+                const before = c.base && m.line(c.base)
+                const after = c.revised && m.line(c.revised)
+                const unit = (after ?? before)!.unit
+                return (
+                  <tr key={i} className="border-b border-slate-800/30 hover:bg-slate-800/20 text-sm">
+                    <td className="p-3">
+                      <span className={`inline-block px-1.5 py-0.5 rounded text-[10px] font-medium uppercase ${KIND_STYLES[c.kind]}`}>{c.kind}</span>
+                    </td>
+                    <td className="p-3 text-slate-400 max-w-xs truncate" title={c.description}>{c.description}</td>
+                    <td className="p-3 text-center text-slate-500">{c.csi_division || '—'}</td>
+                    <td className="p-3 text-right font-mono text-slate-500">
+                      {c.kind === 'repriced'
+                        ? <>{num(before!.quantity)} → {num(after!.quantity)} <span className="text-xs">{unit}</span></>
+                        : <>{num((after ?? before)!.quantity)} <span className="text-xs">{unit}</span></>}
+                    </td>
+                    <td className="p-3 text-right font-mono text-slate-500">
+                      {c.kind === 'repriced'
+                        ? <>${num(before!.unit_cost)} → ${num(after!.unit_cost)}</>
+                        : <>${num((after ?? before)!.unit_cost)}</>}
+                    </td>
+                    <td className={`p-3 text-right font-mono ${c.totalDelta > 0 ? 'text-orange-400' : 'text-cyan-400'}`}>{signed(c.totalDelta, fmt)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+        {shown.length > MAX_ROWS && (
+          <p className="p-3 text-xs text-slate-500">Showing the {MAX_ROWS} largest of {shown.length} changes.</p>
+        )}
+      </div>
+    </>
+  )
+}
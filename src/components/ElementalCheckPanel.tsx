@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt, fmtPct } from '../format'
+import { HANSCOMB_ASSEMBLIES_PATH } from '../data/catalog'
+import { parseElementalRates } from '../data/assemblies'
+import { useFetchedJson } from '../data/useFetchedJson'
+import { readStored, writeStored } from '../data/storage'
+import { useMeasures } from '../lib/measures'
+import { checkElementalRates, DEFAULT_ELEMENTAL_TOLERANCE, type ElementalVariance } from '../lib/elementalCheck'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600'
+
+const signed = (n: number, format: (n: number) => string) => `${n >= 0 ? '+' : '−'}${format(Math.abs(n))}`
+
+/** Element-by-element $/SF against the Hanscomb reference rates, outliers first. */
+export function ElementalCheckPanel({ data }: { data: ProjectData }) {
+  const m = useMeasures()
+  const rates = useFetchedJson(HANSCOMB_ASSEMBLIES_PATH, parseElementalRates)
+  const [tolerance, setTolerance] = useState(() => readStored('elemental-tolerance', DEFAULT_ELEMENTAL_TOLERANCE))
+  const [showAll, setShowAll] = useState(false)
+
+  const saveTolerance = (value: number) => {
+    writeStored('elemental-tolerance', value)
+    setTolerance(value)
+  }
+
+  if (rates.status !== 'ready') {
+    return rates.status === 'error'
+      ? <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-500">Elemental check unavailable: {rates.error}</div>
+      : null
+  }
+  const check = checkElementalRates(data, rates.value, tolerance)
+  const rate = (n: number) => `$${m.areaRate(n).toFixed(2)}`
+
+  const row = (v: ElementalVariance) => (
+    <tr key={v.code} className="border-b border-slate-800/30 text-sm">
+      <td className="p-2 pl-6">
+        <span className="font-mono text-xs text-slate-500 mr-2">{v.code}</span>
+        <span className="text-slate-300">{v.name}</span>
+      </td>
+      <td className="p-2 text-right font-mono text-slate-300">{rate(v.estimate)}</td>
+      <td className="p-2 text-right font-mono text-slate-500">{rate(v.reference)}</td>
+      <td className={`p-2 text-right font-mono ${!v.flagged ? 'text-slate-500' : v.variancePct > 0 ? 'text-orange-400' : 'text-cyan-400'}`}>
+        {v.estimate === 0 ? 'missing' : signed(v.variancePct, fmtPct)}
+      </td>
+      <td className="p-2 pr-6 text-right font-mono text-slate-400">{signed(v.impact, fmt)}</td>
+    </tr>
+  )
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-800 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Elemental Cost Check</h3>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Tolerance ±
+            <input
+              type="number" min={1} max={200} value={tolerance}
+              onChange={e => saveTolerance(Math.max(1, Math.min(200, Number(e.target.value) || DEFAULT_ELEMENTAL_TOLERANCE)))}
+              className={`${inputClass} w-16 text-right`}
+              aria-label="Tolerance percent"
+            />
+            %
+          </label>
+        </div>
+        {!check ? (
+          <p className="text-sm text-slate-500">This estimate records no gross floor area, so its cost per {m.areaUnit} can't be checked.</p>
+        ) : (
+          <p className={`flex items-start gap-2 text-sm ${check.exceptions.length > 0 ? 'text-amber-300' : 'text-emerald-300'}`}>
+            {check.exceptions.length > 0 ? <AlertTriangle size={16} className="mt-0.5 shrink-0" /> : <CheckCircle2 size={16} className="mt-0.5 shrink-0" />}
+            <span>
+              {check.exceptions.length > 0
+                ? `${check.exceptions.length} of ${check.rows.length} elements fall outside ±${tolerance}% of the Hanscomb elemental rates.`
+                : `All ${check.rows.length} elements are within ±${tolerance}% of the Hanscomb elemental rates.`}
+              {check.building && ` Whole building: ${rate(check.building.estimate)} against ${rate(check.building.reference)}/${m.areaUnit} (${signed(check.building.variancePct, fmtPct)}).`}
+            </span>
+          </p>
+        )}
+      </div>
+      {check && (
+        <>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                <th className="text-left p-3 pl-6">Element</th>
+                <th className="text-right p-3">Estimate /{m.areaUnit}</th>
+                <th className="text-right p-3">Reference /{m.areaUnit}</th>
+                <th className="text-right p-3">Variance</th>
+                <th className="text-right p-3 pr-6">Impact</th>
+              </tr>
+            </thead>
+            <tbody>{(showAll ? check.rows : check.exceptions).map(row)}</tbody>
+          </table>
+          <div className="p-4 px-6 flex flex-wrap items-center justify-between gap-3 text-xs text-slate-500">
+            <button onClick={() => setShowAll(!showAll)} className="flex items-center gap-1 hover:text-slate-300">
+              {showAll ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              {showAll ? 'Show exceptions only' : `Show all ${check.rows.length} elements`}
+            </button>
+            {check.unreferenced > 0 && <span>{fmt(check.unreferenced)} sits on elements the reference has no rate for.</span>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
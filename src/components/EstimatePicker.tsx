@@ -0,0 +1,18 @@
+import { ESTIMATE_FILES, findEstimateFile } from '../data/catalog'
+
+export function EstimatePicker({ value, onChange, label = 'Estimate' }: {
+  value: string; onChange: (id: string) => void; label?: string
+}) {
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600"
+      aria-label={label}
+    >
+      {/* Estimates opened from the portfolio manifest aren't in the catalog */}
+      {!findEstimateFile(value) && <option value={value}>{value}</option>}
+      {ESTIMATE_FILES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+    </select>
+  )
+}
@@ -0,0 +1,125 @@
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Filter, Search, X } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt } from '../format'
+import { CONFIDENCE_COLORS, DIVISION_NAMES, SOURCE_COLORS, SOURCE_LABELS } from '../constants'
+import { EMPTY_FILTER, SORT_LABELS, isFiltering, type LineFilter, type SortKey } from '../lib/lineFilter'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value]
+
+const costValue = (text: string) => text.trim() === '' || !Number.isFinite(Number(text)) ? undefined : Number(text)
+
+export function FilterBar({ data, view, filter, onChange }: {
+  /** The unfiltered estimate, for the option lists and the "n of N" count. */
+  data: ProjectData
+  view: ProjectData
+  filter: LineFilter
+  onChange: (filter: LineFilter) => void
+}) {
+  const set = (patch: Partial<LineFilter>) => onChange({ ...filter, ...patch })
+  const sources = [...new Set(data.lines.map(l => l.source))].sort()
+  const divisions = Object.keys(data.division_totals).sort()
+  const active = isFiltering(filter)
+
+  const chip = (selected: boolean, color: string) => ({
+    className: `px-2 py-0.5 rounded text-xs border transition-colors ${selected ? 'text-white' : 'text-slate-500 border-slate-700 hover:text-slate-300'}`,
+    style: selected ? { backgroundColor: `${color}30`, borderColor: color } : undefined,
+  })
+
+  return (
+    <div className={`rounded-xl border p-4 mb-6 space-y-3 ${active ? 'border-emerald-800/60 bg-emerald-950/10' : 'border-slate-800 bg-slate-900/50'}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <Filter size={14} className={active ? 'text-emerald-400' : 'text-slate-500'} />
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-2.5 text-slate-500" />
+          <input
+            value={filter.text}
+            onChange={e => set({ text: e.target.value })}
+            placeholder="Search descriptions"
+            className={`${inputClass} pl-8 w-64`}
+            aria-label="Search descriptions"
+          />
+        </div>
+        <select
+          value=""
+          onChange={e => set({ divisions: toggle(filter.divisions, e.target.value) })}
+          className={inputClass}
+          aria-label="Add division filter"
+        >
+          <option value="" disabled>Division…</option>
+          {divisions.map(div => (
+            <option key={div} value={div}>
+              {filter.divisions.includes(div) ? '✓ ' : ''}{div || '—'} {DIVISION_NAMES[div] || (div ? '' : 'Unclassified')}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          defaultValue={filter.minCost}
+          key={`min-${filter.minCost}`}
+          onBlur={e => set({ minCost: costValue(e.target.value) })}
+          placeholder="Min $"
+          className={`${inputClass} w-28`}
+          aria-label="Minimum line total"
+        />
+        <input
+          type="number"
+          defaultValue={filter.maxCost}
+          key={`max-${filter.maxCost}`}
+          onBlur={e => set({ maxCost: costValue(e.target.value) })}
+          placeholder="Max $"
+          className={`${inputClass} w-28`}
+          aria-label="Maximum line total"
+        />
+        <div className="flex items-center gap-1 ml-auto">
+          <span className="text-xs text-slate-500">Sort</span>
+          <select value={filter.sort} onChange={e => set({ sort: e.target.value as SortKey })} className={inputClass} aria-label="Sort by">
+            {(Object.keys(SORT_LABELS) as SortKey[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+          </select>
+          <button
+            onClick={() => set({ dir: filter.dir === 'asc' ? 'desc' : 'asc' })}
+            className="p-1.5 text-slate-400 hover:text-slate-200"
+            aria-label={filter.dir === 'asc' ? 'Ascending' : 'Descending'}
+            title={filter.dir === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {filter.dir === 'asc' ? <ArrowUpNarrowWide size={16} /> : <ArrowDownWideNarrow size={16} />}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {(['high', 'medium', 'low'] as const).map(c => (
+          <button key={c} onClick={() => set({ confidences: toggle(filter.confidences, c) })} {...chip(filter.confidences.includes(c), CONFIDENCE_COLORS[c])}>
+            {c}
+          </button>
+        ))}
+        <span className="w-px h-4 bg-slate-700 mx-1" />
+        {sources.map(s => (
+          <button key={s} onClick={() => set({ sources: toggle(filter.sources, s) })} {...chip(filter.sources.includes(s), SOURCE_COLORS[s] || '#64748b')}>
+            {SOURCE_LABELS[s] || s}
+          </button>
+        ))}
+        {filter.divisions.map(div => (
+          <button key={div} onClick={() => set({ divisions: toggle(filter.divisions, div) })} {...chip(true, '#0891b2')}>
+            Div {div || '—'} <X size={10} className="inline" />
+          </button>
+        ))}
+        {active && (
+          <span className="ml-auto flex items-center gap-3 text-xs">
+            <span className="text-emerald-400">
+              {view.lines.length} of {data.lines.length} lines · {fmt(view.summary.total_cost)}
+            </span>
+            <button
+              onClick={() => onChange({ ...EMPTY_FILTER, sort: filter.sort, dir: filter.dir })}
+              className="flex items-center gap-1 text-slate-400 hover:text-slate-200"
+            >
+              <X size={12} /> Clear filters
+            </button>
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+/** Renders rows parsed from a markdown table; ragged rows are padded to the widest. */
+export function MarkdownTable({ rows }: { rows: string[][] }) {
+  const width = rows.reduce((a, r) => Math.max(a, r.length), 0)
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-collapse">
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="border-b border-slate-800/50">
+              {Array.from({ length: width }, (_, j) => (
+                <td key={j} className="px-2 py-1 border-x border-slate-800/50 text-slate-300 align-top">{row[j] ?? ''}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
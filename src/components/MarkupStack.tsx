@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import type { Markup } from '../types'
+import { fmt } from '../format'
+import { readStored, writeStored } from '../data/storage'
+import { applyMarkups, newMarkupId } from '../lib/markups'
+import { useMeasures } from '../lib/measures'
+
+const TEMPLATES_KEY = 'markup-templates'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600'
+
+export function MarkupStack({ direct, markups, defaults, floorArea, onChange }: {
+  direct: number; markups: Markup[]; defaults: Markup[]; floorArea: number;
+  onChange: (markups: Markup[]) => void
+}) {
+  const m = useMeasures()
+  const [templates, setTemplates] = useState(() => readStored<Record<string, Markup[]>>(TEMPLATES_KEY, {}))
+  const [templateName, setTemplateName] = useState('')
+  const { rows, grandTotal } = applyMarkups(direct, markups)
+
+  const update = (id: string, patch: Partial<Markup>) =>
+    onChange(markups.map(m => m.id === id ? { ...m, ...patch } : m))
+
+  const move = (index: number, offset: number) => {
+    const next = [...markups]
+    const [item] = next.splice(index, 1)
+    next.splice(index + offset, 0, item)
+    onChange(next)
+  }
+
+  const add = () => onChange([...markups, { id: newMarkupId(), label: 'New markup', kind: 'percent', value: 0, basis: 'cumulative' }])
+
+  const saveTemplate = () => {
+    const name = templateName.trim()
+    if (!name) return
+    const next = { ...templates, [name]: markups }
+    setTemplates(next)
+    writeStored(TEMPLATES_KEY, next)
+    setTemplateName('')
+  }
+
+  const applyTemplate = (name: string) => {
+    const template = templates[name]
+    if (template) onChange(template.map(m => ({ ...m, id: newMarkupId() })))
+  }
+
+  const deleteTemplate = (name: string) => {
+    const next = { ...templates }
+    delete next[name]
+    setTemplates(next)
+    writeStored(TEMPLATES_KEY, next)
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+      <div className="p-4 border-b border-slate-800 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Markups</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {Object.keys(templates).length > 0 && (
+            <select value="" onChange={e => applyTemplate(e.target.value)} className={inputClass} aria-label="Apply markup template">
+              <option value="" disabled>Apply template…</option>
+              {Object.keys(templates).map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+          <input value={templateName} onChange={e => setTemplateName(e.target.value)} placeholder="Template name" className={`${inputClass} w-32`} />
+          <button onClick={saveTemplate} disabled={!templateName.trim()} className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40">
+            <Save size={12} /> Save
+          </button>
+          <button onClick={() => onChange(defaults)} className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300">
+            <RotateCcw size={12} /> File defaults
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-12 gap-2 px-4 py-2 text-xs text-slate-400 border-b border-slate-800/50 items-center">
+        <div className="col-span-6 font-semibold uppercase">Direct Cost</div>
+        <div className="col-span-2 text-right font-mono text-slate-500">${m.perArea(direct, floorArea).toFixed(2)}/{m.areaUnit}</div>
+        <div className="col-span-2 text-right font-mono text-slate-300">{fmt(direct)}</div>
+        <div className="col-span-2" />
+      </div>
+
+      {rows.map(({ markup, amount, runningTotal }, i) => (
+        <div key={markup.id} className="grid grid-cols-12 gap-2 px-4 py-2 border-b border-slate-800/30 items-center text-xs">
+          <div className="col-span-6 flex items-center gap-2">
+            <input value={markup.label} onChange={e => update(markup.id, { label: e.target.value })} className={`${inputClass} flex-1`} aria-label="Markup label" />
+            <input
+              type="number"
+              value={markup.value}
+              onChange={e => update(markup.id, { value: Number(e.target.value) })}
+              className={`${inputClass} w-24 text-right`}
+              aria-label="Markup value"
+            />
+            <select value={markup.kind} onChange={e => update(markup.id, { kind: e.target.value as Markup['kind'] })} className={inputClass} aria-label="Markup kind">
+              <option value="percent">%</option>
+              <option value="lump_sum">$ lump sum</option>
+            </select>
+            <select
+              value={markup.basis}
+              onChange={e => update(markup.id, { basis: e.target.value as Markup['basis'] })}
+              disabled={markup.kind === 'lump_sum'}
+              className={`${inputClass} disabled:opacity-40`}
+              aria-label="Markup basis"
+            >
+              <option value="direct">on direct</option>
+              <option value="cumulative">compounding</option>
+            </select>
+          </div>
+          <div className="col-span-2 text-right font-mono text-slate-500">{fmt(amount)}</div>
+          <div className="col-span-2 text-right font-mono text-slate-400">{fmt(runningTotal)}</div>
+          <div className="col-span-2 flex justify-end gap-1 text-slate-500">
+            <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 hover:text-slate-300 disabled:opacity-30" aria-label="Move up"><ArrowUp size={12} /></button>
+            <button onClick={() => move(i, 1)} disabled={i === rows.length - 1} className="p-1 hover:text-slate-300 disabled:opacity-30" aria-label="Move down"><ArrowDown size={12} /></button>
+            <button onClick={() => onChange(markups.filter(m => m.id !== markup.id))} className="p-1 hover:text-red-400" aria-label="Remove markup"><Trash2 size={12} /></button>
+          </div>
+        </div>
+      ))}
+
+      <div className="px-4 py-2 border-b border-slate-800/50">
+        <button onClick={add} className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-300">
+          <Plus size={12} /> Add markup
+        </button>
+      </div>
+
+      <div className="grid grid-cols-12 gap-2 px-4 py-4 bg-emerald-950/30 items-center">
+        <div className="col-span-6 font-bold text-white text-sm">TOTAL WITH MARKUPS</div>
+        <div className="col-span-2 text-right font-mono text-sm text-slate-400">${m.perArea(grandTotal, floorArea).toFixed(2)}/{m.areaUnit}</div>
+        <div className="col-span-2 text-right font-mono text-lg font-bold text-emerald-400">{fmt(grandTotal)}</div>
+        <div className="col-span-2" />
+      </div>
+
+      {Object.keys(templates).length > 0 && (
+        <div className="px-4 py-2 flex flex-wrap gap-2 text-xs text-slate-600">
+          Saved templates:
+          {Object.keys(templates).map(name => (
+            <span key={name} className="inline-flex items-center gap-1 px-2 rounded bg-slate-800 text-slate-400">
+              {name}
+              <button onClick={() => deleteTemplate(name)} className="hover:text-red-400" aria-label={`Delete template ${name}`}><Trash2 size={10} /></button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { useEffect } from 'react'
+import { X } from 'lucide-react'
+import type { EstimateLine } from '../types'
+import { fmt } from '../format'
+import { SOURCE_COLORS } from '../constants'
+import { lineProvenance, type ProvenanceContext } from '../lib/provenance'
+
+/** Side drawer tracing the focused line back through extraction, matching and pricing. */
+export function ProvenanceDrawer({ line, context, onClose }: {
+  line: EstimateLine
+  context: ProvenanceContext
+  onClose: () => void
+}) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [onClose])
+
+  const sections = lineProvenance(line, context)
+  const color = SOURCE_COLORS[line.source] || '#64748b'
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 bg-slate-950/60" onClick={onClose} />
+      <aside
+        className="fixed inset-y-0 right-0 z-50 w-full max-w-md bg-slate-950 border-l border-slate-800 shadow-2xl overflow-y-auto"
+        aria-label="Line provenance"
+      >
+        <div className="sticky top-0 bg-slate-950 border-b border-slate-800 p-6 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Provenance</p>
+            <h3 className="text-white font-medium break-words">{line.description}</h3>
+            <p className="text-sm text-slate-400 mt-1">
+              <span className="font-mono">{fmt(line.total_cost)}</span>
+              {line.csi_division && <span className="text-slate-600"> · Div {line.csi_division}</span>}
+              <span className="ml-2 inline-block px-1.5 py-0.5 rounded text-[10px] font-medium" style={{ backgroundColor: `${color}20`, color }}>{line.source.replace(/_/g, ' ')}</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200 shrink-0" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {sections.map((section, i) => (
+            <section key={section.title}>
+              <h4 className="flex items-center gap-2 text-sm font-semibold text-slate-400 uppercase tracking-wider mb-3">
+                <span className="w-5 h-5 rounded-full bg-slate-800 text-[10px] text-slate-400 flex items-center justify-center">{i + 1}</span>
+                {section.title}
+              </h4>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+                {section.facts.map(fact => (
+                  <div key={fact.label} className="contents">
+                    <dt className="text-slate-500">{fact.label}</dt>
+                    <dd className="text-slate-300 font-mono text-xs self-center break-words">{fact.value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {section.notes.map((note, j) => <p key={j} className="text-xs text-slate-500 mt-2">{note}</p>)}
+            </section>
+          ))}
+        </div>
+      </aside>
+    </>
+  )
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import { Copy, FlaskConical, GitCompare, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt } from '../format'
+import { newScenario, removeAddedLine, type Scenario } from '../lib/scenarios'
+import { useMeasures } from '../lib/measures'
+import { DiffView } from './DiffView'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+const buttonClass = 'flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40'
+
+export function ScenarioPanel({ scenarios, active, skipped, base, revised, onSelect, onSave }: {
+  scenarios: Scenario[]; active?: Scenario; skipped: number;
+  base: ProjectData; revised: ProjectData;
+  onSelect: (id: string | null) => void; onSave: (scenarios: Scenario[], activeId?: string | null) => void
+}) {
+  const m = useMeasures()
+  const [comparing, setComparing] = useState(false)
+  const overrideCount = active ? Object.keys(active.overrides).length : 0
+  const added = active?.added ?? []
+  const delta = revised.summary.total_cost - base.summary.total_cost
+  const gfa = base.project.gross_floor_area_sf
+
+  const create = (from?: Scenario) => {
+    const scenario = from
+      ? { ...newScenario(`${from.name} (copy)`), overrides: from.overrides, added: from.added }
+      : newScenario(`Scenario ${scenarios.length + 1}`)
+    onSave([...scenarios, scenario], scenario.id)
+  }
+
+  const update = (next: Scenario) => onSave(scenarios.map(s => s.id === next.id ? next : s))
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical size={16} className="text-violet-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">What-if Scenario</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={active?.id ?? ''} onChange={e => onSelect(e.target.value || null)} className={inputClass} aria-label="Scenario">
+            <option value="">Base estimate</option>
+            {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <button onClick={() => create()} className={buttonClass}><Plus size={12} /> New</button>
+          {active && (
+            <>
+              <button onClick={() => create(active)} className={buttonClass}><Copy size={12} /> Duplicate</button>
+              <button onClick={() => update({ ...active, overrides: {}, added: [] })} disabled={overrideCount === 0 && added.length === 0} className={buttonClass}>
+                <RotateCcw size={12} /> Reset
+              </button>
+              <button onClick={() => onSave(scenarios.filter(s => s.id !== active.id), null)} className={`${buttonClass} hover:text-red-400`}>
+                <Trash2 size={12} /> Delete
+              </button>
+              <button onClick={() => setComparing(!comparing)} className={`${buttonClass} ${comparing ? 'text-emerald-400' : ''}`}>
+                <GitCompare size={12} /> Compare with base
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {active ? (
+        <div className="flex flex-wrap items-center gap-6 text-sm">
+          <input
+            value={active.name}
+            onChange={e => update({ ...active, name: e.target.value })}
+            className={`${inputClass} w-56`}
+            aria-label="Scenario name"
+          />
+          <span className="text-slate-500">
+            {overrideCount} overridden line{overrideCount === 1 ? '' : 's'}
+            {added.length > 0 && `, ${added.length} added`}
+          </span>
+          <span className="font-mono text-slate-400">
+            {fmt(base.summary.total_cost)} → <span className="text-white">{fmt(revised.summary.total_cost)}</span>
+            <span className={`ml-2 ${delta > 0 ? 'text-orange-400' : delta < 0 ? 'text-cyan-400' : 'text-slate-600'}`}>
+              {delta === 0 ? '±$0' : `${delta > 0 ? '+' : '−'}${fmt(Math.abs(delta))}`}
+            </span>
+          </span>
+          {gfa > 0 && (
+            <span className="font-mono text-slate-500">
+              ${m.perArea(base.summary.total_cost, gfa).toFixed(2)} → ${m.perArea(revised.summary.total_cost, gfa).toFixed(2)}/{m.areaUnit}
+            </span>
+          )}
+          {skipped > 0 && (
+            <span className="text-xs text-amber-400">
+              {skipped} override{skipped === 1 ? '' : 's'} no longer match a line in this file and {skipped === 1 ? 'is' : 'are'} ignored
+            </span>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">
+          Create a scenario to override quantities and unit rates in the schedule below, or to add an assembly takeoff from the Assemblies tab. Scenarios are saved in this browser and leave the estimate file untouched.
+        </p>
+      )}
+
+      {active && added.length > 0 && (
+        <div className="border-t border-slate-800 pt-3 space-y-1">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Added lines</p>
+          {added.map((line, i) => (
+            <div key={i} className="flex items-center gap-3 text-xs">
+              <span className="flex-1 min-w-0 truncate text-slate-400" title={line.description}>{line.description}</span>
+              <span className="font-mono text-slate-500">{m.line(line).quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })} {m.line(line).unit}</span>
+              <span className="font-mono text-slate-300 w-24 text-right">{fmt(line.total_cost)}</span>
+              <button onClick={() => update(removeAddedLine(active, i))} className="text-slate-600 hover:text-red-400" aria-label={`Remove ${line.description}`}>
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {active && comparing && (
+        <div className="space-y-6 pt-2">
+          <DiffView base={base} revised={revised} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import type { DollarSign } from 'lucide-react'
+
+export function StatCard({ icon: Icon, label, value, sub, accent = 'emerald' }: {
+  icon: typeof DollarSign; label: string; value: string; sub?: string;
+  accent?: 'emerald' | 'cyan' | 'amber' | 'violet'
+}) {
+  const colors = {
+    emerald: 'bg-emerald-600/10 text-emerald-400 border-emerald-800/50',
+    cyan: 'bg-cyan-600/10 text-cyan-400 border-cyan-800/50',
+    amber: 'bg-amber-600/10 text-amber-400 border-amber-800/50',
+    violet: 'bg-violet-600/10 text-violet-400 border-violet-800/50',
+  }
+  return (
+    <div className={`rounded-xl border p-5 ${colors[accent]}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <Icon size={16} />
+        <span className="text-xs uppercase tracking-wider opacity-70">{label}</span>
+      </div>
+      <p className="text-2xl font-bold text-white">{value}</p>
+      {sub && <p className="text-xs mt-1 opacity-60">{sub}</p>}
+    </div>
+  )
+}
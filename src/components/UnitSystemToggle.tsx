@@ -0,0 +1,19 @@
+import { UNIT_SYSTEM_LABELS, type UnitSystem } from '../data/units'
+
+export function UnitSystemToggle({ value, onChange }: {
+  value: UnitSystem; onChange: (value: UnitSystem) => void
+}) {
+  return (
+    <div className="inline-flex rounded-lg border border-slate-700 p-0.5 text-xs" role="group" aria-label="Units">
+      {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(s => (
+        <button
+          key={s}
+          onClick={() => onChange(s)}
+          className={`px-3 py-1 rounded-md transition-colors ${value === s ? 'bg-emerald-600/20 text-emerald-400' : 'text-slate-500 hover:text-slate-300'}`}
+        >
+          {UNIT_SYSTEM_LABELS[s]}
+        </button>
+      ))}
+    </div>
+  )
+}
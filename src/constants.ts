@@ -0,0 +1,53 @@
+export const SECTION_COLORS = [
+  '#1e40af', '#0891b2', '#059669', '#65a30d', '#ca8a04',
+  '#ea580c', '#dc2626', '#9333ea', '#6366f1',
+]
+
+export const SOURCE_COLORS: Record<string, string> = {
+  cost_db: '#059669',
+  cost_db_assembly: '#10b981',
+  system_breakout_db: '#0891b2',
+  system_breakout_fallback: '#06b6d4',
+  rate_library_fallback: '#ca8a04',
+  parametric_gap_fill: '#94a3b8',
+  hanscomb_direct: '#6366f1',
+  hanscomb_scaled: '#818cf8',
+  hanscomb_adjusted: '#a5b4fc',
+  pla_estimate: '#9333ea',
+}
+
+export const SOURCE_LABELS: Record<string, string> = {
+  cost_db: 'Cost Database',
+  cost_db_assembly: 'DB Assembly',
+  system_breakout_db: 'System Breakout (DB)',
+  system_breakout_fallback: 'System Breakout (Est.)',
+  rate_library_fallback: 'Rate Library',
+  parametric_gap_fill: 'Parametric Gap-Fill',
+  hanscomb_direct: 'Hanscomb Direct',
+  hanscomb_scaled: 'Hanscomb Scaled',
+  hanscomb_adjusted: 'Hanscomb Adjusted',
+  pla_estimate: 'PLA Estimate',
+}
+
+export const CONFIDENCE_COLORS: Record<string, string> = {
+  high: '#059669',
+  medium: '#ca8a04',
+  low: '#dc2626',
+}
+
+export const DIVISION_NAMES: Record<string, string> = {
+  '01': 'General Requirements', '02': 'Existing Conditions', '03': 'Concrete',
+  '04': 'Masonry', '05': 'Metals', '06': 'Wood & Plastics', '07': 'Thermal/Moisture',
+  '08': 'Openings', '09': 'Finishes', '10': 'Specialties', '11': 'Equipment',
+  '12': 'Furnishings', '14': 'Conveying', '21': 'Fire Suppression', '22': 'Plumbing',
+  '23': 'HVAC', '25': 'Integrated Automation', '26': 'Electrical',
+  '27': 'Communications', '28': 'Electronic Safety', '31': 'Earthwork',
+  '32': 'Ext. Improvements', '33': 'Utilities',
+}
+
+export const COST_COMPONENT_COLORS: Record<string, string> = {
+  material: '#0891b2',
+  labor: '#f59e0b',
+  equipment: '#8b5cf6',
+  unsplit: '#334155',
+}
@@ -0,0 +1,334 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { DIVISION_NAMES } from '../constants'
+import { elementDivision } from './uniformat'
+import { markupsFromAmounts } from '../lib/markups'
+
+// ============================================================
+// SCHEMA ADAPTERS
+// Every pipeline run writes its own JSON shape. Each adapter recognises one
+// shape and maps it onto ProjectData so the tabs only ever see one model.
+// ============================================================
+
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnsupportedFormatError'
+  }
+}
+
+type RawObject = Record<string, unknown>
+
+export interface EstimateAdapter {
+  format: string
+  matches: (raw: RawObject) => boolean
+  adapt: (raw: RawObject) => ProjectData
+}
+
+// --- Raw shapes ------------------------------------------------
+
+interface CombinedV3File {
+  project: {
+    name: string; location: string; facility_type?: string; generated?: string;
+    company?: string; pipeline_version?: string; cci?: number;
+    building_params?: { name?: string; beds?: number; storeys?: number; gross_area_sf?: number; location?: string; cci_factor?: number };
+  };
+  metadata: { total_line_items: number; total_cost: number; cost_per_bed: number; cost_per_sf: number };
+  metadata_extended?: { contractor_ohp?: number; design_contingency?: number; escalation?: number; total_with_markups?: number };
+  summary_by_division: Record<string, { division_name: string; count: number; total: number }>;
+  lines: {
+    division: string; description: string; quantity: number; unit: string;
+    unit_cost: number; total_cost: number; source: string; estimate_source: string;
+    rsmeans_code?: string | null; confidence: number; extraction_confidence?: number;
+    material_cost?: number; labor_cost?: number; equipment_cost?: number;
+  }[];
+}
+
+interface ExtractionV2File {
+  project: { name: string; location: string; type?: string; stories?: number };
+  summary: { total_line_items: number; total_cost: number };
+  divisions: Record<string, { division_name: string; count: number; total: number }>;
+  lines: {
+    division: string; description: string; quantity: number; unit: string;
+    unit_cost: number; total_cost: number; source: string; discipline: string;
+    confidence: number; matched_description?: string;
+    material_cost?: number; labor_cost?: number; equipment_cost?: number;
+  }[];
+}
+
+interface ElementalFile {
+  project: string;
+  timestamp?: string;
+  method?: string;
+  building_parameters: { name?: string; beds?: number; stories?: number; gross_area_sf?: number; construction_type?: string };
+  total_cost: number; cost_per_bed: number; cost_per_sf: number; line_count: number;
+  element_totals: Record<string, number>;
+  lines: {
+    description: string; quantity: number; unit: string; unit_cost: number;
+    total_cost: number; element: string; source: string; confidence: string;
+  }[];
+}
+
+// --- Shared derivations ----------------------------------------
+
+/** Buckets a 0–1 confidence score into the high / medium / low levels the charts use. */
+export const confidenceLevel = (score: number) =>
+  score >= 0.7 ? 'high' : score >= 0.4 ? 'medium' : 'low'
+
+/** Which of the three pricing methods in summary.pricing_method a line source falls under. */
+export const pricingMethodOf = (source: string) =>
+  source.includes('parametric') ? 'parametric' : source.includes('fallback') ? 'library' : 'db'
+
+export function pricingMethodFromLines(lines: EstimateLine[]): ProjectData['summary']['pricing_method'] {
+  const totals = { db: 0, library: 0, parametric: 0 }
+  const counts = { db: 0, library: 0, parametric: 0 }
+  for (const line of lines) {
+    const method = pricingMethodOf(line.source)
+    totals[method] += line.total_cost
+    counts[method] += 1
+  }
+  const sum = totals.db + totals.library + totals.parametric
+  const share = (v: number) => sum > 0 ? Math.round(v / sum * 1000) / 10 : 0
+  const priced = counts.db + counts.library
+  return {
+    cost_db_pct: share(totals.db),
+    rate_library_fallback_pct: share(totals.library),
+    parametric_gap_fill_pct: share(totals.parametric),
+    match_rate: priced > 0 ? Math.round(counts.db / priced * 1000) / 10 : 0,
+  }
+}
+
+export function divisionTotalsFromLines(lines: EstimateLine[]): Record<string, number> {
+  return lines.reduce((acc, line) => {
+    acc[line.csi_division] = (acc[line.csi_division] || 0) + line.total_cost
+    return acc
+  }, {} as Record<string, number>)
+}
+
+/** One section per division, for formats that don't group divisions into trade sections. */
+export function sectionsFromDivisions(
+  divisionTotals: Record<string, number>, names: Record<string, string>,
+): ProjectData['sections'] {
+  const total = Object.values(divisionTotals).reduce((a, b) => a + b, 0)
+  return Object.entries(divisionTotals)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([div, engine]) => ({
+      name: names[div] || `Division ${div}`,
+      divisions: [div],
+      pla: 0,
+      engine,
+      pct: total > 0 ? engine / total * 100 : 0,
+    }))
+}
+
+const leadingNumber = (text: string | undefined) => {
+  const match = text?.match(/\d+/)
+  return match ? Number(match[0]) : 0
+}
+
+const UNSTATED = 'Not stated'
+
+// --- Adapters --------------------------------------------------
+
+const engineReport: EstimateAdapter = {
+  format: 'Engine report (estimate-v2)',
+  matches: raw => typeof raw.project === 'object' && typeof raw.summary === 'object'
+    && Array.isArray(raw.lines) && 'division_totals' in raw,
+  adapt: raw => raw as unknown as ProjectData,
+}
+
+const combinedV3: EstimateAdapter = {
+  format: 'Combined estimate (estimate-v3)',
+  matches: raw => typeof raw.metadata === 'object' && typeof raw.summary_by_division === 'object' && Array.isArray(raw.lines),
+  adapt: raw => {
+    const file = raw as unknown as CombinedV3File
+    const params = file.project.building_params ?? {}
+    const lines: EstimateLine[] = file.lines.map(l => ({
+      description: l.description,
+      quantity: l.quantity,
+      unit: l.unit,
+      unit_cost: l.unit_cost,
+      total_cost: l.total_cost,
+      csi_division: l.division,
+      source: l.estimate_source === 'parametric' ? 'parametric_gap_fill' : l.rsmeans_code ? 'cost_db' : 'rate_library_fallback',
+      confidence: confidenceLevel(l.confidence),
+      material_cost: l.material_cost,
+      labor_cost: l.labor_cost,
+      equipment_cost: l.equipment_cost,
+      // "schedule/architectural": a schedule read off that discipline's drawings
+      discipline: l.source.startsWith('schedule/') ? l.source.slice('schedule/'.length) : undefined,
+      extraction_source: l.source,
+      extraction_confidence: l.extraction_confidence,
+      estimate_source: l.estimate_source,
+      // Lines with no database match write the code as null
+      rsmeans_code: l.rsmeans_code ?? undefined,
+    }))
+    const divisionTotals = Object.fromEntries(Object.entries(file.summary_by_division).map(([div, d]) => [div, d.total]))
+    const divisionNames = Object.fromEntries(Object.entries(file.summary_by_division).map(([div, d]) => [div, d.division_name]))
+    const ext = file.metadata_extended ?? {}
+    return {
+      project: {
+        name: params.name ?? file.project.name,
+        client: UNSTATED,
+        location: params.location ?? file.project.location,
+        building_type: file.project.facility_type ?? UNSTATED,
+        construction_type: UNSTATED,
+        stories: params.storeys ?? 0,
+        gross_floor_area_sf: params.gross_area_sf ?? 0,
+        units: params.beds ?? 0,
+        unit_type: 'Beds',
+        report_date: file.project.generated?.slice(0, 10) ?? '',
+        report_number: file.project.pipeline_version ?? 'v3',
+        prepared_by: file.project.company ?? UNSTATED,
+        class: UNSTATED,
+        confidence_range: UNSTATED,
+        location_factor: file.project.cci ?? params.cci_factor,
+      },
+      summary: {
+        total_cost: file.metadata.total_cost,
+        cost_per_sf: file.metadata.cost_per_sf,
+        cost_per_unit: file.metadata.cost_per_bed,
+        line_count: file.metadata.total_line_items,
+        pricing_method: pricingMethodFromLines(lines),
+      },
+      sections: sectionsFromDivisions(divisionTotals, divisionNames),
+      division_totals: divisionTotals,
+      lines,
+      benchmarks: {},
+      markups: markupsFromAmounts(file.metadata.total_cost, [
+        { label: 'Contractor OH&P', amount: ext.contractor_ohp ?? 0 },
+        { label: 'Design Contingency', amount: ext.design_contingency ?? 0 },
+        { label: 'Escalation', amount: ext.escalation ?? 0 },
+      ]),
+    }
+  },
+}
+
+const extractionV2: EstimateAdapter = {
+  format: 'Priced extraction (extraction-v2)',
+  matches: raw => typeof raw.divisions === 'object' && Array.isArray(raw.lines) && typeof raw.summary === 'object',
+  adapt: raw => {
+    const file = raw as unknown as ExtractionV2File
+    const lines: EstimateLine[] = file.lines.map(l => ({
+      description: l.description,
+      quantity: l.quantity,
+      unit: l.unit,
+      unit_cost: l.unit_cost,
+      total_cost: l.total_cost,
+      csi_division: l.division,
+      // "[division avg: NN]" means no item matched and a division average rate was used
+      source: l.matched_description?.startsWith('[division avg') ? 'rate_library_fallback' : 'cost_db',
+      confidence: confidenceLevel(l.confidence),
+      material_cost: l.material_cost,
+      labor_cost: l.labor_cost,
+      equipment_cost: l.equipment_cost,
+      discipline: l.discipline,
+      extraction_source: l.source,
+      matched_description: l.matched_description,
+    }))
+    const divisionTotals = divisionTotalsFromLines(lines)
+    const divisionNames = Object.fromEntries(Object.entries(file.divisions).map(([div, d]) => [div, d.division_name]))
+    const total = lines.reduce((a, l) => a + l.total_cost, 0)
+    const units = leadingNumber(file.project.type)
+    return {
+      project: {
+        name: file.project.name,
+        client: UNSTATED,
+        location: file.project.location,
+        building_type: file.project.type ?? UNSTATED,
+        construction_type: UNSTATED,
+        stories: file.project.stories ?? 0,
+        gross_floor_area_sf: 0,
+        units,
+        unit_type: 'Beds',
+        report_date: '',
+        report_number: 'extraction-v2',
+        prepared_by: UNSTATED,
+        class: UNSTATED,
+        confidence_range: UNSTATED,
+      },
+      summary: {
+        total_cost: total,
+        cost_per_sf: 0,
+        cost_per_unit: units > 0 ? total / units : 0,
+        line_count: lines.length,
+        pricing_method: pricingMethodFromLines(lines),
+      },
+      sections: sectionsFromDivisions(divisionTotals, divisionNames),
+      division_totals: divisionTotals,
+      lines,
+      benchmarks: {},
+    }
+  },
+}
+
+const elemental: EstimateAdapter = {
+  format: 'Elemental estimate (UNIFORMAT)',
+  matches: raw => typeof raw.element_totals === 'object' && Array.isArray(raw.lines),
+  adapt: raw => {
+    const file = raw as unknown as ElementalFile
+    const params = file.building_parameters
+    const lines: EstimateLine[] = file.lines.map(l => ({
+      description: l.description,
+      quantity: l.quantity,
+      unit: l.unit,
+      unit_cost: l.unit_cost,
+      total_cost: l.total_cost,
+      csi_division: elementDivision(l.element),
+      source: l.source,
+      confidence: l.confidence,
+      element: l.element,
+    }))
+    const divisionTotals = divisionTotalsFromLines(lines)
+    return {
+      project: {
+        name: params.name ?? file.project,
+        client: UNSTATED,
+        location: UNSTATED,
+        building_type: UNSTATED,
+        construction_type: params.construction_type ? `Type ${params.construction_type}` : UNSTATED,
+        stories: params.stories ?? 0,
+        gross_floor_area_sf: params.gross_area_sf ?? 0,
+        units: params.beds ?? 0,
+        unit_type: 'Beds',
+        report_date: file.timestamp?.slice(0, 10) ?? '',
+        report_number: 'elemental',
+        prepared_by: file.method ?? UNSTATED,
+        class: UNSTATED,
+        confidence_range: UNSTATED,
+      },
+      summary: {
+        total_cost: file.total_cost,
+        cost_per_sf: file.cost_per_sf,
+        cost_per_unit: file.cost_per_bed,
+        line_count: file.line_count,
+        pricing_method: pricingMethodFromLines(lines),
+      },
+      sections: sectionsFromDivisions(divisionTotals, DIVISION_NAMES),
+      division_totals: divisionTotals,
+      lines,
+      benchmarks: {},
+    }
+  },
+}
+
+export const ADAPTERS: EstimateAdapter[] = [engineReport, combinedV3, extractionV2, elemental]
+
+/**
+ * Maps any known pipeline output onto ProjectData.
+ * Throws UnsupportedFormatError with a human-readable reason when no adapter fits.
+ */
+export function adaptEstimate(raw: unknown): ProjectData {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new UnsupportedFormatError('The file is not a JSON object.')
+  }
+  const obj = raw as RawObject
+  const adapter = ADAPTERS.find(a => a.matches(obj))
+  if (adapter) return adapter.adapt(obj)
+
+  if (Array.isArray(obj.sample_items) && !('lines' in obj)) {
+    throw new UnsupportedFormatError('This is an extraction-only run: it has extracted drawing items but no priced estimate lines.')
+  }
+  throw new UnsupportedFormatError(
+    `No adapter recognises this format (top-level keys: ${Object.keys(obj).join(', ') || 'none'}).`,
+  )
+}
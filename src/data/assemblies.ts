@@ -0,0 +1,125 @@
+// Hanscomb assembly library (hanscomb-assemblies.json): priced assemblies
+// from the Hanscomb estimate, grouped by kind. Each entry carries one rate
+// (rate_per_sf, rate_each, rate_per_lb) and usually the quantity and total it
+// was priced at on that project; wall types also list their components.
+// concrete_rates is a flat map of "<item>_per_<unit>" rates, and the steel
+// rate is a bare number. elemental_rates_per_sf are whole-building $/SF
+// figures per UNIFORMAT element rather than assemblies; parseElementalRates
+// reads those.
+
+export type AssemblyUnit = 'SF' | 'EA' | 'LB' | 'CY'
+
+export interface AssemblyComponent {
+  material: string
+  rate: number
+  unit: string
+}
+
+export interface Assembly {
+  /** "W1", "SV-3", "HM_single_36x84" */
+  code: string
+  description: string
+  rate: number
+  unit: AssemblyUnit
+  /** Quantity and total on the reference project the rate was priced for */
+  referenceQuantity?: number
+  referenceTotal?: number
+  components: AssemblyComponent[]
+}
+
+export interface AssemblyGroup {
+  key: string
+  name: string
+  /** CSI division and UNIFORMAT element that lines built from the group land in */
+  division: string
+  element: string
+  assemblies: Assembly[]
+}
+
+type RawObject = Record<string, unknown>
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v)
+const num = (v: unknown) => typeof v === 'number' && Number.isFinite(v) ? v : undefined
+
+const GROUPS: Omit<AssemblyGroup, 'assemblies'>[] = [
+  { key: 'wall_types', name: 'Wall Types', division: '07', element: 'A32_walls_above_grade' },
+  { key: 'windows', name: 'Windows', division: '08', element: 'A33_windows_entrances' },
+  { key: 'roof_construction', name: 'Roof Construction', division: '05', element: 'A23_roof_construction' },
+  { key: 'partition_types', name: 'Partition Types', division: '09', element: 'B11_partitions' },
+  { key: 'door_types', name: 'Door Types', division: '08', element: 'B12_doors' },
+  { key: 'floor_finishes', name: 'Floor Finishes', division: '09', element: 'B21_floor_finishes' },
+  { key: 'concrete_rates', name: 'Concrete', division: '03', element: 'A11_foundations' },
+  { key: 'structural_steel_rate_per_lb', name: 'Structural Steel', division: '05', element: 'A22_upper_floor_construction' },
+]
+
+const RATE_KEYS: [string, AssemblyUnit][] = [['rate_per_sf', 'SF'], ['rate_each', 'EA'], ['rate_per_lb', 'LB'], ['rate_per_cy', 'CY']]
+const QUANTITY_KEYS = ['area_sf', 'count', 'weight_lbs']
+
+const readable = (key: string) => key.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase())
+
+function parseAssembly(code: string, raw: RawObject): Assembly | null {
+  const rated = RATE_KEYS.find(([key]) => num(raw[key]) !== undefined)
+  if (!rated) return null
+  const quantityKey = QUANTITY_KEYS.find(key => num(raw[key]) !== undefined)
+  return {
+    code,
+    description: typeof raw.description === 'string' ? raw.description : readable(code),
+    rate: num(raw[rated[0]]) ?? 0,
+    unit: rated[1],
+    referenceQuantity: quantityKey ? num(raw[quantityKey]) : undefined,
+    referenceTotal: num(raw.total),
+    components: (Array.isArray(raw.components) ? raw.components : []).filter(isObject).map(c => ({
+      material: typeof c.material === 'string' ? c.material : '',
+      rate: num(c.rate) ?? 0,
+      unit: typeof c.unit === 'string' ? c.unit : '',
+    })),
+  }
+}
+
+// "concrete_per_cy": 227 → Concrete, $227 / CY
+function parseFlatRates(raw: RawObject): Assembly[] {
+  return Object.entries(raw).flatMap(([key, value]) => {
+    const match = key.match(/^(.+)_per_(sf|cy|lb)$/)
+    const rate = num(value)
+    if (!match || rate === undefined) return []
+    return [{ code: match[1], description: readable(match[1]), rate, unit: match[2].toUpperCase() as AssemblyUnit, components: [] }]
+  })
+}
+
+export function parseAssemblyLibrary(raw: unknown): AssemblyGroup[] {
+  if (!isObject(raw)) throw new Error('The assembly library is not a JSON object.')
+  const groups = GROUPS.flatMap(group => {
+    const value = raw[group.key]
+    const assemblies = typeof value === 'number'
+      ? [{ code: 'steel', description: 'Structural steel, supplied and erected', rate: value, unit: 'LB' as const, components: [] }]
+      : !isObject(value) ? []
+        : group.key === 'concrete_rates' ? parseFlatRates(value)
+          : Object.entries(value).flatMap(([code, entry]) => {
+            const assembly = isObject(entry) ? parseAssembly(code, entry) : null
+            return assembly ? [assembly] : []
+          })
+    return assemblies.length > 0 ? [{ ...group, assemblies }] : []
+  })
+  if (groups.length === 0) {
+    throw new Error(`The assembly library has no priced assemblies (keys: ${Object.keys(raw).join(', ') || 'none'}).`)
+  }
+  return groups
+}
+
+export interface ElementalRate {
+  /** Element ("A11"), element group ("A1", or "Z" for all of Z) or "TOTAL" for the whole building */
+  code: string
+  /** Key as written in the file, e.g. "A11_foundations" */
+  key: string
+  /** $ per SF of gross floor area */
+  rate: number
+}
+
+export function parseElementalRates(raw: unknown): ElementalRate[] {
+  const rates = isObject(raw) ? raw.elemental_rates_per_sf : undefined
+  if (!isObject(rates)) throw new Error('The assembly library has no elemental_rates_per_sf table.')
+  return Object.entries(rates).flatMap(([key, value]) => {
+    const rate = num(value)
+    return rate !== undefined ? [{ code: key.split('_')[0].toUpperCase(), key, rate }] : []
+  })
+}
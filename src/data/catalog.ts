@@ -0,0 +1,39 @@
+// Pipeline outputs shipped in public/data that the estimate picker offers.
+// Each entry is fetched on demand and run through the schema adapters.
+
+export interface EstimateFile {
+  id: string
+  label: string
+  path: string
+}
+
+export const ESTIMATE_FILES: EstimateFile[] = [
+  { id: 'estimate-v2', label: 'Estimate v2 — Engine report', path: '/data/estimate-v2.json' },
+  { id: 'estimate-v4', label: 'Estimate v4 — Engine report', path: '/data/estimate-v4.json' },
+  { id: 'estimate-v3', label: 'Estimate v3 — Combined schedule + parametric', path: '/data/estimate-v3.json' },
+  { id: 'extraction-v2', label: 'Extraction v2 — Docling + vision priced', path: '/data/extraction-v2.json' },
+  { id: 'gore-bay-full', label: 'Gore Bay full — Hanscomb elemental', path: '/data/gore-bay-full-estimate.json' },
+  { id: 'extraction-v1', label: 'Extraction v1 — Raw extraction', path: '/data/extraction-v1.json' },
+]
+
+export const DEFAULT_ESTIMATE_ID = 'estimate-v2'
+
+export const findEstimateFile = (id: string) => ESTIMATE_FILES.find(f => f.id === id)
+
+// Estimates compared on the Portfolio tab. The manifest can list files beyond
+// the ones above; those open in the dashboard through it.
+export const PORTFOLIO_MANIFEST_PATH = '/data/portfolio.json'
+
+// Reference files that aren't estimates in their own right
+export const PLA_ESTIMATE_PATH = '/data/pla-estimate-v2.json'
+
+// Docling + vision extraction behind the Gore Bay estimates: v1 carries the
+// sampled items, v2 the per-discipline Docling and vision counts
+export const EXTRACTION_ITEMS_PATH = '/data/extraction-v1.json'
+export const EXTRACTION_SUMMARY_PATH = '/data/extraction-v2.json'
+
+// Page-by-page vision results for the drawing sheets, keyed by discipline
+export const QS_EXTRACTION_PATH = '/data/qs-extraction.json'
+
+// Priced assemblies (wall, partition and door types, finishes…) from the Hanscomb estimate
+export const HANSCOMB_ASSEMBLIES_PATH = '/data/hanscomb-assemblies.json'
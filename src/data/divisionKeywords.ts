@@ -0,0 +1,65 @@
+import type { EstimateLine } from '../types'
+import { DIVISION_NAMES } from '../constants'
+
+// ============================================================
+// CSI DIVISION KEYWORDS
+// Description keywords that point at a CSI division, used to suggest a
+// division for lines the pipeline left unclassified and to flag lines whose
+// division disagrees with their description. Patterns are deliberately
+// narrow: a missed suggestion costs a click, a wrong one costs trust.
+// ============================================================
+
+const KEYWORD_RULES: [RegExp, string][] = [
+  [/general conditions|supervision|temporary (facilities|heat|power)|mobili[sz]ation|permits?\b|insurance|bonds?\b|site office/i, '01'],
+  [/demolition|abatement|hazardous material/i, '02'],
+  [/concrete|rebar|reinforcing steel|formwork|footing|slab on grade|grade beam/i, '03'],
+  [/masonry|\bcmu\b|concrete block|brick|mortar/i, '04'],
+  [/structural steel|steel joist|metal deck|miscellaneous metal|handrail|railing|steel stair/i, '05'],
+  [/lumber|rough carpentry|millwork|casework|cabinet|countertop|wood truss|blocking/i, '06'],
+  [/roofing|roof membrane|insulation|air barrier|vapou?r (barrier|retarder)|flashing|sealant|waterproofing|firestop|eifs|siding/i, '07'],
+  [/\bdoors?\b|door frame|hardware|window|glazing|storefront|curtain wall|skylight|louvre|louver/i, '08'],
+  [/drywall|gypsum|\bgwb\b|painting|\bpaint\b|ceramic tile|flooring|carpet|\bvct\b|\blvt\b|acoustic(al)? ceiling|resilient/i, '09'],
+  [/toilet accessor|toilet partition|signage|lockers?\b|fire extinguisher|corner guard|wall protection|grab bar/i, '10'],
+  [/\bgrills?\b|fryer|steamer|oven|range hood|dishwasher|walk-in|refrigerat|freezer|food (warmer|service)|work table|kitchen equipment|laundry equipment|commercial washer|dryer/i, '11'],
+  [/furniture|window (blinds|treatment)|roller shade|\bblinds\b|cubicle curtain|furnishing/i, '12'],
+  [/elevator|passenger lift|patient lift track|dumbwaiter/i, '14'],
+  [/sprinkler|fire suppression|standpipe|fire pump/i, '21'],
+  [/plumbing|water closet|lavator|\bsinks?\b|urinal|water heater|domestic water|sanitary (piping|drain)|floor drain|backflow/i, '22'],
+  [/hvac|ductwork|\bducts?\b|air handl|\bahu\b|boiler|chiller|diffuser|\bvav\b|exhaust fan|ventilation|heat pump|rooftop unit|\brtu\b/i, '23'],
+  [/building automation|\bbas\b|\bddc\b|control system/i, '25'],
+  [/electrical|conduit|wiring|switchgear|panelboard|transformer|generator|lighting|luminaire|receptacle/i, '26'],
+  [/telecom|data cabling|structured cabling|nurse call|communications|\bpa system\b|intercom/i, '27'],
+  [/fire alarm|security|access control|\bcctv\b|intrusion|wander management/i, '28'],
+  [/excavation|earthwork|backfill|grading|compaction|dewatering|shoring/i, '31'],
+  [/paving|asphalt|landscap|sidewalk|\bcurbs?\b|fencing|sodding|planting|parking lot/i, '32'],
+  [/site utilit|storm sewer|sanitary sewer|water main|watermain|manhole|catch basin|hydrant/i, '33'],
+]
+
+// "Equipment: Grill" names its division outright; DIVISION_NAMES is the vocabulary
+const NAME_RULES: [RegExp, string][] = Object.entries(DIVISION_NAMES).map(([div, name]) => [
+  new RegExp(`^\\s*${name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}\\b`, 'i'), div,
+])
+
+export interface DivisionSuggestion {
+  division: string
+  /** Why: the keyword or division name that matched. */
+  reason: string
+  /** A leading division name ("Equipment: …") is how the pipeline labels some lines, so it only counts for unclassified ones. */
+  source: 'name' | 'keyword'
+}
+
+/** Every division the description points at, strongest evidence first. */
+export function divisionHints(description: string): DivisionSuggestion[] {
+  const hints: DivisionSuggestion[] = []
+  for (const [pattern, division] of NAME_RULES) {
+    const match = description.match(pattern)
+    if (match) hints.push({ division, reason: `starts with division name "${match[0].trim()}"`, source: 'name' })
+  }
+  for (const [pattern, division] of KEYWORD_RULES) {
+    const match = description.match(pattern)
+    if (match && !hints.some(h => h.division === division)) hints.push({ division, reason: `keyword "${match[0].toLowerCase()}"`, source: 'keyword' })
+  }
+  return hints
+}
+
+export const suggestDivision = (line: EstimateLine): DivisionSuggestion | undefined => divisionHints(line.description)[0]
@@ -0,0 +1,116 @@
+// Drawing/spec extraction records (extraction-v1.json, extraction-v2.json).
+// v1 lists each discipline's source file, page and item counts, extraction
+// time and a sample of extracted items; v2 has Docling counts and vision
+// pages per discipline. Both parse to one shape so they can be merged.
+
+export interface ExtractedItem {
+  page: number
+  /** construction_data, section_header, table, note… */
+  type: string
+  content: string
+  /** 0–1 */
+  confidence: number
+  discipline: string
+}
+
+export interface DisciplineStats {
+  key: string
+  name: string
+  sourceFile?: string
+  pages: number
+  /** Items Docling extracted from the whole file (the sample is smaller) */
+  items: number
+  /** Seconds */
+  extractionTime?: number
+  visionPages?: number
+}
+
+export interface ExtractionRecord {
+  project: string
+  method?: string
+  disciplines: DisciplineStats[]
+  items: ExtractedItem[]
+}
+
+type RawObject = Record<string, unknown>
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v)
+const num = (v: unknown) => typeof v === 'number' && Number.isFinite(v) ? v : undefined
+const str = (v: unknown) => typeof v === 'string' ? v : undefined
+
+const titleCase = (key: string) => key.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())
+
+function parseItem(raw: unknown): ExtractedItem | null {
+  if (!isObject(raw) || typeof raw.content !== 'string') return null
+  return {
+    page: num(raw.page) ?? 0,
+    type: str(raw.type) ?? 'unknown',
+    content: raw.content,
+    confidence: num(raw.confidence) ?? 0,
+    discipline: str(raw.discipline) ?? 'unknown',
+  }
+}
+
+export function parseExtractionRecord(raw: unknown): ExtractionRecord {
+  if (!isObject(raw)) throw new Error('The extraction file is not a JSON object.')
+  const stats = new Map<string, DisciplineStats>()
+  const entry = (key: string) => {
+    let s = stats.get(key)
+    if (!s) stats.set(key, s = { key, name: titleCase(key), pages: 0, items: 0 })
+    return s
+  }
+
+  for (const [key, d] of Object.entries(isObject(raw.disciplines) ? raw.disciplines : {})) {
+    if (!isObject(d)) continue
+    const s = entry(key)
+    s.name = str(d.name) ?? s.name
+    s.sourceFile = str(d.source_file)
+    s.pages = num(d.pages) ?? 0
+    s.items = num(d.items) ?? 0
+    s.extractionTime = num(d.extraction_time)
+  }
+  for (const [key, d] of Object.entries(isObject(raw.docling_summary) ? raw.docling_summary : {})) {
+    if (!isObject(d)) continue
+    const s = entry(key)
+    s.pages = num(d.pages) ?? s.pages
+    s.items = num(d.items) ?? s.items
+  }
+  for (const [key, pages] of Object.entries(isObject(raw.vision_summary) ? raw.vision_summary : {})) {
+    const n = num(pages)
+    if (n !== undefined) entry(key).visionPages = n
+  }
+
+  const items = (Array.isArray(raw.sample_items) ? raw.sample_items : []).map(parseItem).filter(i => i !== null)
+  if (stats.size === 0 && items.length === 0) {
+    throw new Error('The file has no extraction record (no disciplines, docling_summary, vision_summary or sample_items).')
+  }
+  const project = isObject(raw.project) ? raw.project : {}
+  return {
+    project: str(project.name) ?? '',
+    method: str(project.extraction_method),
+    disciplines: [...stats.values()],
+    items,
+  }
+}
+
+/** Combines two records of the same run; fields present in `b` fill gaps in `a`. */
+export function mergeExtractionRecords(a: ExtractionRecord, b: ExtractionRecord): ExtractionRecord {
+  const stats = new Map(a.disciplines.map(d => [d.key, { ...d }]))
+  for (const d of b.disciplines) {
+    const s = stats.get(d.key)
+    if (!s) stats.set(d.key, { ...d })
+    else {
+      s.sourceFile ??= d.sourceFile
+      s.extractionTime ??= d.extractionTime
+      s.visionPages ??= d.visionPages
+      s.pages ||= d.pages
+      s.items ||= d.items
+    }
+  }
+  return {
+    project: a.project || b.project,
+    method: a.method ?? b.method,
+    disciplines: [...stats.values()],
+    items: [...a.items, ...b.items],
+  }
+}
@@ -0,0 +1,33 @@
+import { adaptEstimate } from './adapters'
+import type { EstimateFile } from './catalog'
+import { readStored } from './storage'
+import { validateProjectData, type ValidationResult } from './validate'
+import { applyReclassification, parseReclassificationFile, reclassificationKey } from '../lib/reclassify'
+
+export async function loadEstimate(file: EstimateFile): Promise<ValidationResult> {
+  const res = await fetch(file.path)
+  if (!res.ok) throw new Error(`Could not load ${file.path} (HTTP ${res.status}).`)
+  let raw: unknown
+  try {
+    raw = await res.json()
+  } catch {
+    throw new Error(`${file.path} is not valid JSON.`)
+  }
+  return withReclassification(validateProjectData(adaptEstimate(raw)))
+}
+
+// Division fixes saved from the Classification tab apply to every run of the same project
+function withReclassification(result: ValidationResult): ValidationResult {
+  const file = parseReclassificationFile(readStored(reclassificationKey(result.data.project.name), null))
+  if (!file) return result
+  const { data, applied } = applyReclassification(result.data, file)
+  if (applied === 0) return result
+  return {
+    data,
+    issues: [...result.issues, {
+      path: 'lines[].csi_division',
+      message: `${applied} line${applied === 1 ? '' : 's'} reassigned by the saved reclassification file`,
+      severity: 'warning',
+    }],
+  }
+}
@@ -0,0 +1,36 @@
+// PLA contractor estimate (pla-estimate-v2.json): trade sections of {item, cost}
+// lines. It has no CSI divisions; the reconciliation crosswalk assigns them.
+// `project` names the project it prices, as the start of the estimates' project name.
+
+export interface PlaLine {
+  item: string
+  cost: number
+}
+
+export interface PlaSection {
+  total: number
+  lines: PlaLine[]
+}
+
+export interface PlaEstimate {
+  source: string
+  project?: string
+  total: number
+  sections: Record<string, PlaSection>
+}
+
+export function parsePlaEstimate(raw: unknown): PlaEstimate {
+  const file = raw as Partial<PlaEstimate> | null
+  if (!file || typeof file.sections !== 'object' || file.sections === null) {
+    throw new Error('The PLA estimate file has no sections block.')
+  }
+  for (const [name, section] of Object.entries(file.sections)) {
+    if (!Array.isArray(section?.lines)) throw new Error(`PLA section "${name}" has no lines.`)
+  }
+  return {
+    source: file.source ?? 'PLA contractor estimate',
+    project: typeof file.project === 'string' && file.project.trim() !== '' ? file.project.trim() : undefined,
+    total: file.total ?? Object.values(file.sections).reduce((a, s) => a + s.total, 0),
+    sections: file.sections,
+  }
+}
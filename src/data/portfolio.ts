@@ -0,0 +1,48 @@
+// Portfolio manifest (portfolio.json): the estimate files to compare across
+// projects, as { projects: [{ id, label, path, ...project fields }] }. An
+// entry may also give the location, report date or building type for older
+// files that don't record them; those only apply on the Portfolio tab.
+
+import { findEstimateFile, PORTFOLIO_MANIFEST_PATH, type EstimateFile } from './catalog'
+
+export interface PortfolioEntry extends EstimateFile {
+  location?: string
+  report_date?: string
+  building_type?: string
+}
+
+type RawObject = Record<string, unknown>
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v)
+const optionalString = (v: unknown) => typeof v === 'string' && v.trim() !== '' ? v : undefined
+
+export function parsePortfolioManifest(raw: unknown): PortfolioEntry[] {
+  if (!isObject(raw) || !Array.isArray(raw.projects)) throw new Error('The portfolio manifest has no projects list.')
+  const entries = raw.projects.flatMap((p, i): PortfolioEntry[] => {
+    if (!isObject(p)) return []
+    const id = optionalString(p.id)
+    const path = optionalString(p.path)
+    if (!id || !path) throw new Error(`Portfolio project ${i + 1} needs an id and a path.`)
+    return [{
+      id,
+      path,
+      label: optionalString(p.label) ?? id,
+      location: optionalString(p.location),
+      report_date: optionalString(p.report_date),
+      building_type: optionalString(p.building_type),
+    }]
+  })
+  const ids = entries.map(e => e.id)
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i)
+  if (duplicate) throw new Error(`The portfolio manifest lists "${duplicate}" twice.`)
+  return entries
+}
+
+/** The catalog entry for an estimate id, or failing that the portfolio manifest's. */
+export async function resolveEstimateFile(id: string): Promise<EstimateFile | undefined> {
+  const file = findEstimateFile(id)
+  if (file) return file
+  const res = await fetch(PORTFOLIO_MANIFEST_PATH)
+  if (!res.ok) return undefined
+  return parsePortfolioManifest(await res.json()).find(e => e.id === id)
+}
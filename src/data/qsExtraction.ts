@@ -0,0 +1,83 @@
+// Per-sheet vision results (qs-extraction.json): { discipline: page[] }.
+// Each page has a page_type and whatever the model found on it. Plans carry
+// rooms, tags, fixtures and dimensions; schedules carry tables of columns
+// and rows. The model also invents keys (details, schedules, grid_lines…),
+// so anything not read into a named field is kept in `fields`.
+
+export interface SheetTable {
+  name?: string
+  type?: string
+  columns: string[]
+  rows: Record<string, unknown>[]
+}
+
+export interface SheetRoom {
+  number: string
+  name: string
+  width: string
+  length: string
+  /** As extracted: a number, numeric text, a word like "varies", or null */
+  area_sf: unknown
+}
+
+export interface SheetPage {
+  discipline: string
+  page: number
+  pageType: string
+  floor?: string
+  description?: string
+  notes: string[]
+  rooms: SheetRoom[]
+  tables: SheetTable[]
+  /** Every other key the model returned, in file order */
+  fields: Record<string, unknown>
+  model?: string
+  extractionTime?: number
+}
+
+type RawObject = Record<string, unknown>
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v)
+const text = (v: unknown) => typeof v === 'string' ? v : typeof v === 'number' ? String(v) : ''
+
+const NAMED_KEYS = ['page_type', 'floor', 'plan_description', 'notes', 'rooms', 'tables', '_page', '_discipline', '_model', '_extraction_time']
+
+function parseTable(raw: unknown): SheetTable | null {
+  if (!isObject(raw)) return null
+  const rows = (Array.isArray(raw.rows) ? raw.rows : []).filter(isObject)
+  const columns = Array.isArray(raw.columns) ? raw.columns.map(text) : []
+  return {
+    name: typeof raw.table_name === 'string' ? raw.table_name : undefined,
+    type: typeof raw.table_type === 'string' ? raw.table_type : undefined,
+    // Rows sometimes carry keys the column list doesn't (e.g. a lone "note")
+    columns: [...new Set([...columns, ...rows.flatMap(r => Object.keys(r))])],
+    rows,
+  }
+}
+
+function parsePage(raw: RawObject, discipline: string, index: number): SheetPage {
+  const fields = Object.fromEntries(Object.entries(raw).filter(([key]) => !NAMED_KEYS.includes(key)))
+  return {
+    discipline,
+    page: typeof raw._page === 'number' ? raw._page : index,
+    pageType: text(raw.page_type).replace(/_/g, ' ').trim().toUpperCase() || 'UNKNOWN',
+    floor: typeof raw.floor === 'string' && raw.floor ? raw.floor : undefined,
+    description: typeof raw.plan_description === 'string' && raw.plan_description ? raw.plan_description : undefined,
+    notes: Array.isArray(raw.notes) ? raw.notes.map(text).filter(Boolean) : [],
+    rooms: (Array.isArray(raw.rooms) ? raw.rooms : []).filter(isObject).map(r => ({
+      number: text(r.number), name: text(r.name), width: text(r.width), length: text(r.length), area_sf: r.area_sf ?? null,
+    })),
+    tables: (Array.isArray(raw.tables) ? raw.tables : []).map(parseTable).filter(t => t !== null),
+    fields,
+    model: typeof raw._model === 'string' ? raw._model : undefined,
+    extractionTime: typeof raw._extraction_time === 'number' ? raw._extraction_time : undefined,
+  }
+}
+
+export function parseQsExtraction(raw: unknown): SheetPage[] {
+  if (!isObject(raw)) throw new Error('The sheet extraction file is not a JSON object.')
+  const pages = Object.entries(raw).flatMap(([discipline, list]) =>
+    Array.isArray(list) ? list.filter(isObject).map((p, i) => parsePage(p, discipline, i)) : [])
+  if (pages.length === 0) throw new Error('The sheet extraction file has no pages.')
+  return pages
+}
@@ -0,0 +1,45 @@
+// Estimator reviews live in IndexedDB rather than localStorage: a review of
+// a large estimate carries a state and comment thread per line, which soon
+// outgrows the few MB localStorage allows. One record per report, keyed by
+// report_number.
+
+const DB_NAME = 'buildcode'
+const DB_VERSION = 1
+const REVIEWS = 'reviews'
+
+let opened: Promise<IDBDatabase> | null = null
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'))
+})
+
+function openDb(): Promise<IDBDatabase> {
+  if (!opened) {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('This browser has no IndexedDB, so reviews cannot be saved.'))
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(REVIEWS)) request.result.createObjectStore(REVIEWS, { keyPath: 'report_number' })
+    }
+    opened = settle(request).catch(err => {
+      opened = null
+      throw err
+    })
+  }
+  return opened
+}
+
+const store = async (mode: IDBTransactionMode) => (await openDb()).transaction(REVIEWS, mode).objectStore(REVIEWS)
+
+/** The stored review for a report, unparsed; undefined when there is none. */
+export async function loadReview(reportNumber: string): Promise<unknown> {
+  return settle((await store('readonly')).get(reportNumber))
+}
+
+export async function saveReview(review: { report_number: string }): Promise<void> {
+  await settle((await store('readwrite')).put(review))
+}
+
+export async function deleteReview(reportNumber: string): Promise<void> {
+  await settle((await store('readwrite')).delete(reportNumber))
+}
@@ -0,0 +1,22 @@
+// Thin JSON wrapper over localStorage for user settings that should survive a
+// reload (crosswalks, templates, scenarios). Corrupt or missing entries read
+// back as the fallback so a bad value never blocks the dashboard.
+
+const PREFIX = 'buildcode.'
+
+export function readStored<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key)
+    return raw === null ? fallback : JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function writeStored<T>(key: string, value: T) {
+  localStorage.setItem(PREFIX + key, JSON.stringify(value))
+}
+
+export function removeStored(key: string) {
+  localStorage.removeItem(PREFIX + key)
+}
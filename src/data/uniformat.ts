@@ -0,0 +1,112 @@
+import type { EstimateLine } from '../types'
+
+// ============================================================
+// UNIFORMAT II (CIQS elemental) reference data and the CSI crosswalk.
+// Element codes follow the Canadian elemental cost analysis format used by
+// Hanscomb (A11 Foundations … Z21 Design Allowance). Pipeline files write
+// them with a suffix ("A11_foundations", "C21_elec_dist"); only the code
+// before the underscore is significant.
+// ============================================================
+
+export const ELEMENT_GROUPS: Record<string, string> = {
+  A1: 'Substructure',
+  A2: 'Structure',
+  A3: 'Exterior Enclosure',
+  B1: 'Partitions & Doors',
+  B2: 'Finishes',
+  B3: 'Fittings & Equipment',
+  C1: 'Mechanical',
+  C2: 'Electrical',
+  D1: 'Site Work',
+  Z1: 'General Requirements & Fee',
+  Z2: 'Allowances',
+}
+
+export const ELEMENT_NAMES: Record<string, string> = {
+  A11: 'Foundations', A12: 'Basement Excavation', A13: 'Special Conditions',
+  A21: 'Lowest Floor Construction', A22: 'Upper Floor Construction', A23: 'Roof Construction',
+  A31: 'Walls Below Grade', A32: 'Walls Above Grade', A33: 'Windows & Entrances',
+  A34: 'Roof Covering', A35: 'Projections',
+  B11: 'Partitions', B12: 'Doors',
+  B21: 'Floor Finishes', B22: 'Ceiling Finishes', B23: 'Wall Finishes',
+  B31: 'Fittings & Fixtures', B32: 'Equipment', B33: 'Conveying Systems',
+  C11: 'Plumbing & Drainage', C12: 'Fire Protection', C13: 'HVAC', C14: 'Controls',
+  C21: 'Service & Distribution', C22: 'Lighting, Devices & Heating', C23: 'Systems & Ancillaries',
+  D11: 'Site Development', D12: 'Mechanical Site Services', D13: 'Electrical Site Services',
+  Z11: 'General Requirements', Z12: 'Fee', Z21: 'Design Allowance', Z22: 'Escalation Allowance',
+}
+
+/** "A11_foundations" → "A11". Bare group prefixes ("Z_travel") fall to the group's first element. */
+export function elementCode(raw: string): string {
+  const code = raw.split('_')[0].toUpperCase()
+  if (ELEMENT_NAMES[code]) return code
+  const first = Object.keys(ELEMENT_NAMES).find(c => c.startsWith(code))
+  return first ?? code
+}
+
+export const elementGroup = (code: string) => code.slice(0, 2)
+
+export const elementLabel = (code: string) => ELEMENT_NAMES[code] || code
+
+// UNIFORMAT element → closest CSI division, for elemental estimates whose
+// lines carry no csi_division.
+const ELEMENT_DIVISIONS: Record<string, string> = {
+  A11: '03', A12: '31', A13: '31', A21: '03', A22: '03', A23: '05',
+  A31: '03', A32: '07', A33: '08', A34: '07', A35: '07',
+  B11: '09', B12: '08', B21: '09', B22: '09', B23: '09', B31: '10', B32: '11', B33: '14',
+  C11: '22', C12: '21', C13: '23', C14: '25', C21: '26', C22: '26', C23: '27',
+  D11: '32', D12: '33', D13: '33', Z11: '01', Z12: '01', Z21: '01', Z22: '01',
+}
+
+export const elementDivision = (element: string) => ELEMENT_DIVISIONS[elementCode(element)] ?? ''
+
+// CSI division → UNIFORMAT element. Each division has a default element and
+// description rules for the lines that commonly belong elsewhere. Rules are
+// tried in order; keep the most specific pattern first.
+const DIVISION_ELEMENTS: Record<string, { element: string; rules?: [RegExp, string][] }> = {
+  '01': { element: 'Z11', rules: [[/overhead and profit|\bfee\b/i, 'Z12'], [/contingency|design allowance/i, 'Z21'], [/escalation/i, 'Z22']] },
+  '02': { element: 'A13' },
+  '03': {
+    element: 'A22',
+    rules: [[/footing|foundation|pile|pier|grade beam|caisson/i, 'A11'], [/slab on grade|slab-on-grade/i, 'A21'], [/roof/i, 'A23']],
+  },
+  '04': { element: 'A32', rules: [[/partition|interior/i, 'B11']] },
+  '05': { element: 'A22', rules: [[/roof|joist|deck/i, 'A23'], [/stair|railing|miscellaneous/i, 'A35']] },
+  '06': { element: 'B31', rules: [[/sheathing|framing/i, 'A32'], [/truss/i, 'A23']] },
+  '07': {
+    element: 'A34',
+    rules: [
+      [/below grade|waterproofing|damp/i, 'A31'],
+      [/wall|air barrier|vapour|eifs|cladding|siding|soffit|fascia/i, 'A32'],
+      [/firestop|smoke seal/i, 'B11'],
+    ],
+  },
+  '08': { element: 'B12', rules: [[/window|entrance|storefront|curtain ?wall|glaz/i, 'A33']] },
+  '09': {
+    element: 'B23',
+    rules: [[/partition|gwb|stud/i, 'B11'], [/ceiling/i, 'B22'], [/floor|vinyl|carpet|tile/i, 'B21']],
+  },
+  '10': { element: 'B31' },
+  '11': { element: 'B32' },
+  '12': { element: 'B31' },
+  '14': { element: 'B33' },
+  '21': { element: 'C12' },
+  '22': { element: 'C11' },
+  '23': { element: 'C13' },
+  '25': { element: 'C14' },
+  '26': { element: 'C21', rules: [[/light|luminaire|fixture|receptacle|device|switch/i, 'C22']] },
+  '27': { element: 'C23' },
+  '28': { element: 'C23' },
+  '31': { element: 'D11', rules: [[/footing|foundation/i, 'A11'], [/rock/i, 'A13']] },
+  '32': { element: 'D11' },
+  '33': { element: 'D12' },
+}
+
+/** The line's UNIFORMAT element: its own `element` if it has one, else via the CSI crosswalk. */
+export function elementForLine(line: EstimateLine): string {
+  if (line.element) return elementCode(line.element)
+  const mapping = DIVISION_ELEMENTS[line.csi_division]
+  if (!mapping) return ''
+  const rule = mapping.rules?.find(([pattern]) => pattern.test(line.description))
+  return rule ? rule[1] : mapping.element
+}
@@ -0,0 +1,76 @@
+// ============================================================
+// UNITS OF MEASURE
+// Pipeline runs spell the same unit many ways ("Ea.", "EA", "S.F.", "SQ. FT",
+// "LBS"). The loader maps every spelling onto one canonical imperial code,
+// and the metric table converts those codes for metric reporting.
+// ============================================================
+
+/** Canonical unit codes the dashboard knows, with a readable name. */
+export const UNIT_NAMES: Record<string, string> = {
+  EA: 'Each',
+  LS: 'Lump sum',
+  SF: 'Square feet',
+  SY: 'Square yards',
+  SFCA: 'Square feet of contact area',
+  LF: 'Linear feet',
+  CF: 'Cubic feet',
+  CY: 'Cubic yards',
+  LB: 'Pounds',
+  TON: 'Short tons',
+  GAL: 'US gallons',
+  FLT: 'Flights',
+  LVS: 'Door leaves',
+  PAIR: 'Pairs',
+  SET: 'Sets',
+  HR: 'Hours',
+  DAY: 'Days',
+  WK: 'Weeks',
+  MO: 'Months',
+  ALLOW: 'Allowance',
+}
+
+const ALIASES: Record<string, string> = {
+  EACH: 'EA', UNIT: 'EA', UNITS: 'EA', NO: 'EA',
+  'LUMP SUM': 'LS', LSUM: 'LS', LOT: 'LS',
+  'SQ FT': 'SF', SQFT: 'SF', FT2: 'SF', 'FT²': 'SF',
+  'SQ YD': 'SY', SQYD: 'SY',
+  'LIN FT': 'LF', LINFT: 'LF', FT: 'LF',
+  'CU FT': 'CF', 'CU YD': 'CY', CUYD: 'CY',
+  LBS: 'LB', TONS: 'TON', TN: 'TON',
+  GALS: 'GAL', GALLON: 'GAL', GALLONS: 'GAL',
+  FLIGHT: 'FLT', FLIGHTS: 'FLT', FLTS: 'FLT',
+  LEAF: 'LVS', LEAVES: 'LVS',
+  PR: 'PAIR', PAIRS: 'PAIR', SETS: 'SET',
+  HRS: 'HR', HOUR: 'HR', HOURS: 'HR', DAYS: 'DAY', WEEK: 'WK', WEEKS: 'WK', MONTH: 'MO', MONTHS: 'MO',
+  ALLOWANCE: 'ALLOW',
+}
+
+/** "S.F." → "SF", "Ea." → "EA", "SQ. FT" → "SF". Unknown spellings come back upper-cased without dots. */
+export function canonicalUnit(raw: string): string {
+  const cleaned = raw.toUpperCase().replace(/\./g, '').replace(/\s+/g, ' ').trim()
+  return ALIASES[cleaned] ?? cleaned
+}
+
+export const isKnownUnit = (unit: string) => unit in UNIT_NAMES
+
+export type UnitSystem = 'imperial' | 'metric'
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  imperial: 'Imperial',
+  metric: 'Metric',
+}
+
+/** Metric unit for each convertible canonical unit; `factor` is metric quantity per imperial unit. */
+export const METRIC_UNITS: Record<string, { unit: string; factor: number }> = {
+  SF: { unit: 'm²', factor: 0.09290304 },
+  SY: { unit: 'm²', factor: 0.83612736 },
+  SFCA: { unit: 'm² CA', factor: 0.09290304 },
+  LF: { unit: 'm', factor: 0.3048 },
+  CF: { unit: 'm³', factor: 0.028316846592 },
+  CY: { unit: 'm³', factor: 0.764554857984 },
+  LB: { unit: 'kg', factor: 0.45359237 },
+  TON: { unit: 't', factor: 0.90718474 },
+  GAL: { unit: 'L', factor: 3.785411784 },
+}
+
+export const SF_PER_M2 = 1 / METRIC_UNITS.SF.factor
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import { loadEstimate } from './loadEstimate'
+import { resolveEstimateFile } from './portfolio'
+import type { ValidationResult } from './validate'
+
+export type EstimateState =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; result: ValidationResult }
+
+type Settled = { id: string; result: ValidationResult; error?: undefined } | { id: string; result?: undefined; error: string }
+
+/**
+ * Loads, adapts and validates a catalog estimate, or one listed only in
+ * the portfolio manifest; re-fetches when `id` or `revision` changes. A
+ * revision bump keeps showing the previous result until the reload
+ * settles, so saving a setting the loader reads doesn't flash the loading
+ * screen.
+ */
+export function useEstimate(id: string, revision = 0): EstimateState {
+  const [settled, setSettled] = useState<Settled | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const settle = (s: Settled) => { if (!cancelled) setSettled(s) }
+    resolveEstimateFile(id)
+      .then(file => {
+        if (!file) throw new Error(`Unknown estimate "${id}".`)
+        return loadEstimate(file)
+      })
+      .then(result => settle({ id, result }))
+      .catch((err: Error) => settle({ id, error: err.message }))
+    return () => { cancelled = true }
+  }, [id, revision])
+
+  if (settled?.id !== id) return { status: 'loading' }
+  if (settled.error !== undefined) return { status: 'error', error: settled.error }
+  return { status: 'ready', result: settled.result }
+}
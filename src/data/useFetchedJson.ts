@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react'
+
+export type FetchState<T> =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; value: T }
+
+type Settled<T> = { path: string; value: T; error?: undefined } | { path: string; value?: undefined; error: string }
+
+/**
+ * Fetches a reference file from public/data and runs it through `parse`,
+ * which should throw with a readable message when the shape is wrong.
+ * `parse` must be a stable (module-level) function.
+ */
+export function useFetchedJson<T>(path: string, parse: (raw: unknown) => T): FetchState<T> {
+  const [settled, setSettled] = useState<Settled<T> | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const settle = (s: Settled<T>) => { if (!cancelled) setSettled(s) }
+    fetch(path)
+      .then(res => {
+        if (!res.ok) throw new Error(`Could not load ${path} (HTTP ${res.status}).`)
+        return res.json()
+      })
+      .then(raw => settle({ path, value: parse(raw) }))
+      .catch((err: Error) => settle({ path, error: err.message }))
+    return () => { cancelled = true }
+  }, [path, parse])
+
+  if (settled?.path !== path) return { status: 'loading' }
+  if (settled.error !== undefined) return { status: 'error', error: settled.error }
+  return { status: 'ready', value: settled.value }
+}
@@ -0,0 +1,15 @@
+import { useSearchParams } from 'react-router'
+import { filterFromParams, writeFilterParams, type LineFilter } from '../lib/lineFilter'
+
+/** The shared line filter, kept in the page URL's query string. */
+export function useLineFilter() {
+  const [params, setParams] = useSearchParams()
+
+  const update = (next: LineFilter) => setParams(prev => {
+    const updated = new URLSearchParams(prev)
+    writeFilterParams(updated, next)
+    return updated
+  }, { replace: true })
+
+  return [filterFromParams(params), update] as const
+}
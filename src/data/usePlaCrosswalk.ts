@@ -0,0 +1,24 @@
+import { useState } from 'react'
+import type { Crosswalk } from '../lib/reconcile'
+import { readStored, removeStored, writeStored } from './storage'
+
+const CROSSWALK_KEY = 'pla-crosswalk'
+
+/**
+ * The PLA crosswalk as edited on the Reconciliation tab; null while the
+ * default applies. Held above the tabs so the section PLA figures follow
+ * edits straight away.
+ */
+export function usePlaCrosswalk() {
+  const [saved, setSaved] = useState(() => readStored<Crosswalk | null>(CROSSWALK_KEY, null))
+
+  return {
+    saved,
+    /** Saves a crosswalk, or goes back to the default with null */
+    save: (next: Crosswalk | null) => {
+      if (next) writeStored(CROSSWALK_KEY, next)
+      else removeStored(CROSSWALK_KEY)
+      setSaved(next)
+    },
+  }
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import type { ProjectData } from '../types'
+import { loadEstimate } from './loadEstimate'
+import type { PortfolioEntry } from './portfolio'
+
+export type PortfolioLoad =
+  | { entry: PortfolioEntry; status: 'loading' }
+  | { entry: PortfolioEntry; status: 'error'; error: string }
+  | { entry: PortfolioEntry; status: 'ready'; data: ProjectData }
+
+type Settled = { data: ProjectData; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Loads every estimate in the manifest side by side. Each settles on its
+ * own, so one bad file shows as an error row instead of blocking the rest.
+ * `entries` must keep its identity between renders (e.g. come from useFetchedJson).
+ */
+export function usePortfolio(entries: PortfolioEntry[] | null): PortfolioLoad[] {
+  const [settled, setSettled] = useState<{ entries: PortfolioEntry[]; results: Record<string, Settled> } | null>(null)
+
+  useEffect(() => {
+    if (!entries) return
+    let cancelled = false
+    const settle = (id: string, s: Settled) => {
+      if (cancelled) return
+      setSettled(prev => ({ entries, results: { ...(prev?.entries === entries ? prev.results : {}), [id]: s } }))
+    }
+    for (const entry of entries) {
+      loadEstimate(entry)
+        .then(result => settle(entry.id, { data: result.data }))
+        .catch((err: Error) => settle(entry.id, { error: err.message }))
+    }
+    return () => { cancelled = true }
+  }, [entries])
+
+  if (!entries) return []
+  const results = settled?.entries === entries ? settled.results : {}
+  return entries.map((entry): PortfolioLoad => {
+    const s = results[entry.id]
+    if (!s) return { entry, status: 'loading' }
+    if (s.error !== undefined) return { entry, status: 'error', error: s.error }
+    return { entry, status: 'ready', data: s.data }
+  })
+}
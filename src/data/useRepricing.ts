@@ -0,0 +1,40 @@
+import { useState } from 'react'
+import {
+  DEFAULT_ESCALATION_CURVE, DEFAULT_LOCATION_INDICES, NO_REPRICING,
+  type EscalationRate, type LocationIndex, type RepricingTarget,
+} from '../lib/repricing'
+import { readStored, writeStored } from './storage'
+
+const INDICES_KEY = 'location-indices'
+const CURVE_KEY = 'escalation-curve'
+const targetKey = (estimateId: string) => `repricing.${estimateId}`
+
+/**
+ * Re-pricing settings: the location index table and escalation curve are
+ * shared by every estimate, the chosen location and tender date are kept
+ * per estimate.
+ */
+export function useRepricing(estimateId: string) {
+  const [indices, setIndices] = useState(() => readStored<LocationIndex[]>(INDICES_KEY, DEFAULT_LOCATION_INDICES))
+  const [curve, setCurve] = useState(() => readStored<EscalationRate[]>(CURVE_KEY, DEFAULT_ESCALATION_CURVE))
+  const [stored, setStored] = useState(() => ({ id: estimateId, target: readStored(targetKey(estimateId), NO_REPRICING) }))
+  const target = stored.id === estimateId ? stored.target : readStored(targetKey(estimateId), NO_REPRICING)
+
+  return {
+    indices,
+    curve,
+    target,
+    saveIndices: (next: LocationIndex[]) => {
+      writeStored(INDICES_KEY, next)
+      setIndices(next)
+    },
+    saveCurve: (next: EscalationRate[]) => {
+      writeStored(CURVE_KEY, next)
+      setCurve(next)
+    },
+    saveTarget: (next: RepricingTarget) => {
+      writeStored(targetKey(estimateId), next)
+      setStored({ id: estimateId, target: next })
+    },
+  }
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react'
+import { parseReviewFile, type ReviewFile } from '../lib/review'
+import { deleteReview, loadReview, saveReview } from './reviewStore'
+
+type Settled = { key: string; review: ReviewFile | null; error?: string }
+
+/**
+ * The stored review of one report. `review` is null until a review is
+ * saved; saving updates the state at once and writes through to IndexedDB,
+ * reporting a failed write in `error`.
+ */
+export function useReview(reportNumber: string | null) {
+  const [settled, setSettled] = useState<Settled | null>(null)
+
+  useEffect(() => {
+    if (reportNumber === null) return
+    let cancelled = false
+    const settle = (s: Settled) => { if (!cancelled) setSettled(s) }
+    loadReview(reportNumber)
+      .then(raw => settle({ key: reportNumber, review: parseReviewFile(raw) }))
+      .catch((err: Error) => settle({ key: reportNumber, review: null, error: `Could not read saved reviews: ${err.message}` }))
+    return () => { cancelled = true }
+  }, [reportNumber])
+
+  const current = settled?.key === reportNumber ? settled : null
+
+  return {
+    loading: current === null,
+    review: current?.review ?? null,
+    error: current?.error,
+    /** null deletes the stored review. */
+    save: (next: ReviewFile | null) => {
+      if (reportNumber === null) return
+      const key = reportNumber
+      setSettled({ key, review: next })
+      const write = next ? saveReview(next) : deleteReview(key)
+      write.catch((err: Error) =>
+        setSettled(prev => prev?.key === key ? { ...prev, error: `Could not save the review: ${err.message}` } : prev))
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import type { SimulationRequest, SimulationResult } from '../lib/risk'
+
+export type SimulationState =
+  | { status: 'running'; previous?: SimulationResult }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; result: SimulationResult }
+
+type Settled = { key: string; result: SimulationResult; error?: undefined } | { key: string; result?: undefined; error: string }
+
+/**
+ * Runs a Monte Carlo simulation in a web worker. The request's JSON is both
+ * the message and the key: a new worker starts whenever it changes, and the
+ * previous one is terminated, so a stale run never overwrites a newer one.
+ * While a run is in flight the last result stays available as `previous`.
+ */
+export function useRiskSimulation(request: SimulationRequest): SimulationState {
+  const key = JSON.stringify(request)
+  const [settled, setSettled] = useState<Settled | null>(null)
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../lib/risk.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (e: MessageEvent<SimulationResult>) => setSettled({ key, result: e.data })
+    worker.onerror = e => setSettled({ key, error: e.message || 'The simulation worker failed.' })
+    worker.postMessage(key)
+    return () => worker.terminate()
+  }, [key])
+
+  if (settled?.key !== key) return { status: 'running', previous: settled?.result }
+  if (settled.error !== undefined) return { status: 'error', error: settled.error }
+  return { status: 'ready', result: settled.result }
+}
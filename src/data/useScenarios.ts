@@ -0,0 +1,30 @@
+import { useState } from 'react'
+import type { Scenario } from '../lib/scenarios'
+import { readStored, writeStored } from './storage'
+
+interface ScenarioStore {
+  scenarios: Scenario[]
+  activeId: string | null
+}
+
+const EMPTY: ScenarioStore = { scenarios: [], activeId: null }
+
+const storageKey = (estimateId: string) => `scenarios.${estimateId}`
+
+/** The saved what-if scenarios for one estimate and which of them is applied. */
+export function useScenarios(estimateId: string) {
+  const [store, setStore] = useState(() => ({ id: estimateId, ...readStored(storageKey(estimateId), EMPTY) }))
+  const current = store.id === estimateId ? store : readStored(storageKey(estimateId), EMPTY)
+
+  const update = (next: ScenarioStore) => {
+    writeStored(storageKey(estimateId), next)
+    setStore({ id: estimateId, ...next })
+  }
+
+  return {
+    scenarios: current.scenarios,
+    active: current.scenarios.find(s => s.id === current.activeId),
+    select: (activeId: string | null) => update({ scenarios: current.scenarios, activeId }),
+    save: (scenarios: Scenario[], activeId = current.activeId) => update({ scenarios, activeId }),
+  }
+}
@@ -0,0 +1,272 @@
+import type { Benchmark, EstimateLine, Markup, ProjectData } from '../types'
+import { confidenceLevel } from './adapters'
+import { canonicalUnit, isKnownUnit } from './units'
+import { newMarkupId } from '../lib/markups'
+
+// ============================================================
+// RUNTIME VALIDATION
+// ProjectData is only a compile-time promise; pipeline runs drift. The
+// validator walks an adapted estimate, coerces the variants we know about
+// and records every problem with its path instead of throwing, so a broken
+// file still opens and the Data issues panel shows where it is broken.
+// ============================================================
+
+export interface DataIssue {
+  path: string
+  message: string
+  /** `error`: value was missing or unusable and a fallback was substituted. `warning`: a known variant was coerced. */
+  severity: 'error' | 'warning'
+}
+
+export interface ValidationResult {
+  data: ProjectData
+  issues: DataIssue[]
+}
+
+type RawObject = Record<string, unknown>
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+const CONFIDENCE_LEVELS = ['high', 'medium', 'low']
+
+class Checker {
+  issues: DataIssue[] = []
+
+  error(path: string, message: string) {
+    this.issues.push({ path, message, severity: 'error' })
+  }
+
+  warn(path: string, message: string) {
+    this.issues.push({ path, message, severity: 'warning' })
+  }
+
+  object(v: unknown, path: string): RawObject {
+    if (isObject(v)) return v
+    this.error(path, v === undefined ? 'missing object' : `expected an object, got ${describe(v)}`)
+    return {}
+  }
+
+  array(v: unknown, path: string): unknown[] {
+    if (Array.isArray(v)) return v
+    this.error(path, v === undefined ? 'missing list' : `expected a list, got ${describe(v)}`)
+    return []
+  }
+
+  number(v: unknown, path: string, fallback = 0): number {
+    if (typeof v === 'number' && Number.isFinite(v)) return v
+    if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v.replace(/[$,]/g, '')))) {
+      this.warn(path, `numeric text "${v}" read as a number`)
+      return Number(v.replace(/[$,]/g, ''))
+    }
+    this.error(path, v === undefined ? `missing number, using ${fallback}` : `expected a number, got ${describe(v)}; using ${fallback}`)
+    return fallback
+  }
+
+  string(v: unknown, path: string, fallback = ''): string {
+    if (typeof v === 'string') return v
+    if (typeof v === 'number') return String(v)
+    this.error(path, v === undefined ? 'missing text' : `expected text, got ${describe(v)}`)
+    return fallback
+  }
+
+  optionalNumber(v: unknown, path: string): number | undefined {
+    return v === undefined ? undefined : this.number(v, path)
+  }
+
+  optionalString(v: unknown, path: string): string | undefined {
+    return v === undefined ? undefined : this.string(v, path)
+  }
+}
+
+function describe(v: unknown): string {
+  if (v === null) return 'null'
+  if (Array.isArray(v)) return 'a list'
+  if (typeof v === 'string') return `"${v.length > 40 ? v.slice(0, 40) + '…' : v}"`
+  return typeof v
+}
+
+function checkProject(c: Checker, raw: unknown): ProjectData['project'] {
+  const p = c.object(raw, 'project')
+  const project: ProjectData['project'] = {
+    name: c.string(p.name, 'project.name', 'Untitled project'),
+    client: c.string(p.client, 'project.client'),
+    location: c.string(p.location, 'project.location'),
+    building_type: c.string(p.building_type, 'project.building_type'),
+    construction_type: c.string(p.construction_type, 'project.construction_type'),
+    stories: c.number(p.stories, 'project.stories'),
+    gross_floor_area_sf: c.number(p.gross_floor_area_sf, 'project.gross_floor_area_sf'),
+    units: c.number(p.units, 'project.units'),
+    unit_type: c.string(p.unit_type, 'project.unit_type', 'Units'),
+    report_date: c.string(p.report_date, 'project.report_date'),
+    report_number: c.string(p.report_number, 'project.report_number'),
+    prepared_by: c.string(p.prepared_by, 'project.prepared_by'),
+    class: c.string(p.class, 'project.class'),
+    confidence_range: c.string(p.confidence_range, 'project.confidence_range'),
+    area_source: c.optionalString(p.area_source, 'project.area_source'),
+    mezzanine: typeof p.mezzanine === 'boolean' ? p.mezzanine : undefined,
+    level_1_sf: c.optionalNumber(p.level_1_sf, 'project.level_1_sf'),
+    mezzanine_sf: c.optionalNumber(p.mezzanine_sf, 'project.mezzanine_sf'),
+    location_factor: c.optionalNumber(p.location_factor, 'project.location_factor'),
+  }
+  if (project.gross_floor_area_sf <= 0) {
+    c.warn('project.gross_floor_area_sf', 'no floor area recorded; per-SF figures show as $0')
+  }
+  return project
+}
+
+function checkSummary(c: Checker, raw: unknown): ProjectData['summary'] {
+  const s = c.object(raw, 'summary')
+  const pm = c.object(s.pricing_method, 'summary.pricing_method')
+  return {
+    total_cost: c.number(s.total_cost, 'summary.total_cost'),
+    cost_per_sf: c.number(s.cost_per_sf, 'summary.cost_per_sf'),
+    cost_per_unit: c.number(s.cost_per_unit, 'summary.cost_per_unit'),
+    line_count: c.number(s.line_count, 'summary.line_count'),
+    pricing_method: {
+      cost_db_pct: c.number(pm.cost_db_pct, 'summary.pricing_method.cost_db_pct'),
+      rate_library_fallback_pct: c.number(pm.rate_library_fallback_pct, 'summary.pricing_method.rate_library_fallback_pct'),
+      parametric_gap_fill_pct: c.number(pm.parametric_gap_fill_pct, 'summary.pricing_method.parametric_gap_fill_pct'),
+      match_rate: c.number(pm.match_rate, 'summary.pricing_method.match_rate'),
+    },
+  }
+}
+
+function checkLine(c: Checker, raw: unknown, path: string): EstimateLine {
+  const l = c.object(raw, path)
+  let confidence: string
+  if (typeof l.confidence === 'number') {
+    confidence = confidenceLevel(l.confidence)
+    c.warn(`${path}.confidence`, `numeric confidence ${l.confidence} bucketed as "${confidence}"`)
+  } else {
+    confidence = c.string(l.confidence, `${path}.confidence`, 'low').toLowerCase()
+    if (!CONFIDENCE_LEVELS.includes(confidence)) {
+      c.error(`${path}.confidence`, `unknown confidence "${confidence}"; treated as low`)
+      confidence = 'low'
+    }
+  }
+  return {
+    description: c.string(l.description, `${path}.description`, '(no description)'),
+    quantity: c.number(l.quantity, `${path}.quantity`),
+    unit: canonicalUnit(c.string(l.unit, `${path}.unit`)),
+    unit_cost: c.number(l.unit_cost, `${path}.unit_cost`),
+    total_cost: c.number(l.total_cost, `${path}.total_cost`),
+    csi_division: c.string(l.csi_division, `${path}.csi_division`),
+    source: c.string(l.source, `${path}.source`, 'unknown'),
+    confidence,
+    element: c.optionalString(l.element, `${path}.element`),
+    material_cost: c.optionalNumber(l.material_cost, `${path}.material_cost`),
+    labor_cost: c.optionalNumber(l.labor_cost, `${path}.labor_cost`),
+    equipment_cost: c.optionalNumber(l.equipment_cost, `${path}.equipment_cost`),
+    discipline: c.optionalString(l.discipline, `${path}.discipline`),
+    extraction_source: c.optionalString(l.extraction_source, `${path}.extraction_source`),
+    extraction_confidence: c.optionalNumber(l.extraction_confidence, `${path}.extraction_confidence`),
+    estimate_source: c.optionalString(l.estimate_source, `${path}.estimate_source`),
+    rsmeans_code: c.optionalString(l.rsmeans_code, `${path}.rsmeans_code`),
+    matched_description: c.optionalString(l.matched_description, `${path}.matched_description`),
+    db_item_id: c.optionalString(l.db_item_id, `${path}.db_item_id`),
+    db_match_score: c.optionalNumber(l.db_match_score, `${path}.db_match_score`),
+  }
+}
+
+function checkSections(c: Checker, raw: unknown, totalCost: number): ProjectData['sections'] {
+  const entries = c.array(raw, 'sections')
+  let coerced = 0
+  const sections = entries.map((entry, i) => {
+    const path = `sections[${i}]`
+    const s = c.object(entry, path)
+    // Engine reports write one section per division as {division, name, total, lines}
+    if (!('divisions' in s) && 'division' in s) {
+      coerced++
+      const engine = c.number(s.total, `${path}.total`)
+      return {
+        name: c.string(s.name, `${path}.name`, `Section ${i + 1}`),
+        divisions: [c.string(s.division, `${path}.division`)],
+        pla: 0,
+        engine,
+        pct: totalCost > 0 ? engine / totalCost * 100 : 0,
+      }
+    }
+    const divisions = c.array(s.divisions, `${path}.divisions`)
+      .map((d, j) => c.string(d, `${path}.divisions[${j}]`))
+    return {
+      name: c.string(s.name, `${path}.name`, `Section ${i + 1}`),
+      divisions,
+      pla: c.number(s.pla, `${path}.pla`),
+      engine: c.number(s.engine, `${path}.engine`),
+      pct: c.number(s.pct, `${path}.pct`),
+    }
+  })
+  if (coerced > 0) {
+    c.warn('sections', `${coerced} section(s) use the per-division shape {division, name, total, lines}; converted to {name, divisions, engine} with no PLA figure`)
+  }
+  return sections
+}
+
+function checkDivisionTotals(c: Checker, raw: unknown): Record<string, number> {
+  const totals = c.object(raw, 'division_totals')
+  return Object.fromEntries(
+    Object.entries(totals).map(([div, v]) => [div, c.number(v, `division_totals["${div}"]`)]),
+  )
+}
+
+function checkBenchmarks(c: Checker, raw: unknown): { benchmarks: Record<string, Benchmark>; plaActual?: number } {
+  if (raw === undefined) return { benchmarks: {} }
+  const b = c.object(raw, 'benchmarks')
+  const benchmarks: Record<string, Benchmark> = {}
+  let plaActual: number | undefined
+  for (const [key, value] of Object.entries(b)) {
+    const path = `benchmarks.${key}`
+    if (key === 'pla_actual') {
+      plaActual = c.number(value, path)
+      continue
+    }
+    const entry = c.object(value, path)
+    benchmarks[key] = {
+      total: c.number(entry.total, `${path}.total`),
+      sf: c.number(entry.sf, `${path}.sf`),
+      cost_per_sf: c.number(entry.cost_per_sf, `${path}.cost_per_sf`),
+      note: c.string(entry.note, `${path}.note`),
+    }
+  }
+  return { benchmarks, plaActual }
+}
+
+function checkMarkups(c: Checker, raw: unknown): Markup[] | undefined {
+  if (raw === undefined) return undefined
+  return c.array(raw, 'markups').map((entry, i) => {
+    const path = `markups[${i}]`
+    const m = c.object(entry, path)
+    const kind = m.kind === 'lump_sum' ? 'lump_sum' : 'percent'
+    if (m.kind !== kind) c.error(`${path}.kind`, `unknown markup kind ${describe(m.kind)}; treated as percent`)
+    const basis = m.basis === 'cumulative' ? 'cumulative' : 'direct'
+    if (m.basis !== undefined && m.basis !== basis) c.error(`${path}.basis`, `unknown markup basis ${describe(m.basis)}; applied on direct cost`)
+    return {
+      id: typeof m.id === 'string' ? m.id : newMarkupId(),
+      label: c.string(m.label, `${path}.label`, `Markup ${i + 1}`),
+      kind,
+      value: c.number(m.value, `${path}.value`),
+      basis,
+    }
+  })
+}
+
+/** Validates and coerces an adapted estimate. Never throws; problems are returned in `issues`. */
+export function validateProjectData(raw: unknown): ValidationResult {
+  const c = new Checker()
+  const root = c.object(raw, '$')
+  const project = checkProject(c, root.project)
+  const summary = checkSummary(c, root.summary)
+  const sections = checkSections(c, root.sections, summary.total_cost)
+  const division_totals = checkDivisionTotals(c, root.division_totals)
+  const lines = c.array(root.lines, 'lines').map((l, i) => checkLine(c, l, `lines[${i}]`))
+  const unknownUnits = [...new Set(lines.map(l => l.unit).filter(u => u && !isKnownUnit(u)))]
+  if (unknownUnits.length > 0) {
+    c.warn('lines[].unit', `unrecognised unit(s) ${unknownUnits.join(', ')} kept as written and not converted to metric`)
+  }
+  const { benchmarks, plaActual } = checkBenchmarks(c, root.benchmarks)
+  const markups = checkMarkups(c, root.markups)
+  return {
+    data: { project, summary, sections, division_totals, lines, benchmarks, pla_actual: plaActual, markups },
+    issues: c.issues,
+  }
+}
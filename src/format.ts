@@ -0,0 +1,5 @@
+export const fmt = (n: number) => new Intl.NumberFormat('en-CA', { style: 'currency', currency: 'CAD', maximumFractionDigits: 0 }).format(n)
+export const fmtK = (n: number) => n >= 1_000_000 ? `$${(n / 1_000_000).toFixed(1)}M` : `$${(n / 1_000).toFixed(0)}K`
+export const fmtPct = (n: number) => `${n.toFixed(1)}%`
+// Some pipeline runs don't record a floor area; show $0/SF rather than Infinity.
+export const perSf = (total: number, sf: number) => sf > 0 ? total / sf : 0
@@ -0,0 +1,47 @@
+import type { EstimateLine } from '../types'
+import type { Assembly, AssemblyGroup } from '../data/assemblies'
+
+// ============================================================
+// ASSEMBLY TAKEOFF
+// An estimator enters a quantity against any assembly in the Hanscomb
+// library and gets a priced sub-estimate at the library rate. The
+// sub-estimate becomes ordinary estimate lines (source cost_db_assembly)
+// that a what-if scenario can carry alongside the file's own lines.
+// ============================================================
+
+/** Entered quantities in stored (imperial) units, keyed by assemblyKey */
+export type Takeoff = Record<string, number>
+
+export const assemblyKey = (group: AssemblyGroup, assembly: Assembly) => `${group.key}/${assembly.code}`
+
+export interface TakeoffLine {
+  group: AssemblyGroup
+  assembly: Assembly
+  quantity: number
+  total: number
+}
+
+/** One priced row per assembly with a quantity, in library order. */
+export function priceTakeoff(groups: AssemblyGroup[], takeoff: Takeoff): TakeoffLine[] {
+  return groups.flatMap(group => group.assemblies.flatMap(assembly => {
+    const quantity = takeoff[assemblyKey(group, assembly)] ?? 0
+    return quantity > 0 ? [{ group, assembly, quantity, total: quantity * assembly.rate }] : []
+  }))
+}
+
+export function assemblyLine({ group, assembly, quantity, total }: TakeoffLine): EstimateLine {
+  // Flat rates ("concrete") have no code beyond their name
+  const named = assembly.description.toLowerCase() === assembly.code.replace(/_/g, ' ').toLowerCase()
+  return {
+    description: named ? assembly.description : `${assembly.code} — ${assembly.description}`,
+    quantity,
+    unit: assembly.unit,
+    unit_cost: assembly.rate,
+    total_cost: total,
+    csi_division: group.division,
+    source: 'cost_db_assembly',
+    // Priced rates, but from another project's estimate rather than this one's drawings
+    confidence: 'medium',
+    element: group.element,
+  }
+}
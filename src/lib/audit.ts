@@ -0,0 +1,175 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { fmt } from '../format'
+
+// ============================================================
+// ARITHMETIC AUDIT
+// Checks that an estimate's numbers agree with each other: every line's
+// extension and cost split, and every recorded total, count, percentage
+// and rate against what its lines add up to. Each check passes, fails with
+// the offending lines or totals, or is skipped when the file records
+// nothing to check. Runs on the file as loaded, before re-pricing or
+// scenarios touch it.
+// ============================================================
+
+export type AuditCheckId =
+  | 'extension' | 'cost_split' | 'line_count' | 'summary_total'
+  | 'division_totals' | 'section_totals' | 'pricing_method' | 'cost_per_sf' | 'cost_per_unit'
+
+export type AuditStatus = 'pass' | 'fail' | 'skipped'
+
+export interface AuditFinding {
+  message: string
+  /** Index of the offending line in the file, for line-level findings */
+  line?: number
+}
+
+export interface AuditCheck {
+  id: AuditCheckId
+  label: string
+  status: AuditStatus
+  /** One-sentence result */
+  detail: string
+  findings: AuditFinding[]
+}
+
+export interface AuditReport {
+  checks: AuditCheck[]
+  /** Findings per line index, for badges in the schedules */
+  lineFindings: Map<number, AuditFinding[]>
+}
+
+/** Within $1 or 0.1%, whichever is looser: pipeline rounding isn't an error. */
+const agrees = (a: number, b: number, absolute = 1) => Math.abs(a - b) <= Math.max(absolute, Math.abs(b) * 0.001)
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+const sumOf = (lines: EstimateLine[]) => lines.reduce((a, l) => a + l.total_cost, 0)
+const plural = (n: number, noun: string) => `${n.toLocaleString()} ${noun}${n === 1 ? '' : 's'}`
+
+function check(id: AuditCheckId, label: string, findings: AuditFinding[], passed: string, failed: string): AuditCheck {
+  return { id, label, status: findings.length === 0 ? 'pass' : 'fail', detail: findings.length === 0 ? passed : failed, findings }
+}
+
+const skipped = (id: AuditCheckId, label: string, detail: string): AuditCheck => ({ id, label, status: 'skipped', detail, findings: [] })
+
+function extension(data: ProjectData): AuditCheck {
+  const findings: AuditFinding[] = []
+  let byLocationFactor = 0
+  const factor = data.project.location_factor
+  data.lines.forEach((line, i) => {
+    const extended = line.quantity * line.unit_cost
+    if (agrees(line.total_cost, extended)) return
+    const ratio = extended !== 0 ? line.total_cost / extended : 0
+    if (factor !== undefined && Math.abs(ratio - factor) < 0.005) byLocationFactor++
+    findings.push({
+      line: i,
+      message: `${line.quantity.toLocaleString()} × ${money(line.unit_cost)} = ${money(extended)}, but the total is ${money(line.total_cost)} (×${ratio.toFixed(3)})`,
+    })
+  })
+  const explained = byLocationFactor > 0 ? `; ${byLocationFactor.toLocaleString()} of them differ by exactly the file's location factor ×${factor}` : ''
+  return check('extension', 'Line extensions', findings,
+    `All ${plural(data.lines.length, 'line')} total quantity × unit rate.`,
+    `${plural(findings.length, 'line')} don't total quantity × unit rate${explained}.`)
+}
+
+function costSplit(data: ProjectData): AuditCheck {
+  const split = data.lines
+    .map((line, i) => ({ line, i }))
+    .filter(({ line }) => line.material_cost !== undefined && line.labor_cost !== undefined && line.equipment_cost !== undefined)
+  if (split.length === 0) return skipped('cost_split', 'Material + labour + equipment', 'The file records no material, labour and equipment split.')
+  const findings: AuditFinding[] = []
+  for (const { line, i } of split) {
+    const parts = (line.material_cost ?? 0) + (line.labor_cost ?? 0) + (line.equipment_cost ?? 0)
+    // Pipelines write the split per unit on some lines and extended on others; either agreeing is consistent
+    if (agrees(parts, line.unit_cost, 0.02) || agrees(parts, line.total_cost)) continue
+    findings.push({ line: i, message: `Material + labour + equipment = ${money(parts)}, matching neither the unit rate ${money(line.unit_cost)} nor the total ${money(line.total_cost)}` })
+  }
+  return check('cost_split', 'Material + labour + equipment', findings,
+    `The split adds up to the unit rate or the total on all ${plural(split.length, 'line')} that carry one.`,
+    `${plural(findings.length, 'line')} have a split that adds up to neither the unit rate nor the total.`)
+}
+
+function lineCount(data: ProjectData): AuditCheck {
+  const recorded = data.summary.line_count
+  return check('line_count', 'Line count', recorded === data.lines.length ? [] : [{ message: `Summary says ${recorded.toLocaleString()}, the file has ${data.lines.length.toLocaleString()}` }],
+    `The summary's ${plural(recorded, 'line')} match the file.`,
+    `The summary counts ${recorded.toLocaleString()} lines but the file has ${data.lines.length.toLocaleString()}.`)
+}
+
+function summaryTotal(data: ProjectData): AuditCheck {
+  const sum = sumOf(data.lines)
+  const recorded = data.summary.total_cost
+  return check('summary_total', 'Estimate total', agrees(recorded, sum) ? [] : [{ message: `Summary total ${fmt(recorded)}, lines add up to ${fmt(sum)} (${fmt(recorded - sum)} apart)` }],
+    `The summary total equals the sum of the lines, ${fmt(sum)}.`,
+    `The summary total ${fmt(recorded)} differs from the sum of the lines, ${fmt(sum)}.`)
+}
+
+function divisionTotals(data: ProjectData): AuditCheck {
+  const sums: Record<string, number> = {}
+  for (const line of data.lines) sums[line.csi_division] = (sums[line.csi_division] || 0) + line.total_cost
+  const divisions = [...new Set([...Object.keys(data.division_totals), ...Object.keys(sums)])].sort()
+  const findings: AuditFinding[] = divisions.flatMap(div => {
+    const recorded = data.division_totals[div]
+    const sum = sums[div] ?? 0
+    const name = div ? `Division ${div}` : 'Unclassified'
+    if (recorded === undefined) return [{ message: `${name}: lines add up to ${fmt(sum)} but no division total is recorded` }]
+    return agrees(recorded, sum) ? [] : [{ message: `${name}: recorded ${fmt(recorded)}, lines add up to ${fmt(sum)}` }]
+  })
+  return check('division_totals', 'Division totals', findings,
+    `All ${plural(divisions.length, 'division')} total their lines.`,
+    `${plural(findings.length, 'division')} don't total their lines.`)
+}
+
+function sectionTotals(data: ProjectData): AuditCheck {
+  if (data.sections.length === 0) return skipped('section_totals', 'Section totals', 'The file records no sections.')
+  const findings: AuditFinding[] = data.sections.flatMap(section => {
+    const sum = sumOf(data.lines.filter(l => section.divisions.includes(l.csi_division)))
+    return agrees(section.engine, sum) ? [] : [{ message: `${section.name}: recorded ${fmt(section.engine)}, its divisions' lines add up to ${fmt(sum)}` }]
+  })
+  return check('section_totals', 'Section totals', findings,
+    `All ${plural(data.sections.length, 'section')} total the lines in their divisions.`,
+    `${plural(findings.length, 'section')} don't total the lines in their divisions.`)
+}
+
+function pricingMethod(data: ProjectData): AuditCheck {
+  const pm = data.summary.pricing_method
+  const sum = pm.cost_db_pct + pm.rate_library_fallback_pct + pm.parametric_gap_fill_pct
+  return check('pricing_method', 'Pricing-method shares', Math.abs(sum - 100) <= 0.5 ? [] : [{ message: `${pm.cost_db_pct}% + ${pm.rate_library_fallback_pct}% + ${pm.parametric_gap_fill_pct}% = ${sum.toFixed(1)}%` }],
+    'Cost database, rate library and parametric shares add up to 100%.',
+    `Cost database, rate library and parametric shares add up to ${sum.toFixed(1)}%, not 100%.`)
+}
+
+function perArea(data: ProjectData): AuditCheck {
+  const gfa = data.project.gross_floor_area_sf
+  if (gfa <= 0) return skipped('cost_per_sf', 'Cost per SF', 'The file records no gross floor area.')
+  const derived = data.summary.total_cost / gfa
+  const recorded = data.summary.cost_per_sf
+  return check('cost_per_sf', 'Cost per SF', agrees(recorded, derived, 0.01) ? [] : [{ message: `Recorded ${money(recorded)}/SF, total ÷ ${gfa.toLocaleString()} SF = ${money(derived)}/SF` }],
+    `The recorded ${money(recorded)}/SF equals the total over ${gfa.toLocaleString()} SF.`,
+    `The recorded ${money(recorded)}/SF doesn't equal the total over ${gfa.toLocaleString()} SF (${money(derived)}/SF).`)
+}
+
+function perUnit(data: ProjectData): AuditCheck {
+  const { units, unit_type } = data.project
+  const label = `Cost per ${unit_type.replace(/s$/, '').toLowerCase() || 'unit'}`
+  if (units <= 0) return skipped('cost_per_unit', label, 'The file records no unit count.')
+  const derived = data.summary.total_cost / units
+  const recorded = data.summary.cost_per_unit
+  return check('cost_per_unit', label, agrees(recorded, derived) ? [] : [{ message: `Recorded ${fmt(recorded)}, total ÷ ${units} = ${fmt(derived)}` }],
+    `The recorded ${fmt(recorded)} equals the total over ${units} ${unit_type.toLowerCase()}.`,
+    `The recorded ${fmt(recorded)} doesn't equal the total over ${units} ${unit_type.toLowerCase()} (${fmt(derived)}).`)
+}
+
+export function auditEstimate(data: ProjectData): AuditReport {
+  const checks = [
+    extension(data), costSplit(data), lineCount(data), summaryTotal(data),
+    divisionTotals(data), sectionTotals(data), pricingMethod(data), perArea(data), perUnit(data),
+  ]
+  const lineFindings = new Map<number, AuditFinding[]>()
+  for (const c of checks) {
+    for (const finding of c.findings) {
+      if (finding.line === undefined) continue
+      lineFindings.set(finding.line, [...lineFindings.get(finding.line) ?? [], finding])
+    }
+  }
+  return { checks, lineFindings }
+}
@@ -0,0 +1,82 @@
+import type { Benchmark, ProjectData } from '../types'
+import { perSf } from '../format'
+
+export const BENCHMARK_LABELS: Record<string, string> = {
+  hanscomb: 'Hanscomb',
+  pla: 'PLA Contractor',
+  engine: 'Engine Baseline',
+}
+
+export interface AccuracyRange {
+  /** Lower bound as a signed percent, e.g. -15 */
+  low: number
+  /** Upper bound as a signed percent, e.g. 15 */
+  high: number
+}
+
+/**
+ * Reads the project's stated accuracy range. Accepts "±15%", "+/-15%" and
+ * asymmetric forms such as "-10% / +20%" or "-10% to +20%".
+ */
+export function parseAccuracyRange(text: string): AccuracyRange | null {
+  const symmetric = text.match(/(?:±|\+\/-|\+-)\s*(\d+(?:\.\d+)?)\s*%/)
+  if (symmetric) {
+    const n = Number(symmetric[1])
+    return { low: -n, high: n }
+  }
+  const bounds = [...text.matchAll(/([+-])\s*(\d+(?:\.\d+)?)\s*%/g)].map(m => Number(m[1] + m[2]))
+  if (bounds.length === 2) return { low: Math.min(...bounds), high: Math.max(...bounds) }
+  return null
+}
+
+export interface BenchmarkComparison {
+  key: string
+  label: string
+  benchmark: Benchmark
+  /** Estimate minus benchmark, in dollars of total cost */
+  varianceTotal: number
+  /** Estimate vs. benchmark, percent on $/SF (or on totals when either area is unknown) */
+  variancePct: number
+  /** null when the project states no parseable accuracy range */
+  withinRange: boolean | null
+}
+
+export function compareToBenchmarks(data: ProjectData): BenchmarkComparison[] {
+  const range = parseAccuracyRange(data.project.confidence_range)
+  const estimatePerSf = perSf(data.summary.total_cost, data.project.gross_floor_area_sf)
+  return Object.entries(data.benchmarks).map(([key, benchmark]) => {
+    const useArea = estimatePerSf > 0 && benchmark.cost_per_sf > 0
+    const base = useArea ? benchmark.cost_per_sf : benchmark.total
+    const value = useArea ? estimatePerSf : data.summary.total_cost
+    const variancePct = base > 0 ? (value - base) / base * 100 : 0
+    return {
+      key,
+      label: BENCHMARK_LABELS[key] || key,
+      benchmark,
+      varianceTotal: data.summary.total_cost - benchmark.total,
+      variancePct,
+      withinRange: range ? variancePct >= range.low && variancePct <= range.high : null,
+    }
+  })
+}
+
+export interface SectionVariance {
+  name: string
+  engine: number
+  pla: number
+  variance: number
+  variancePct: number
+}
+
+/** Engine vs. PLA per section, for sections that carry a PLA figure. */
+export function sectionVariances(data: ProjectData): SectionVariance[] {
+  return data.sections
+    .filter(s => s.pla > 0)
+    .map(s => ({
+      name: s.name,
+      engine: s.engine,
+      pla: s.pla,
+      variance: s.engine - s.pla,
+      variancePct: (s.engine - s.pla) / s.pla * 100,
+    }))
+}
@@ -0,0 +1,169 @@
+import type { ProjectData } from '../types'
+
+// ============================================================
+// CASH-FLOW FORECAST
+// Spreads each CSI division's total over its phase of the programme and
+// sums the months into a draw schedule. A phase is a start and end as a
+// percent of the construction duration, so the template keeps its shape
+// when the duration changes, and a curve that says how the division's
+// spend builds up across its phase. Markups are spread in proportion to
+// the work. Each month's draw withholds the statutory holdback, which is
+// released in one payment a set number of months after completion.
+// ============================================================
+
+export type PhaseCurve = 'linear' | 's_curve' | 'front_loaded' | 'back_loaded'
+
+export const PHASE_CURVES: PhaseCurve[] = ['s_curve', 'linear', 'front_loaded', 'back_loaded']
+
+export const PHASE_CURVE_LABELS: Record<PhaseCurve, string> = {
+  s_curve: 'S-curve',
+  linear: 'Even',
+  front_loaded: 'Front-loaded',
+  back_loaded: 'Back-loaded',
+}
+
+export interface DivisionPhase {
+  /** Percent of the programme, 0–100 */
+  start: number
+  end: number
+  curve: PhaseCurve
+}
+
+export interface CashflowSettings {
+  /** First month of construction, "YYYY-MM" */
+  start: string
+  months: number
+  /** Percent of each draw held back */
+  holdbackPct: number
+  /** Months after the last month of construction that the holdback is paid out */
+  releaseMonths: number
+  /** Edits to the default phasing, by division */
+  phases: Record<string, DivisionPhase>
+}
+
+export interface CashflowMonth {
+  /** "YYYY-MM" */
+  month: string
+  /** Value of work in place this month, markups included */
+  work: number
+  byDivision: Record<string, number>
+  holdbackRetained: number
+  holdbackReleased: number
+  /** Paid this month: work less holdback, plus any release */
+  draw: number
+  cumulativeWork: number
+  cumulativeDraw: number
+}
+
+export interface Cashflow {
+  months: CashflowMonth[]
+  total: number
+  holdback: number
+  /** Month with the most work in place; the holdback release can be a larger payment */
+  peak?: CashflowMonth
+}
+
+// Sitework and structure early, envelope next, services across the middle,
+// finishes, furnishings and commissioning late; general requirements throughout
+export const DEFAULT_PHASING: Record<string, DivisionPhase> = {
+  '01': { start: 0, end: 100, curve: 'linear' },
+  '02': { start: 0, end: 15, curve: 'linear' },
+  '03': { start: 5, end: 45, curve: 's_curve' },
+  '04': { start: 20, end: 55, curve: 's_curve' },
+  '05': { start: 15, end: 50, curve: 's_curve' },
+  '06': { start: 25, end: 65, curve: 's_curve' },
+  '07': { start: 30, end: 70, curve: 's_curve' },
+  '08': { start: 40, end: 85, curve: 's_curve' },
+  '09': { start: 55, end: 95, curve: 's_curve' },
+  '10': { start: 75, end: 95, curve: 'back_loaded' },
+  '11': { start: 70, end: 95, curve: 'back_loaded' },
+  '12': { start: 85, end: 100, curve: 'back_loaded' },
+  '14': { start: 45, end: 85, curve: 's_curve' },
+  '21': { start: 30, end: 85, curve: 's_curve' },
+  '22': { start: 20, end: 90, curve: 's_curve' },
+  '23': { start: 25, end: 95, curve: 's_curve' },
+  '25': { start: 70, end: 100, curve: 'back_loaded' },
+  '26': { start: 20, end: 95, curve: 's_curve' },
+  '27': { start: 55, end: 95, curve: 'back_loaded' },
+  '28': { start: 60, end: 100, curve: 'back_loaded' },
+  '31': { start: 0, end: 20, curve: 'front_loaded' },
+  '32': { start: 80, end: 100, curve: 'linear' },
+  '33': { start: 0, end: 30, curve: 'front_loaded' },
+}
+
+const WHOLE_PROGRAMME: DivisionPhase = { start: 0, end: 100, curve: 'linear' }
+
+/** Ontario's Construction Act holdback is 10%, payable after the 60-day lien period. */
+export const defaultCashflowSettings = (start: string): CashflowSettings =>
+  ({ start, months: 18, holdbackPct: 10, releaseMonths: 2, phases: {} })
+
+export const phaseFor = (settings: CashflowSettings, division: string): DivisionPhase =>
+  settings.phases[division] ?? DEFAULT_PHASING[division] ?? WHOLE_PROGRAMME
+
+/** Share of a phase's spend done by fraction t of the way through it. */
+function curveShare(curve: PhaseCurve, t: number): number {
+  const x = Math.min(1, Math.max(0, t))
+  switch (curve) {
+    case 'linear': return x
+    case 's_curve': return x * x * (3 - 2 * x)
+    case 'front_loaded': return 1 - (1 - x) * (1 - x)
+    case 'back_loaded': return x * x
+  }
+}
+
+/** Cumulative share of the division spent by programme time p (0–1). */
+function phaseShare(phase: DivisionPhase, p: number): number {
+  const start = phase.start / 100
+  const end = phase.end / 100
+  if (end <= start) return p >= start ? 1 : 0
+  return curveShare(phase.curve, (p - start) / (end - start))
+}
+
+/** "2026-03" plus n months. */
+export function addMonths(month: string, n: number): string {
+  const [year, m] = month.split('-').map(Number)
+  const index = year * 12 + (m - 1) + n
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`
+}
+
+/**
+ * Monthly draw schedule for the estimate's division totals. `total` is what
+ * the draws add up to (the direct cost plus markups); each month's work is
+ * scaled up from the direct cost in proportion.
+ */
+export function buildCashflow(data: ProjectData, settings: CashflowSettings, total: number): Cashflow {
+  const months = Math.max(1, Math.round(settings.months))
+  const direct = Object.values(data.division_totals).reduce((a, b) => a + b, 0)
+  const scale = direct !== 0 ? total / direct : 0
+  const holdbackRate = Math.min(100, Math.max(0, settings.holdbackPct)) / 100
+  const release = Math.max(0, Math.round(settings.releaseMonths))
+
+  const rows: CashflowMonth[] = []
+  let cumulativeWork = 0
+  let cumulativeDraw = 0
+  let retained = 0
+  for (let i = 0; i < months + release; i++) {
+    const byDivision: Record<string, number> = {}
+    if (i < months) {
+      for (const [div, divTotal] of Object.entries(data.division_totals)) {
+        const phase = phaseFor(settings, div)
+        const share = phaseShare(phase, (i + 1) / months) - phaseShare(phase, i / months)
+        if (share !== 0) byDivision[div] = divTotal * share * scale
+      }
+    }
+    const work = Object.values(byDivision).reduce((a, b) => a + b, 0)
+    const holdbackRetained = work * holdbackRate
+    retained += holdbackRetained
+    const holdbackReleased = i === months - 1 + release ? retained : 0
+    const draw = work - holdbackRetained + holdbackReleased
+    cumulativeWork += work
+    cumulativeDraw += draw
+    rows.push({
+      month: addMonths(settings.start, i),
+      work, byDivision, holdbackRetained, holdbackReleased, draw, cumulativeWork, cumulativeDraw,
+    })
+  }
+
+  const peak = rows.reduce<CashflowMonth | undefined>((max, r) => !max || r.work > max.work ? r : max, undefined)
+  return { months: rows, total, holdback: retained, peak }
+}
@@ -0,0 +1,43 @@
+import writeXlsxFile, { type Cell } from 'write-excel-file/browser'
+import { DIVISION_NAMES } from '../constants'
+import type { Cashflow } from './cashflow'
+import { csvBlob, round2 } from './qsExport'
+
+// ============================================================
+// CASH-FLOW EXPORT
+// The monthly draw schedule as a table: one row per month with the work,
+// holdback and draw columns, then the work in place per division so the
+// draws can be checked against the division totals. Written as CSV or
+// .xlsx from the same rows, like the QS schedule.
+// ============================================================
+
+type Value = string | number
+
+export function cashflowTable(cashflow: Cashflow): Value[][] {
+  const divisions = [...new Set(cashflow.months.flatMap(m => Object.keys(m.byDivision)))].sort()
+  const header = [
+    'Month', 'Work in place', 'Holdback retained', 'Holdback released', 'Draw', 'Cumulative work', 'Cumulative draw', '% complete',
+    ...divisions.map(div => div ? `${div} ${DIVISION_NAMES[div] || ''}`.trim() : 'Unclassified'),
+  ]
+  const rows = cashflow.months.map(m => [
+    m.month, round2(m.work), round2(m.holdbackRetained), round2(m.holdbackReleased), round2(m.draw),
+    round2(m.cumulativeWork), round2(m.cumulativeDraw),
+    cashflow.total > 0 ? Math.round(m.cumulativeWork / cashflow.total * 1000) / 10 : 0,
+    ...divisions.map(div => round2(m.byDivision[div] ?? 0)),
+  ])
+  const sum = (column: number) => round2(rows.reduce((a, r) => a + (r[column] as number), 0))
+  const totals = ['Total', sum(1), sum(2), sum(3), sum(4), '', '', '', ...divisions.map((_, i) => sum(8 + i))]
+  return [header, ...rows, totals]
+}
+
+export const cashflowToCsv = (table: Value[][]): Blob => csvBlob(table)
+
+export function cashflowToXlsx(table: Value[][]): Promise<Blob> {
+  const last = table.length - 1
+  const sheet = table.map((row, r) => row.map((value, column): Cell => {
+    const bold = r === 0 || r === last
+    if (typeof value === 'string') return { value, type: String, fontWeight: bold ? 'bold' : undefined, backgroundColor: r === 0 ? '#D9E1F2' : undefined }
+    return { value, type: Number, format: column === 7 ? '0.0"%"' : '#,##0.00', fontWeight: bold ? 'bold' : undefined }
+  }))
+  return writeXlsxFile(sheet, { sheet: 'Cash Flow', columns: table[0].map((_, i) => ({ width: i === 0 ? 10 : 16 })) }).toBlob()
+}
@@ -0,0 +1,64 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { DIVISION_NAMES } from '../constants'
+import { ELEMENT_GROUPS, elementForLine, elementGroup, elementLabel } from '../data/uniformat'
+
+export type Classification = 'csi' | 'uniformat'
+
+export const CLASSIFICATION_LABELS: Record<Classification, string> = {
+  csi: 'CSI MasterFormat',
+  uniformat: 'UNIFORMAT II',
+}
+
+export interface CostGroup {
+  /** Division number or element code */
+  code: string
+  name: string
+  total: number
+  lines: EstimateLine[]
+}
+
+function byCsi(data: ProjectData): CostGroup[] {
+  // Credits and net-zero divisions keep their group so the groups add up to the file total
+  const divisions = new Set([...Object.keys(data.division_totals), ...data.lines.map(l => l.csi_division)])
+  return [...divisions]
+    .sort((a, b) => a.localeCompare(b))
+    .map(div => ({
+      code: div,
+      name: DIVISION_NAMES[div] || (div ? `Division ${div}` : 'Unclassified'),
+      total: data.division_totals[div] ?? 0,
+      lines: data.lines.filter(l => l.csi_division === div),
+    }))
+    .filter(g => g.total !== 0 || g.lines.length > 0)
+}
+
+function byElement(lines: EstimateLine[], codeOf: (line: EstimateLine) => string, nameOf: (code: string) => string): CostGroup[] {
+  const groups = new Map<string, EstimateLine[]>()
+  for (const line of lines) {
+    const code = codeOf(line)
+    const group = groups.get(code)
+    if (group) group.push(line)
+    else groups.set(code, [line])
+  }
+  return [...groups.entries()]
+    .map(([code, groupLines]) => ({
+      code,
+      name: code ? nameOf(code) : 'Unclassified',
+      total: groupLines.reduce((a, l) => a + l.total_cost, 0),
+      lines: groupLines,
+    }))
+    .sort((a, b) => (a.code || '~').localeCompare(b.code || '~'))
+}
+
+/**
+ * Groups the estimate's lines under the chosen classification. CSI groups use
+ * the file's division_totals; UNIFORMAT groups are summed from the lines.
+ */
+export function costGroups(data: ProjectData, classification: Classification): CostGroup[] {
+  return classification === 'csi' ? byCsi(data) : byElement(data.lines, elementForLine, elementLabel)
+}
+
+/** UNIFORMAT major groups (A1 Substructure, B2 Finishes, …), for the treemap; it can only draw positive totals. */
+export function elementMajorGroups(data: ProjectData): CostGroup[] {
+  return byElement(data.lines, line => elementGroup(elementForLine(line)), code => ELEMENT_GROUPS[code] || code)
+    .filter(g => g.total > 0)
+}
@@ -0,0 +1,59 @@
+import type { EstimateLine } from '../types'
+
+// ============================================================
+// MATERIAL / LABOUR / EQUIPMENT SPLIT
+// Lines priced from the cost database carry material, labour and equipment
+// costs, but pipelines write them per unit on some lines and extended on
+// others, and before the location factor. Only the proportions are
+// reliable, so a line's split is its total cost shared out in the
+// proportions of its three costs. That also keeps the split in step with
+// re-pricing and scenario overrides, which change only the total.
+// ============================================================
+
+export type CostComponent = 'material' | 'labor' | 'equipment'
+
+export const COST_COMPONENTS: CostComponent[] = ['material', 'labor', 'equipment']
+
+export const COST_COMPONENT_LABELS: Record<CostComponent, string> = {
+  material: 'Material',
+  labor: 'Labour',
+  equipment: 'Equipment',
+}
+
+export type CostSplit = Record<CostComponent, number>
+
+export interface SplitSummary extends CostSplit {
+  /** Cost on lines that carry a split, and on lines that don't */
+  split: number
+  unsplit: number
+  /** Labour as a percent of the split cost */
+  laborShare: number
+}
+
+/** The line's total shared out by its material, labour and equipment costs; null when it carries none. */
+export function lineSplit(line: EstimateLine): CostSplit | null {
+  const material = Math.max(0, line.material_cost ?? 0)
+  const labor = Math.max(0, line.labor_cost ?? 0)
+  const equipment = Math.max(0, line.equipment_cost ?? 0)
+  const parts = material + labor + equipment
+  if (parts <= 0) return null
+  const scale = line.total_cost / parts
+  return { material: material * scale, labor: labor * scale, equipment: equipment * scale }
+}
+
+export function summarizeSplit(lines: EstimateLine[]): SplitSummary {
+  const sum: SplitSummary = { material: 0, labor: 0, equipment: 0, split: 0, unsplit: 0, laborShare: 0 }
+  for (const line of lines) {
+    const split = lineSplit(line)
+    if (!split) {
+      sum.unsplit += line.total_cost
+      continue
+    }
+    for (const c of COST_COMPONENTS) sum[c] += split[c]
+    sum.split += line.total_cost
+  }
+  sum.laborShare = sum.split > 0 ? sum.labor / sum.split * 100 : 0
+  return sum
+}
+
+export const hasSplit = (lines: EstimateLine[]) => lines.some(line => lineSplit(line) !== null)
@@ -0,0 +1,106 @@
+import type { EstimateLine, ProjectData } from '../types'
+
+// ============================================================
+// ESTIMATE DIFF
+// Lines carry no stable id between pipeline runs, so they are matched on
+// description + division + unit. Repeated keys (two "Work Table" lines)
+// are paired in file order.
+// ============================================================
+
+export type LineChangeKind = 'added' | 'removed' | 'repriced'
+
+export interface LineChange {
+  kind: LineChangeKind
+  description: string
+  csi_division: string
+  unit: string
+  base?: EstimateLine
+  revised?: EstimateLine
+  quantityDelta: number
+  unitCostDelta: number
+  totalDelta: number
+}
+
+export interface DivisionDelta {
+  division: string
+  base: number
+  revised: number
+  delta: number
+}
+
+export interface EstimateDiff {
+  changes: LineChange[]
+  unchanged: number
+  divisions: DivisionDelta[]
+  totalBase: number
+  totalRevised: number
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ')
+
+export const lineKey = (line: EstimateLine) =>
+  `${normalize(line.description)}|${line.csi_division}|${normalize(line.unit)}`
+
+// Float noise from the pipeline's rounding shouldn't count as a change
+const differs = (a: number, b: number) => Math.abs(a - b) > 0.005
+
+function groupByKey(lines: EstimateLine[]) {
+  const groups = new Map<string, EstimateLine[]>()
+  for (const line of lines) {
+    const key = lineKey(line)
+    const group = groups.get(key)
+    if (group) group.push(line)
+    else groups.set(key, [line])
+  }
+  return groups
+}
+
+export function diffEstimates(base: ProjectData, revised: ProjectData): EstimateDiff {
+  const baseGroups = groupByKey(base.lines)
+  const revisedGroups = groupByKey(revised.lines)
+  const keys = new Set([...baseGroups.keys(), ...revisedGroups.keys()])
+  const changes: LineChange[] = []
+  let unchanged = 0
+
+  for (const key of keys) {
+    const before = baseGroups.get(key) ?? []
+    const after = revisedGroups.get(key) ?? []
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const b = before[i]
+      const r = after[i]
+      const ref = (r ?? b)!
+      const change = {
+        description: ref.description,
+        csi_division: ref.csi_division,
+        unit: ref.unit,
+        base: b,
+        revised: r,
+        quantityDelta: (r?.quantity ?? 0) - (b?.quantity ?? 0),
+        unitCostDelta: (r?.unit_cost ?? 0) - (b?.unit_cost ?? 0),
+        totalDelta: (r?.total_cost ?? 0) - (b?.total_cost ?? 0),
+      }
+      if (!b) changes.push({ kind: 'added', ...change })
+      else if (!r) changes.push({ kind: 'removed', ...change })
+      else if (differs(b.quantity, r.quantity) || differs(b.unit_cost, r.unit_cost) || differs(b.total_cost, r.total_cost)) {
+        changes.push({ kind: 'repriced', ...change })
+      } else unchanged++
+    }
+  }
+
+  const divisionKeys = new Set([...Object.keys(base.division_totals), ...Object.keys(revised.division_totals)])
+  const divisions = [...divisionKeys]
+    .map(division => {
+      const b = base.division_totals[division] ?? 0
+      const r = revised.division_totals[division] ?? 0
+      return { division, base: b, revised: r, delta: r - b }
+    })
+    .sort((a, b) => a.division.localeCompare(b.division))
+
+  return {
+    changes: changes.sort((a, b) => Math.abs(b.totalDelta) - Math.abs(a.totalDelta)),
+    unchanged,
+    divisions,
+    totalBase: base.summary.total_cost,
+    totalRevised: revised.summary.total_cost,
+  }
+}
@@ -0,0 +1,14 @@
+/** Saves a blob through a temporary link, the way the browser saves any download. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // The browser may still be reading the URL after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** A filesystem-safe file name stem, e.g. "BC-2024-017 QS" → "bc-2024-017-qs". */
+export const fileStem = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'estimate'
@@ -0,0 +1,85 @@
+import type { ProjectData } from '../types'
+import type { ElementalRate } from '../data/assemblies'
+import { ELEMENT_GROUPS, ELEMENT_NAMES, elementForLine } from '../data/uniformat'
+
+// ============================================================
+// ELEMENTAL $/SF CHECK
+// Compares the estimate's cost per SF of gross floor area, element by
+// element, with the Hanscomb elemental reference rates, and flags any
+// element outside a tolerance band. CSI lines are placed on elements
+// through the crosswalk, so any estimate can be checked. The reference
+// gives rates per element (A11) and per group (A1); a group rate is only
+// used where the reference has no element rates for that group (Z).
+// ============================================================
+
+export const DEFAULT_ELEMENTAL_TOLERANCE = 25
+
+export interface ElementalVariance {
+  /** "A11", or a group code ("Z") compared as a whole */
+  code: string
+  name: string
+  /** Estimate $/SF */
+  estimate: number
+  /** Reference $/SF */
+  reference: number
+  /** Estimate vs. reference, percent; -100 when the estimate carries nothing for the element */
+  variancePct: number
+  /** The difference in dollars at the project's floor area */
+  impact: number
+  flagged: boolean
+}
+
+export interface ElementalCheck {
+  rows: ElementalVariance[]
+  /** Flagged rows, largest dollar impact first */
+  exceptions: ElementalVariance[]
+  /** The whole building against the reference total, when it has one */
+  building?: ElementalVariance
+  /** Cost on elements the reference has no rate for (site work, say) */
+  unreferenced: number
+}
+
+// The reference rolls Z1 and Z2 into one "Z_gen_reqs_allowances" rate
+const GROUP_NAMES: Record<string, string> = { ...ELEMENT_GROUPS, Z: 'General Requirements & Allowances' }
+
+const referenceName = (rate: ElementalRate) =>
+  ELEMENT_NAMES[rate.code] ?? GROUP_NAMES[rate.code] ?? rate.key.replace(/^[^_]*_/, '').replace(/_/g, ' ')
+
+/** null when the estimate records no floor area to spread costs over. */
+export function checkElementalRates(data: ProjectData, rates: ElementalRate[], tolerancePct: number): ElementalCheck | null {
+  const gfa = data.project.gross_floor_area_sf
+  if (gfa <= 0) return null
+
+  const elementTotals: Record<string, number> = {}
+  for (const line of data.lines) {
+    const element = elementForLine(line)
+    elementTotals[element] = (elementTotals[element] || 0) + line.total_cost
+  }
+
+  const leaves = rates.filter(r => ELEMENT_NAMES[r.code])
+  const groups = rates.filter(r => r.code !== 'TOTAL' && !ELEMENT_NAMES[r.code] && !leaves.some(l => l.code.startsWith(r.code)))
+  const compared = [...leaves, ...groups]
+
+  const variance = (code: string, name: string, total: number, reference: number): ElementalVariance => {
+    const estimate = total / gfa
+    const variancePct = reference > 0 ? (estimate - reference) / reference * 100 : 0
+    return { code, name, estimate, reference, variancePct, impact: (estimate - reference) * gfa, flagged: Math.abs(variancePct) > tolerancePct }
+  }
+
+  const rows = compared.map(rate => {
+    const total = Object.entries(elementTotals).filter(([element]) => element.startsWith(rate.code)).reduce((a, [, v]) => a + v, 0)
+    return variance(rate.code, referenceName(rate), total, rate.rate)
+  }).sort((a, b) => a.code.localeCompare(b.code))
+
+  const unreferenced = Object.entries(elementTotals)
+    .filter(([element]) => !compared.some(r => element.startsWith(r.code)))
+    .reduce((a, [, v]) => a + v, 0)
+  const total = rates.find(r => r.code === 'TOTAL')
+
+  return {
+    rows,
+    exceptions: rows.filter(r => r.flagged).sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+    building: total && variance('TOTAL', 'Whole building', data.summary.total_cost, total.rate),
+    unreferenced,
+  }
+}
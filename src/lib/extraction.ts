@@ -0,0 +1,75 @@
+import type { DisciplineStats, ExtractedItem } from '../data/extraction'
+import { isMarkdownTable, markdownRows } from './markdownTable'
+
+// ============================================================
+// EXTRACTION EXPLORER
+// Filters the sampled extraction items and groups them by source file and
+// page. Consecutive table rows on a page are joined back into one table,
+// since Docling emits each row of a drawing schedule as its own item.
+// ============================================================
+
+export interface ItemFilter {
+  text: string
+  disciplines: string[]
+  types: string[]
+  minConfidence: number
+}
+
+export const EMPTY_ITEM_FILTER: ItemFilter = { text: '', disciplines: [], types: [], minConfidence: 0 }
+
+export const matchesItem = (f: ItemFilter, item: ExtractedItem) =>
+  (!f.text.trim() || item.content.toLowerCase().includes(f.text.trim().toLowerCase()))
+  && (f.disciplines.length === 0 || f.disciplines.includes(item.discipline))
+  && (f.types.length === 0 || f.types.includes(item.type))
+  && item.confidence >= f.minConfidence
+
+export type ItemBlock =
+  | { kind: 'text'; item: ExtractedItem }
+  | { kind: 'table'; items: ExtractedItem[]; rows: string[][] }
+
+export interface PageGroup {
+  page: number
+  blocks: ItemBlock[]
+}
+
+export interface SourceGroup {
+  discipline: string
+  sourceFile: string
+  items: number
+  pages: PageGroup[]
+}
+
+function blocksOf(items: ExtractedItem[]): ItemBlock[] {
+  const blocks: ItemBlock[] = []
+  for (const item of items) {
+    const last = blocks[blocks.length - 1]
+    if (!isMarkdownTable(item.content)) blocks.push({ kind: 'text', item })
+    else if (last?.kind === 'table') {
+      last.items.push(item)
+      last.rows.push(...markdownRows(item.content))
+    } else blocks.push({ kind: 'table', items: [item], rows: markdownRows(item.content) })
+  }
+  return blocks
+}
+
+/** Items grouped by source file (in discipline order) and page, keeping file order within a page. */
+export function groupItems(items: ExtractedItem[], disciplines: DisciplineStats[]): SourceGroup[] {
+  const byDiscipline = new Map<string, Map<number, ExtractedItem[]>>()
+  for (const item of items) {
+    const pages = byDiscipline.get(item.discipline) ?? new Map<number, ExtractedItem[]>()
+    byDiscipline.set(item.discipline, pages)
+    pages.set(item.page, [...pages.get(item.page) ?? [], item])
+  }
+  const rank = (key: string) => {
+    const i = disciplines.findIndex(d => d.key === key)
+    return i < 0 ? disciplines.length : i
+  }
+  return [...byDiscipline.entries()]
+    .sort((a, b) => rank(a[0]) - rank(b[0]))
+    .map(([discipline, pages]) => ({
+      discipline,
+      sourceFile: disciplines.find(d => d.key === discipline)?.sourceFile ?? discipline,
+      items: [...pages.values()].reduce((a, p) => a + p.length, 0),
+      pages: [...pages.entries()].sort((a, b) => a[0] - b[0]).map(([page, pageItems]) => ({ page, blocks: blocksOf(pageItems) })),
+    }))
+}
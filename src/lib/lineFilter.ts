@@ -0,0 +1,149 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { divisionTotalsFromLines, pricingMethodFromLines } from '../data/adapters'
+import { SOURCE_LABELS } from '../constants'
+import { fmt } from '../format'
+
+// ============================================================
+// LINE FILTER
+// One filter and sort shared by every tab. A filtered estimate is rebuilt
+// from the matching lines alone (division totals, sections, summary) so the
+// charts re-aggregate instead of greying out. The filter round-trips
+// through URL query parameters so a filtered view can be shared as a link.
+// ============================================================
+
+export type SortKey = 'description' | 'quantity' | 'unit' | 'unit_cost' | 'total_cost' | 'source' | 'confidence' | 'csi_division'
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  total_cost: 'Total',
+  unit_cost: 'Unit rate',
+  quantity: 'Quantity',
+  description: 'Description',
+  unit: 'Unit',
+  csi_division: 'Division',
+  source: 'Source',
+  confidence: 'Confidence',
+}
+
+export interface LineFilter {
+  text: string
+  sources: string[]
+  confidences: string[]
+  divisions: string[]
+  minCost?: number
+  maxCost?: number
+  sort: SortKey
+  dir: 'asc' | 'desc'
+}
+
+export const EMPTY_FILTER: LineFilter = {
+  text: '', sources: [], confidences: [], divisions: [], sort: 'total_cost', dir: 'desc',
+}
+
+/** True when the filter would drop lines (sorting alone doesn't count). */
+export const isFiltering = (f: LineFilter) =>
+  f.text.trim() !== '' || f.sources.length > 0 || f.confidences.length > 0 || f.divisions.length > 0
+  || f.minCost !== undefined || f.maxCost !== undefined
+
+/** The filter in words, e.g. for an export made while it is on: `text "duct"; divisions 23, 26; total ≥ $10,000`. */
+export function describeFilter(f: LineFilter): string {
+  return [
+    f.text.trim() && `text "${f.text.trim()}"`,
+    f.sources.length > 0 && `source ${f.sources.map(s => SOURCE_LABELS[s] || s).join(', ')}`,
+    f.confidences.length > 0 && `confidence ${f.confidences.join(', ')}`,
+    f.divisions.length > 0 && `${f.divisions.length > 1 ? 'divisions' : 'division'} ${f.divisions.join(', ')}`,
+    f.minCost !== undefined && `total ≥ ${fmt(f.minCost)}`,
+    f.maxCost !== undefined && `total ≤ ${fmt(f.maxCost)}`,
+  ].filter(Boolean).join('; ')
+}
+
+export function matchesLine(f: LineFilter, line: EstimateLine): boolean {
+  const text = f.text.trim().toLowerCase()
+  return (!text || line.description.toLowerCase().includes(text))
+    && (f.sources.length === 0 || f.sources.includes(line.source))
+    && (f.confidences.length === 0 || f.confidences.includes(line.confidence))
+    && (f.divisions.length === 0 || f.divisions.includes(line.csi_division))
+    && (f.minCost === undefined || line.total_cost >= f.minCost)
+    && (f.maxCost === undefined || line.total_cost <= f.maxCost)
+}
+
+const CONFIDENCE_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 }
+
+/** Returns a sorted copy; ties keep file order. */
+export function sortLines(lines: EstimateLine[], { sort, dir }: Pick<LineFilter, 'sort' | 'dir'>): EstimateLine[] {
+  const sign = dir === 'asc' ? 1 : -1
+  return [...lines].sort((a, b) => {
+    if (sort === 'confidence') return sign * ((CONFIDENCE_RANK[a.confidence] ?? -1) - (CONFIDENCE_RANK[b.confidence] ?? -1))
+    const x = a[sort]
+    const y = b[sort]
+    return sign * (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y)))
+  })
+}
+
+/**
+ * The estimate restricted to the lines the filter keeps, with every total
+ * re-derived from those lines. Line objects are shared with the input, so
+ * identity lookups (scenario overrides) still work on the result.
+ */
+export function filterEstimate(data: ProjectData, f: LineFilter): ProjectData {
+  if (!isFiltering(f)) return data
+  const lines = data.lines.filter(l => matchesLine(f, l))
+  const division_totals = divisionTotalsFromLines(lines)
+  const total = lines.reduce((a, l) => a + l.total_cost, 0)
+  const { gross_floor_area_sf: gfa, units } = data.project
+  return {
+    ...data,
+    summary: {
+      total_cost: total,
+      cost_per_sf: gfa > 0 ? total / gfa : 0,
+      cost_per_unit: units > 0 ? total / units : 0,
+      line_count: lines.length,
+      pricing_method: pricingMethodFromLines(lines),
+    },
+    // PLA section figures cover whole sections, so they are not comparable to a filtered subset
+    sections: data.sections.map(s => {
+      const engine = s.divisions.reduce((a, div) => a + (division_totals[div] || 0), 0)
+      return { ...s, engine, pla: 0, pct: total > 0 ? engine / total * 100 : 0 }
+    }),
+    division_totals,
+    lines,
+  }
+}
+
+// --- URL encoding ----------------------------------------------
+
+const list = (value: string | null) => value ? value.split(',').filter(Boolean) : []
+
+const optionalNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined
+  const n = Number(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+export const FILTER_PARAMS = ['q', 'source', 'conf', 'div', 'min', 'max', 'sort', 'dir']
+
+export function filterFromParams(params: URLSearchParams): LineFilter {
+  const sort = params.get('sort')
+  return {
+    text: params.get('q') ?? '',
+    sources: list(params.get('source')),
+    confidences: list(params.get('conf')),
+    divisions: list(params.get('div')),
+    minCost: optionalNumber(params.get('min')),
+    maxCost: optionalNumber(params.get('max')),
+    sort: sort && sort in SORT_LABELS ? sort as SortKey : EMPTY_FILTER.sort,
+    dir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+  }
+}
+
+/** Writes the filter into `params`, leaving out anything at its default. */
+export function writeFilterParams(params: URLSearchParams, f: LineFilter) {
+  FILTER_PARAMS.forEach(key => params.delete(key))
+  if (f.text) params.set('q', f.text)
+  if (f.sources.length) params.set('source', f.sources.join(','))
+  if (f.confidences.length) params.set('conf', f.confidences.join(','))
+  if (f.divisions.length) params.set('div', f.divisions.join(','))
+  if (f.minCost !== undefined) params.set('min', String(f.minCost))
+  if (f.maxCost !== undefined) params.set('max', String(f.maxCost))
+  if (f.sort !== EMPTY_FILTER.sort) params.set('sort', f.sort)
+  if (f.dir !== EMPTY_FILTER.dir) params.set('dir', f.dir)
+}
@@ -0,0 +1,18 @@
+// Docling writes tables as GitHub-style markdown, often one row per
+// extracted item. These helpers read the rows back into cells.
+
+const SEPARATOR = /^\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?$/
+
+/** True when every non-blank line of `text` is a `| a | b |` row. */
+export const isMarkdownTable = (text: string) => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean)
+  return lines.length > 0 && lines.every(l => l.startsWith('|') && l.endsWith('|') && l.length > 1)
+}
+
+/** Cells of each row, skipping `|---|---|` separator lines. */
+export function markdownRows(text: string): string[][] {
+  return text.split('\n')
+    .map(l => l.trim())
+    .filter(l => l && !SEPARATOR.test(l))
+    .map(l => l.slice(1, -1).split('|').map(cell => cell.trim()))
+}
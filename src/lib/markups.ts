@@ -0,0 +1,46 @@
+import type { Markup } from '../types'
+
+// ============================================================
+// MARKUP STACK
+// Markups sit below the direct cost in a fixed order. A percent markup is
+// taken either on the direct cost alone or on the running total (direct
+// plus every markup above it), so contingency can compound on OH&P.
+// ============================================================
+
+export interface MarkupRow {
+  markup: Markup
+  amount: number
+  runningTotal: number
+}
+
+export interface MarkupResult {
+  rows: MarkupRow[]
+  markupTotal: number
+  grandTotal: number
+}
+
+export const newMarkupId = () => crypto.randomUUID()
+
+export function applyMarkups(direct: number, markups: Markup[]): MarkupResult {
+  let running = direct
+  const rows = markups.map(markup => {
+    const base = markup.basis === 'direct' ? direct : running
+    const amount = markup.kind === 'percent' ? base * markup.value / 100 : markup.value
+    running += amount
+    return { markup, amount, runningTotal: running }
+  })
+  return { rows, markupTotal: running - direct, grandTotal: running }
+}
+
+/** Turns dollar markups recorded in a file into percents on the direct cost. */
+export function markupsFromAmounts(direct: number, amounts: { label: string; amount: number }[]): Markup[] {
+  return amounts
+    .filter(a => a.amount > 0)
+    .map(a => ({
+      id: newMarkupId(),
+      label: a.label,
+      kind: direct > 0 ? 'percent' : 'lump_sum',
+      value: direct > 0 ? Math.round(a.amount / direct * 10000) / 100 : a.amount,
+      basis: 'direct',
+    }))
+}
@@ -0,0 +1,59 @@
+import { createContext, useContext } from 'react'
+import type { EstimateLine } from '../types'
+import { METRIC_UNITS, SF_PER_M2, type UnitSystem } from '../data/units'
+import { perSf } from '../format'
+
+// ============================================================
+// DISPLAY MEASURES
+// Estimates are stored in imperial units. Components read a Measures object
+// from context and show quantities, unit rates, floor areas and $/area in
+// whichever system the header toggle selects.
+// ============================================================
+
+export interface Measures {
+  system: UnitSystem
+  /** "SF" or "m²" */
+  areaUnit: string
+  /** A floor area given in square feet. */
+  area: (sf: number) => number
+  /** A total spread over a floor area given in square feet, per display area unit. */
+  perArea: (total: number, sf: number) => number
+  /** A $/SF figure re-expressed per display area unit. */
+  areaRate: (costPerSf: number) => number
+  /** Display quantity per stored quantity for a canonical unit (1 when not converted). */
+  quantityFactor: (unit: string) => number
+  /** A line's quantity, unit and unit rate in display units. */
+  line: (line: EstimateLine) => { quantity: number; unit: string; unit_cost: number }
+}
+
+export function measuresFor(system: UnitSystem): Measures {
+  if (system === 'imperial') {
+    return {
+      system,
+      areaUnit: 'SF',
+      area: sf => sf,
+      perArea: perSf,
+      areaRate: rate => rate,
+      quantityFactor: () => 1,
+      line: ({ quantity, unit, unit_cost }) => ({ quantity, unit, unit_cost }),
+    }
+  }
+  return {
+    system,
+    areaUnit: 'm²',
+    area: sf => sf / SF_PER_M2,
+    perArea: (total, sf) => perSf(total, sf) * SF_PER_M2,
+    areaRate: rate => rate * SF_PER_M2,
+    quantityFactor: unit => METRIC_UNITS[unit]?.factor ?? 1,
+    line: ({ quantity, unit, unit_cost }) => {
+      const metric = METRIC_UNITS[unit]
+      return metric
+        ? { quantity: quantity * metric.factor, unit: metric.unit, unit_cost: unit_cost / metric.factor }
+        : { quantity, unit, unit_cost }
+    },
+  }
+}
+
+export const MeasuresContext = createContext<Measures>(measuresFor('imperial'))
+
+export const useMeasures = () => useContext(MeasuresContext)
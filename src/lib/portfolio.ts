@@ -0,0 +1,106 @@
+import type { ProjectData } from '../types'
+import type { PortfolioEntry } from '../data/portfolio'
+import {
+  escalationFactor, matchLocation, repricingFor, type EscalationRate, type LocationIndex,
+} from './repricing'
+
+// ============================================================
+// PORTFOLIO
+// Puts estimates of different projects on one footing: each is restated
+// to a common location and date with the Re-pricing tab's location
+// indices and escalation curve, then compared by $/SF, cost per unit and
+// division shares. Estimates dated after the basis date are de-escalated
+// along the same curve. A project whose location or date can't be placed
+// is left unadjusted on that count and says so.
+// ============================================================
+
+export interface NormalizationBasis {
+  /** Location row to restate to; null leaves every project at its own location */
+  location: string | null
+  /** "YYYY-MM" */
+  date: string
+}
+
+export interface PortfolioProject {
+  entry: PortfolioEntry
+  project: ProjectData['project']
+  /** Recorded direct cost */
+  recorded: number
+  locationFactor: number
+  escalationFactor: number
+  factor: number
+  /** Restated direct cost */
+  total: number
+  /** Restated $/SF and cost per unit; null without a floor area or unit count */
+  perSf: number | null
+  perUnit: number | null
+  /** Percent of the direct cost, by CSI division; unchanged by restating */
+  divisionShares: Record<string, number>
+  /** Why a factor was left at 1 */
+  notes: string[]
+}
+
+const monthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth()
+
+export function normalizeProject(
+  entry: PortfolioEntry, data: ProjectData, indices: LocationIndex[], curve: EscalationRate[], basis: NormalizationBasis,
+): PortfolioProject {
+  // The manifest fills in what older files don't record
+  const project = {
+    ...data.project,
+    ...(entry.location && { location: entry.location }),
+    ...(entry.report_date && { report_date: entry.report_date }),
+    ...(entry.building_type && { building_type: entry.building_type }),
+  }
+  const notes: string[] = []
+
+  const placed = (project.location_factor ?? 0) > 0 || matchLocation(indices, project.location) !== undefined
+  if (basis.location !== null && !placed) notes.push(`${project.location || 'Location'} isn't in the location index table; not adjusted for location.`)
+  const location = repricingFor(project, indices, curve, { location: placed ? basis.location : null, months: 0 }).locationFactor
+
+  const reportTime = Date.parse(project.report_date)
+  const basisTime = Date.parse(`${basis.date}-01`)
+  let escalation = 1
+  if (Number.isNaN(reportTime)) {
+    notes.push('No report date; not escalated.')
+  } else if (!Number.isNaN(basisTime)) {
+    const reportDate = new Date(reportTime)
+    const basisDate = new Date(basisTime)
+    const months = monthIndex(basisDate) - monthIndex(reportDate)
+    escalation = months >= 0 ? escalationFactor(curve, reportDate, months) : 1 / escalationFactor(curve, basisDate, -months)
+  }
+
+  const recorded = data.summary.total_cost
+  const factor = location * escalation
+  const total = recorded * factor
+  const { gross_floor_area_sf: gfa, units } = project
+  return {
+    entry,
+    project,
+    recorded,
+    locationFactor: location,
+    escalationFactor: escalation,
+    factor,
+    total,
+    perSf: gfa > 0 ? total / gfa : null,
+    perUnit: units > 0 ? total / units : null,
+    divisionShares: Object.fromEntries(Object.entries(data.division_totals).map(([div, v]) => [div, recorded !== 0 ? v / recorded * 100 : 0])),
+    notes,
+  }
+}
+
+export interface PortfolioRange {
+  min: number
+  median: number
+  max: number
+  count: number
+}
+
+/** Spread of a metric across the projects that have it; null when none do. */
+export function portfolioRange(values: (number | null)[]): PortfolioRange | null {
+  const sorted = values.filter((v): v is number => v !== null).sort((a, b) => a - b)
+  if (sorted.length === 0) return null
+  const mid = Math.floor(sorted.length / 2)
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+  return { min: sorted[0], median, max: sorted[sorted.length - 1], count: sorted.length }
+}
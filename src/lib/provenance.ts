@@ -0,0 +1,159 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { SOURCE_LABELS } from '../constants'
+import { fmt, fmtPct } from '../format'
+import type { Repricing } from './repricing'
+
+// ============================================================
+// LINE PROVENANCE
+// Where a line's number came from, in four steps: the drawing extraction
+// that produced the quantity, the cost-database item that supplied the
+// rate, the arithmetic from rate to total (including the file's own
+// location factor, any re-pricing and scenario overrides), and for
+// parametric lines the basis of the gap-fill. Each step lists what the file
+// records; steps it records nothing for say so rather than disappearing.
+// ============================================================
+
+export interface ProvenanceFact {
+  label: string
+  value: string
+}
+
+export interface ProvenanceSection {
+  title: string
+  facts: ProvenanceFact[]
+  notes: string[]
+}
+
+export interface ProvenanceContext {
+  project: ProjectData['project']
+  /** The line as the file priced it, before re-pricing and scenario overrides */
+  fileLine: EstimateLine
+  /** The line before the active scenario's override, when one applies */
+  baseLine?: EstimateLine
+  repricing: Repricing
+}
+
+const EXTRACTION_METHODS: Record<string, string> = {
+  vision: 'Vision model',
+  docling: 'Docling document parse',
+}
+
+// Tags parametric gap-fill lines carry in their description, e.g. "(pla_gore_bay)"
+const GAP_FILL_BASES: Record<string, string> = {
+  pla_gore_bay: 'PLA Gore Bay estimate, $/SF for the division',
+  rsmeans: 'Cost database square-foot model',
+}
+
+const DIVISION_AVERAGE = /^\[division avg:\s*(\w+)\]$/
+
+const titleCase = (text: string) => text.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())
+const rate = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+const quantity = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 })
+const multiplier = (f: number) => `×${f.toFixed(4)}`
+
+const isParametric = (line: EstimateLine) => line.source === 'parametric_gap_fill' || line.estimate_source === 'parametric'
+
+const isFloorArea = (line: EstimateLine, project: ProjectData['project']) =>
+  line.unit === 'SF' && project.gross_floor_area_sf > 0 && line.quantity === project.gross_floor_area_sf
+
+function extraction(line: EstimateLine, project: ProjectData['project']): ProvenanceSection {
+  const facts: ProvenanceFact[] = []
+  const notes: string[] = []
+  if (line.discipline) facts.push({ label: 'Discipline', value: titleCase(line.discipline) })
+  if (line.extraction_source && !isParametric(line)) {
+    const method = line.extraction_source.startsWith('schedule/')
+      ? 'Schedule read off the drawings'
+      : EXTRACTION_METHODS[line.extraction_source] ?? line.extraction_source
+    facts.push({ label: 'Read by', value: method })
+  }
+  if (line.extraction_confidence !== undefined) {
+    facts.push({ label: 'Extraction confidence', value: fmtPct(line.extraction_confidence * 100) })
+  }
+  facts.push({ label: 'Quantity', value: `${quantity(line.quantity)} ${line.unit}` })
+
+  if (isFloorArea(line, project)) {
+    notes.push(`The quantity is the gross floor area${project.area_source ? `: ${project.area_source}` : '.'}`)
+  } else if (isParametric(line)) {
+    notes.push('Taken off the building parameters rather than read from the drawings.')
+  } else if (line.discipline || line.extraction_source) {
+    notes.push(`Extracted text: "${line.description}". The drawing page isn't recorded per line; the Drawing Sheets tab shows what each page holds.`)
+  } else if (facts.length === 1) {
+    notes.push('This file records no extraction details for its lines.')
+  }
+  return { title: 'Extraction', facts, notes }
+}
+
+function costMatch(line: EstimateLine): ProvenanceSection {
+  const facts: ProvenanceFact[] = [{ label: 'Priced from', value: SOURCE_LABELS[line.source] ?? line.source }]
+  const notes: string[] = []
+  if (line.estimate_source) facts.push({ label: 'Pipeline route', value: line.estimate_source.replace(/_/g, ' ') })
+  const code = line.rsmeans_code ?? line.db_item_id
+  if (code) facts.push({ label: 'Item code', value: code })
+  const average = line.matched_description?.match(DIVISION_AVERAGE)
+  if (average) {
+    notes.push(`No database item matched; the rate is the Division ${average[1]} average.`)
+  } else if (line.matched_description) {
+    facts.push({ label: 'Matched item', value: line.matched_description })
+  }
+  if (line.db_match_score !== undefined) facts.push({ label: 'Match score', value: fmtPct(line.db_match_score * 100) })
+  facts.push({ label: 'Pricing confidence', value: titleCase(line.confidence) })
+
+  if (!code && !line.matched_description) {
+    if (line.source === 'rate_library_fallback') notes.push('No database item matched; the rate comes from the pipeline\'s rate library.')
+    else if (line.source.startsWith('system_breakout')) notes.push('A building-system rate broken out into its components.')
+    else if (line.source.startsWith('hanscomb')) notes.push('Rate taken from the Hanscomb elemental reference.')
+    else if (line.source === 'cost_db_assembly') notes.push('Added by the scenario from the Hanscomb assembly library.')
+    else if (!isParametric(line)) notes.push('The file records no database item for this line.')
+  }
+  return { title: 'Cost Database Match', facts, notes }
+}
+
+function derivation(line: EstimateLine, ctx: ProvenanceContext): ProvenanceSection {
+  const { fileLine, baseLine, repricing, project } = ctx
+  const extended = fileLine.quantity * fileLine.unit_cost
+  const facts: ProvenanceFact[] = [
+    { label: 'Rate in file', value: `${rate(fileLine.unit_cost)} / ${fileLine.unit}` },
+    { label: 'Quantity × rate', value: `${quantity(fileLine.quantity)} × ${rate(fileLine.unit_cost)} = ${fmt(extended)}` },
+  ]
+  const notes: string[] = []
+
+  if (Math.abs(fileLine.total_cost - extended) > Math.max(1, Math.abs(extended) * 0.005)) {
+    const applied = extended !== 0 ? fileLine.total_cost / extended : 0
+    facts.push({ label: 'Total in file', value: `${fmt(fileLine.total_cost)} (${multiplier(applied)})` })
+    const factor = project.location_factor
+    notes.push(factor !== undefined && Math.abs(applied - factor) < 0.005
+      ? `The file's total carries its location factor ${multiplier(factor)} on top of quantity × rate.`
+      : 'The file\'s total doesn\'t equal quantity × rate, and the file gives no reason.')
+  }
+  if (repricing.factor !== 1) {
+    facts.push({ label: 'Re-pricing', value: `${multiplier(repricing.factor)} (location ${multiplier(repricing.locationFactor)}, escalation ${multiplier(repricing.escalationFactor)})` })
+  }
+  if (baseLine) {
+    facts.push({ label: 'Before scenario', value: `${quantity(baseLine.quantity)} × ${rate(baseLine.unit_cost)} = ${fmt(baseLine.total_cost)}` })
+  }
+  facts.push({ label: 'Line total', value: fmt(line.total_cost) })
+  return { title: 'Unit Cost Derivation', facts, notes }
+}
+
+function gapFill(line: EstimateLine, project: ProjectData['project']): ProvenanceSection {
+  const tag = line.description.match(/\(([\w-]+)\)\s*$/)?.[1]
+  const facts: ProvenanceFact[] = []
+  if (tag) facts.push({ label: 'Basis', value: GAP_FILL_BASES[tag] ?? tag })
+  facts.push({ label: 'Rate', value: `${rate(line.unit_cost)} / ${line.unit}` })
+  return {
+    title: 'Gap-Fill Basis',
+    facts,
+    notes: [isFloorArea(line, project)
+      ? 'Scope the drawings don\'t show, priced at a rate per square foot of the whole building: it moves with the floor area, not with a takeoff.'
+      : 'Scope the drawings don\'t show, priced on a quantity derived from the building parameters.'],
+  }
+}
+
+export function lineProvenance(line: EstimateLine, ctx: ProvenanceContext): ProvenanceSection[] {
+  return [
+    extraction(line, ctx.project),
+    costMatch(line),
+    derivation(line, ctx),
+    ...(isParametric(line) ? [gapFill(line, ctx.project)] : []),
+  ]
+}
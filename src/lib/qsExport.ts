@@ -0,0 +1,147 @@
+import writeXlsxFile, { type Cell } from 'write-excel-file/browser'
+import type { Markup, ProjectData } from '../types'
+import { SOURCE_LABELS } from '../constants'
+import { UNIT_SYSTEM_LABELS } from '../data/units'
+import { CLASSIFICATION_LABELS, costGroups, type Classification } from './classification'
+import { applyMarkups } from './markups'
+import type { Measures } from './measures'
+import { EMPTY_FILTER, describeFilter, isFiltering, sortLines, type LineFilter } from './lineFilter'
+import { signOffStatement, type SignOff } from './review'
+
+// ============================================================
+// QS SCHEDULE EXPORT
+// The schedule is built once as plain rows (project block, then group →
+// lines → subtotal, then the grand total and markups) and written out as
+// either CSV or a formatted .xlsx, so both files carry the same figures.
+// ============================================================
+
+export type ScheduleRowKind = 'project' | 'blank' | 'columns' | 'group' | 'line' | 'subtotal' | 'markup' | 'total'
+
+export interface ScheduleRow {
+  kind: ScheduleRowKind
+  values: (string | number | null)[]
+}
+
+const MONEY_COLUMNS = new Set([4, 5, 6])
+const PCT_COLUMN = 7
+const WIDTHS = [10, 60, 12, 8, 14, 16, 10, 10, 22, 12]
+
+export const round2 = (n: number) => Math.round(n * 100) / 100
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+export interface ScheduleOptions {
+  classification: Classification
+  markups: Markup[]
+  /** Units the quantities, rates and $/area are written in. */
+  measures: Measures
+  /** The filter `data` was narrowed by, written into the project block; also sets the line order within each group. */
+  filter?: LineFilter
+  /** Name of the what-if scenario the figures include, if any. */
+  scenarioName?: string
+  /** The estimator's sign-off on the report, stamped in the project block while the figures are the ones signed off. */
+  signoff?: SignOff
+}
+
+export function buildSchedule(data: ProjectData, { classification, markups, measures: m, filter = EMPTY_FILTER, scenarioName, signoff }: ScheduleOptions): ScheduleRow[] {
+  const { project } = data
+  const gfa = project.gross_floor_area_sf
+  const grandTotal = data.summary.total_cost
+  const pct = (n: number) => grandTotal > 0 ? Math.round(n / grandTotal * 1000) / 10 : 0
+  const money = (n: number) => [round2(n), round2(m.perArea(n, gfa)), pct(n)]
+  const groupWord = classification === 'csi' ? 'Division' : 'Element'
+  const filtered = isFiltering(filter)
+
+  const rows: ScheduleRow[] = [
+    ['Project', project.name],
+    ['Client', project.client],
+    ['Location', project.location],
+    ['Report number', project.report_number],
+    ['Report date', project.report_date],
+    ['Estimate class', project.class],
+    ['Accuracy range', project.confidence_range],
+    ['Prepared by', project.prepared_by],
+    [`Gross floor area (${m.areaUnit})`, Math.round(m.area(gfa))],
+    [project.unit_type, project.units],
+    ['Classification', CLASSIFICATION_LABELS[classification]],
+    ['Units', UNIT_SYSTEM_LABELS[m.system]],
+    ...(scenarioName ? [['What-if scenario', scenarioName]] : []),
+    ...(filtered ? [['Line filter', `${describeFilter(filter)} (${data.lines.length} lines; markups not applied)`]] : []),
+    ['Estimator review', signoff ? signOffStatement(signoff, grandTotal) : 'Not signed off'],
+    ...(signoff?.note ? [['Sign-off note', signoff.note]] : []),
+  ].map(values => ({ kind: 'project' as const, values }))
+
+  rows.push({ kind: 'blank', values: [] }, {
+    kind: 'columns',
+    values: ['Code', 'Description', 'Quantity', 'Unit', 'Unit Rate', 'Total', `$/${m.areaUnit}`, '% of Total', 'Source', 'Confidence'],
+  })
+
+  for (const group of costGroups(data, classification)) {
+    const label = `${group.code ? `${groupWord} ${group.code}` : groupWord} — ${group.name}`
+    rows.push({ kind: 'group', values: [group.code, label] })
+    for (const line of sortLines(group.lines, filter)) {
+      const { quantity, unit, unit_cost } = m.line(line)
+      rows.push({
+        kind: 'line',
+        values: [
+          group.code, line.description, round2(quantity), unit, round2(unit_cost), ...money(line.total_cost),
+          SOURCE_LABELS[line.source] || line.source, capitalize(line.confidence),
+        ],
+      })
+    }
+    rows.push({ kind: 'subtotal', values: [group.code, `Subtotal — ${label}`, null, null, null, ...money(group.total), null, null] })
+  }
+
+  // Markups are set on the whole estimate, so a filtered schedule stops at the total of its lines
+  if (filtered) {
+    rows.push({ kind: 'total', values: [null, `FILTERED LINES TOTAL — ${project.name}`, null, null, null, ...money(grandTotal), null, null] })
+    return rows
+  }
+  rows.push({ kind: 'total', values: [null, `GRAND TOTAL — ${project.name}`, null, null, null, ...money(grandTotal), null, null] })
+
+  const { rows: markupRows, grandTotal: withMarkups } = applyMarkups(grandTotal, markups)
+  if (markupRows.length > 0) {
+    for (const { markup, amount } of markupRows) {
+      const basis = markup.kind === 'lump_sum' ? 'lump sum' : `${markup.value}% ${markup.basis === 'direct' ? 'on direct cost' : 'compounding'}`
+      rows.push({ kind: 'markup', values: [null, `${markup.label} (${basis})`, null, null, null, ...money(amount), null, null] })
+    }
+    rows.push({ kind: 'total', values: [null, 'TOTAL WITH MARKUPS', null, null, null, ...money(withMarkups), null, null] })
+  }
+  return rows
+}
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Rows of cells as a CSV file; shared with the other table exports. */
+export function csvBlob(rows: (string | number | null)[][]): Blob {
+  const text = rows.map(r => r.map(csvCell).join(',')).join('\r\n')
+  // The BOM makes Excel open the file as UTF-8 (em dashes, accents in descriptions)
+  return new Blob(['\uFEFF' + text], { type: 'text/csv;charset=utf-8' })
+}
+
+export const scheduleToCsv = (rows: ScheduleRow[]): Blob => csvBlob(rows.map(r => r.values))
+
+function xlsxCell(row: ScheduleRow, value: string | number | null, column: number): Cell {
+  if (value === null) return null
+  const bold = row.kind === 'columns' || row.kind === 'group' || row.kind === 'subtotal' || row.kind === 'total'
+    || (row.kind === 'project' && column === 0)
+  const style = {
+    fontWeight: bold ? 'bold' as const : undefined,
+    backgroundColor: row.kind === 'columns' ? '#D9E1F2' : row.kind === 'total' ? '#E2EFDA' : undefined,
+    indent: row.kind === 'line' && column === 1 ? 1 : undefined,
+  }
+  if (typeof value === 'string') return { value, type: String, ...style }
+  const format = row.kind === 'project' ? '#,##0'
+    : MONEY_COLUMNS.has(column) ? '#,##0.00'
+    : column === PCT_COLUMN ? '0.0"%"'
+    : '#,##0.##'
+  return { value, type: Number, format, ...style }
+}
+
+export function scheduleToXlsx(rows: ScheduleRow[]): Promise<Blob> {
+  const sheet = rows.map(row => row.values.map((value, column) => xlsxCell(row, value, column)))
+  return writeXlsxFile(sheet, { sheet: 'QS Schedule', columns: WIDTHS.map(width => ({ width })) }).toBlob()
+}
@@ -0,0 +1,139 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { DIVISION_NAMES } from '../constants'
+import { divisionHints, type DivisionSuggestion } from '../data/divisionKeywords'
+import { fileStem } from './download'
+import { lineKey } from './diff'
+
+// ============================================================
+// RECLASSIFICATION
+// Division fixes are saved per project as a reclassification file: a list
+// of {description, unit, from, to} assignments. Lines carry no stable id
+// between runs, so an assignment matches on the same key the Compare tab
+// uses, and the loader re-applies it to every later run of the project.
+// ============================================================
+
+export interface DivisionAssignment {
+  description: string
+  unit: string
+  /** Division the pipeline gave the line ("" when unclassified). */
+  from: string
+  to: string
+}
+
+export interface ReclassificationFile {
+  project: string
+  updated: string
+  assignments: DivisionAssignment[]
+}
+
+export const reclassificationKey = (projectName: string) => `reclassification.${fileStem(projectName)}`
+
+const isAssignment = (v: unknown): v is DivisionAssignment => {
+  const a = v as DivisionAssignment
+  return typeof v === 'object' && v !== null
+    && typeof a.description === 'string' && typeof a.unit === 'string' && typeof a.from === 'string' && typeof a.to === 'string'
+}
+
+/** Reads a stored or imported file; anything that isn't one reads back as null. Malformed assignments are dropped. */
+export function parseReclassificationFile(raw: unknown): ReclassificationFile | null {
+  const file = raw as ReclassificationFile
+  if (typeof raw !== 'object' || raw === null || !Array.isArray(file.assignments)) return null
+  return {
+    project: typeof file.project === 'string' ? file.project : '',
+    updated: typeof file.updated === 'string' ? file.updated : '',
+    assignments: file.assignments.filter(isAssignment),
+  }
+}
+
+const assignmentKey = (a: DivisionAssignment) => lineKey({ description: a.description, unit: a.unit, csi_division: a.from } as EstimateLine)
+
+export const assignmentFor = (line: EstimateLine, to: string): DivisionAssignment =>
+  ({ description: line.description, unit: line.unit, from: line.csi_division, to })
+
+/**
+ * Later assignments for the same line replace earlier ones. An assignment
+ * back to the original division is kept as a confirmation, so the line is
+ * not offered for review again.
+ */
+export function mergeAssignments(existing: DivisionAssignment[], added: DivisionAssignment[]): DivisionAssignment[] {
+  const byKey = new Map(existing.map(a => [assignmentKey(a), a]))
+  for (const a of added) byKey.set(assignmentKey(a), a)
+  return [...byKey.values()]
+}
+
+export const removeAssignment = (existing: DivisionAssignment[], removed: DivisionAssignment) =>
+  existing.filter(a => assignmentKey(a) !== assignmentKey(removed))
+
+/** Reassigns matching lines and moves their cost between division and section totals. */
+export function applyReclassification(data: ProjectData, file: ReclassificationFile): { data: ProjectData; applied: number } {
+  const targets = new Map(file.assignments.map(a => [assignmentKey(a), a.to]))
+  const deltas: Record<string, number> = {}
+  let applied = 0
+  const lines = data.lines.map(line => {
+    const to = targets.get(lineKey(line))
+    if (to === undefined || to === line.csi_division) return line
+    applied++
+    deltas[line.csi_division] = (deltas[line.csi_division] || 0) - line.total_cost
+    deltas[to] = (deltas[to] || 0) + line.total_cost
+    return { ...line, csi_division: to }
+  })
+  if (applied === 0) return { data, applied }
+
+  const division_totals = { ...data.division_totals }
+  for (const [div, d] of Object.entries(deltas)) {
+    const total = (division_totals[div] || 0) + d
+    // Rounding dust must not leave an empty "" division behind
+    if (Math.abs(total) < 0.005) delete division_totals[div]
+    else division_totals[div] = total
+  }
+  const total = data.summary.total_cost
+  return {
+    data: {
+      ...data,
+      sections: data.sections.map(s => {
+        const engine = s.engine + s.divisions.reduce((a, div) => a + (deltas[div] || 0), 0)
+        return { ...s, engine, pct: total > 0 ? engine / total * 100 : 0 }
+      }),
+      division_totals,
+      lines,
+    },
+    applied,
+  }
+}
+
+export type CandidateReason = 'unclassified' | 'unknown_division' | 'mismatch'
+
+export const CANDIDATE_REASON_LABELS: Record<CandidateReason, string> = {
+  unclassified: 'No division',
+  unknown_division: 'Unknown division',
+  mismatch: 'Description disagrees',
+}
+
+export interface ClassificationCandidate {
+  line: EstimateLine
+  reason: CandidateReason
+  suggestion?: DivisionSuggestion
+}
+
+/**
+ * Lines worth a second look: no division, a division code outside
+ * DIVISION_NAMES, or a description whose keywords all point elsewhere.
+ * Lines already covered by an assignment (applied or confirmed) are skipped.
+ */
+export function classificationCandidates(data: ProjectData, assignments: DivisionAssignment[]): ClassificationCandidate[] {
+  const reviewed = new Set(assignments.flatMap(a => [assignmentKey(a), assignmentKey({ ...a, from: a.to })]))
+  const candidates: ClassificationCandidate[] = []
+  for (const line of data.lines) {
+    if (reviewed.has(lineKey(line))) continue
+    const hints = divisionHints(line.description)
+    if (!line.csi_division) candidates.push({ line, reason: 'unclassified', suggestion: hints[0] })
+    else if (!DIVISION_NAMES[line.csi_division]) candidates.push({ line, reason: 'unknown_division', suggestion: hints[0] })
+    else {
+      const keywords = hints.filter(h => h.source === 'keyword')
+      if (keywords.length > 0 && !hints.some(h => h.division === line.csi_division)) {
+        candidates.push({ line, reason: 'mismatch', suggestion: keywords[0] })
+      }
+    }
+  }
+  return candidates
+}
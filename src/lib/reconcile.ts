@@ -0,0 +1,129 @@
+import type { ProjectData } from '../types'
+import type { PlaEstimate } from '../data/pla'
+
+// ============================================================
+// PLA RECONCILIATION
+// A crosswalk assigns every PLA section a default CSI division, with
+// per-item overrides for lines that belong elsewhere (sprinklers listed
+// under specialties, paving under civil, …).
+// ============================================================
+
+export interface Crosswalk {
+  /** PLA section → CSI division */
+  sections: Record<string, string>
+  /** `section::item` → CSI division, overriding the section default */
+  items: Record<string, string>
+}
+
+export const itemKey = (section: string, item: string) => `${section}::${item}`
+
+const SECTION_DIVISIONS: Record<string, string> = {
+  general: '01',
+  structural: '03',
+  envelope: '07',
+  openings: '08',
+  finishes: '09',
+  specialties_equipment: '10',
+  civil: '31',
+  mechanical: '23',
+  electrical: '26',
+}
+
+const ITEM_RULES: { section: string; pattern: RegExp; division: string }[] = [
+  { section: 'general', pattern: /SIGNAGE/, division: '10' },
+  { section: 'general', pattern: /ROCK REMOVAL/, division: '31' },
+  { section: 'general', pattern: /AUDIO VISUAL/, division: '27' },
+  { section: 'general', pattern: /HYDRO ONE/, division: '33' },
+  { section: 'structural', pattern: /STEEL|DECK/, division: '05' },
+  { section: 'envelope', pattern: /BRICK/, division: '04' },
+  { section: 'finishes', pattern: /MILLWORK/, division: '06' },
+  { section: 'finishes', pattern: /WALLRAIL|DOOR PROTECTION/, division: '10' },
+  { section: 'specialties_equipment', pattern: /KITCHEN|PATIENT LIFTS/, division: '11' },
+  { section: 'specialties_equipment', pattern: /WINDOW COVERINGS/, division: '12' },
+  { section: 'specialties_equipment', pattern: /SPRINKLER/, division: '21' },
+  { section: 'civil', pattern: /^ASPHALT|^LANDSCAPE|CURBS|SIDEWALK|WALKWAY|CONCRETE SLAB|TACTILE/, division: '32' },
+  { section: 'civil', pattern: /^SWM|^ELECTRICAL EXCAVATION/, division: '33' },
+  { section: 'mechanical', pattern: /PLUMBING|DOMESTIC WATER|PROPANE/, division: '22' },
+  { section: 'mechanical', pattern: /CONTROLS/, division: '25' },
+  { section: 'electrical', pattern: /FIRE ALARM/, division: '28' },
+  { section: 'electrical', pattern: /NURSE CALL|VOICE\/DATA|CCTV|AV ALLOWANCE/, division: '27' },
+]
+
+export function defaultCrosswalk(pla: PlaEstimate): Crosswalk {
+  const sections: Record<string, string> = {}
+  const items: Record<string, string> = {}
+  for (const [section, { lines }] of Object.entries(pla.sections)) {
+    sections[section] = SECTION_DIVISIONS[section] ?? ''
+    for (const { item } of lines) {
+      const rule = ITEM_RULES.find(r => r.section === section && r.pattern.test(item))
+      if (rule) items[itemKey(section, item)] = rule.division
+    }
+  }
+  return { sections, items }
+}
+
+export interface MappedPlaLine {
+  section: string
+  item: string
+  cost: number
+  division: string
+}
+
+export function mapPlaLines(pla: PlaEstimate, crosswalk: Crosswalk): MappedPlaLine[] {
+  return Object.entries(pla.sections).flatMap(([section, { lines }]) =>
+    lines.map(({ item, cost }) => ({
+      section,
+      item,
+      cost,
+      division: crosswalk.items[itemKey(section, item)] ?? crosswalk.sections[section] ?? '',
+    })),
+  )
+}
+
+export interface ReconciliationRow {
+  division: string
+  engine: number
+  pla: number
+  variance: number
+  /** Engine vs. PLA in percent; null when PLA carries nothing in this division */
+  variancePct: number | null
+  plaLines: MappedPlaLine[]
+}
+
+export function reconcile(data: ProjectData, plaLines: MappedPlaLine[]): ReconciliationRow[] {
+  const divisions = new Set([...Object.keys(data.division_totals), ...plaLines.map(l => l.division)])
+  return [...divisions]
+    .map(division => {
+      const lines = plaLines.filter(l => l.division === division).sort((a, b) => b.cost - a.cost)
+      const engine = data.division_totals[division] ?? 0
+      const pla = lines.reduce((a, l) => a + l.cost, 0)
+      return {
+        division,
+        engine,
+        pla,
+        variance: engine - pla,
+        variancePct: pla > 0 ? (engine - pla) / pla * 100 : null,
+        plaLines: lines,
+      }
+    })
+    .sort((a, b) => a.division.localeCompare(b.division))
+}
+
+/** True when the PLA estimate is for this estimate's project; one that names no project covers none. */
+export const plaCoversProject = (pla: PlaEstimate, project: ProjectData['project']) =>
+  pla.project !== undefined && project.name.toLowerCase().startsWith(pla.project.toLowerCase())
+
+/**
+ * Fills in each section's PLA figure from the mapped PLA lines in its
+ * divisions. None of the shipped estimate files carry section PLA figures,
+ * so a section that has one of its own keeps it.
+ */
+export function withPlaSections(data: ProjectData, plaLines: MappedPlaLine[]): ProjectData {
+  return {
+    ...data,
+    sections: data.sections.map(s => s.pla > 0 ? s : {
+      ...s,
+      pla: plaLines.filter(l => s.divisions.includes(l.division)).reduce((a, l) => a + l.cost, 0),
+    }),
+  }
+}
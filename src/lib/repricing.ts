@@ -0,0 +1,139 @@
+import type { EstimateLine, ProjectData } from '../types'
+
+// ============================================================
+// RE-PRICING
+// Restates an estimate for another location and a later tender date. A
+// location move scales every rate by target index / source index; escalation
+// compounds month by month along an annual % curve from the report date to
+// the tender date. Both multiply each line's unit cost, and every total
+// scales with them so KPIs and charts follow.
+// ============================================================
+
+export interface LocationIndex {
+  location: string
+  /** Cost index relative to a common base; only ratios between rows matter */
+  index: number
+}
+
+export interface EscalationRate {
+  year: number
+  /** Annual escalation for the calendar year, percent */
+  pct: number
+}
+
+/** Where and when to restate the current estimate. */
+export interface RepricingTarget {
+  /** Location row to restate to; null keeps the project's own location */
+  location: string | null
+  /** Months from the report date to the assumed tender date */
+  months: number
+}
+
+export interface Repricing {
+  sourceLocation: string | null
+  sourceIndex: number
+  /** Whether the source index came from the estimate file rather than the table */
+  sourceFromFile: boolean
+  targetIndex: number
+  locationFactor: number
+  escalationFactor: number
+  factor: number
+  /** The estimate's report date; undefined when it records no usable one, and then it isn't escalated */
+  baseDate: Date | undefined
+  tenderDate: Date | undefined
+}
+
+// Starting values only; edit them to the index set the office prices with
+export const DEFAULT_LOCATION_INDICES: LocationIndex[] = [
+  { location: 'Toronto', index: 1.0 },
+  { location: 'Ottawa', index: 0.98 },
+  { location: 'Sudbury', index: 0.96 },
+  { location: 'North Bay', index: 0.95 },
+  { location: 'Sault Ste. Marie', index: 0.94 },
+  { location: 'Thunder Bay', index: 0.97 },
+  { location: 'Gore Bay', index: 0.92 },
+]
+
+export const DEFAULT_ESCALATION_CURVE: EscalationRate[] = [
+  { year: 2026, pct: 4 },
+  { year: 2027, pct: 3.5 },
+  { year: 2028, pct: 3 },
+]
+
+export const NO_REPRICING: RepricingTarget = { location: null, months: 0 }
+
+/** The table row whose name appears in the project's location text, longest name first. */
+export function matchLocation(indices: LocationIndex[], location: string): LocationIndex | undefined {
+  const text = location.toLowerCase()
+  return [...indices]
+    .sort((a, b) => b.location.length - a.location.length)
+    .find(row => row.location.trim() !== '' && text.includes(row.location.trim().toLowerCase()))
+}
+
+/** Compounds the curve monthly; years past either end of the curve use the nearest year's rate. */
+export function escalationFactor(curve: EscalationRate[], from: Date, months: number): number {
+  if (curve.length === 0 || months <= 0) return 1
+  const sorted = [...curve].sort((a, b) => a.year - b.year)
+  const rateFor = (year: number) => (sorted.filter(r => r.year <= year).pop() ?? sorted[0]).pct
+  let factor = 1
+  for (let m = 0; m < Math.round(months); m++) {
+    const year = new Date(from.getFullYear(), from.getMonth() + m, 1).getFullYear()
+    factor *= (1 + rateFor(year) / 100) ** (1 / 12)
+  }
+  return factor
+}
+
+const parseDate = (text: string) => {
+  const time = Date.parse(text)
+  return Number.isNaN(time) ? undefined : new Date(time)
+}
+
+export function repricingFor(project: ProjectData['project'], indices: LocationIndex[], curve: EscalationRate[], target: RepricingTarget): Repricing {
+  const matched = matchLocation(indices, project.location)
+  const fileIndex = project.location_factor
+  const sourceFromFile = fileIndex !== undefined && fileIndex > 0
+  const sourceIndex = sourceFromFile ? fileIndex : matched?.index ?? 1
+  const targetRow = target.location === null ? undefined : indices.find(r => r.location === target.location)
+  const targetIndex = targetRow?.index ?? sourceIndex
+  const locationFactor = sourceIndex > 0 ? targetIndex / sourceIndex : 1
+  const baseDate = parseDate(project.report_date)
+  const tenderDate = baseDate && new Date(baseDate.getFullYear(), baseDate.getMonth() + Math.round(target.months), baseDate.getDate())
+  // Escalating from an undated estimate would measure from whatever day the page is opened
+  const escalation = baseDate ? escalationFactor(curve, baseDate, target.months) : 1
+  return {
+    sourceLocation: matched?.location ?? null,
+    sourceIndex,
+    sourceFromFile,
+    targetIndex,
+    locationFactor,
+    escalationFactor: escalation,
+    factor: locationFactor * escalation,
+    baseDate,
+    tenderDate,
+  }
+}
+
+/** One line's rate and total scaled by `factor`. */
+export const repriceLine = (line: EstimateLine, factor: number): EstimateLine =>
+  factor === 1 ? line : { ...line, unit_cost: line.unit_cost * factor, total_cost: line.total_cost * factor }
+
+/**
+ * Every rate and total scaled by `factor`. PLA section figures and
+ * benchmarks are outside references and keep their recorded values; lump-sum
+ * markups stay as entered and percent markups follow the new direct cost.
+ */
+export function repriceEstimate(data: ProjectData, factor: number): ProjectData {
+  if (factor === 1) return data
+  return {
+    ...data,
+    summary: {
+      ...data.summary,
+      total_cost: data.summary.total_cost * factor,
+      cost_per_sf: data.summary.cost_per_sf * factor,
+      cost_per_unit: data.summary.cost_per_unit * factor,
+    },
+    sections: data.sections.map(s => ({ ...s, engine: s.engine * factor })),
+    division_totals: Object.fromEntries(Object.entries(data.division_totals).map(([div, v]) => [div, v * factor])),
+    lines: data.lines.map(l => repriceLine(l, factor)),
+  }
+}
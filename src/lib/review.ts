@@ -0,0 +1,226 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { fmt } from '../format'
+
+// ============================================================
+// ESTIMATOR REVIEW
+// A review belongs to one report (its report_number): a state and a comment
+// thread per line and per CSI division, the reviewer's name and, once the
+// reviewer is done, a sign-off. Lines are keyed by their position in the
+// file and remember the description they were reviewed against, the way
+// scenario overrides do, so a re-run under the same report number drops
+// stale reviews instead of moving them. A line with no state of its own
+// takes its division's. Any change after sign-off withdraws the sign-off.
+// ============================================================
+
+export type ReviewState = 'unreviewed' | 'accepted' | 'flagged' | 'adjusted'
+
+export const REVIEW_STATES: ReviewState[] = ['unreviewed', 'accepted', 'flagged', 'adjusted']
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  unreviewed: 'Unreviewed',
+  accepted: 'Accepted',
+  flagged: 'Flagged',
+  adjusted: 'Adjusted',
+}
+
+export interface ReviewComment {
+  author: string
+  /** ISO timestamp */
+  at: string
+  text: string
+}
+
+export interface ReviewItem {
+  state: ReviewState
+  comments: ReviewComment[]
+}
+
+export interface LineReview extends ReviewItem {
+  description: string
+}
+
+export interface SignOff {
+  reviewer: string
+  /** ISO timestamp */
+  signed_at: string
+  /** Direct cost and share of it reviewed when signed */
+  total_cost: number
+  reviewed_pct: number
+  flagged: number
+  note: string
+}
+
+export interface ReviewFile {
+  report_number: string
+  project: string
+  reviewer: string
+  updated: string
+  lines: Record<string, LineReview>
+  divisions: Record<string, ReviewItem>
+  signoff?: SignOff
+}
+
+export interface ReviewProgress {
+  /** Share of direct cost on lines that are reviewed, directly or through their division */
+  reviewedPct: number
+  reviewedCost: number
+  totalCost: number
+  /** Line counts by effective state */
+  counts: Record<ReviewState, number>
+}
+
+export const emptyReview = (data: ProjectData): ReviewFile => ({
+  report_number: data.project.report_number,
+  project: data.project.name,
+  reviewer: '',
+  updated: '',
+  lines: {},
+  divisions: {},
+})
+
+const UNREVIEWED: ReviewItem = { state: 'unreviewed', comments: [] }
+
+const isState = (v: unknown): v is ReviewState => REVIEW_STATES.includes(v as ReviewState)
+
+const isComment = (v: unknown): v is ReviewComment => {
+  const c = v as ReviewComment
+  return typeof v === 'object' && v !== null && typeof c.author === 'string' && typeof c.at === 'string' && typeof c.text === 'string'
+}
+
+function parseItem(raw: unknown): ReviewItem | null {
+  const item = raw as ReviewItem
+  if (typeof raw !== 'object' || raw === null || !isState(item.state)) return null
+  return { state: item.state, comments: Array.isArray(item.comments) ? item.comments.filter(isComment) : [] }
+}
+
+function parseItems<T>(raw: unknown, parse: (v: unknown) => T | null): Record<string, T> {
+  if (typeof raw !== 'object' || raw === null) return {}
+  return Object.fromEntries(Object.entries(raw).flatMap(([key, value]) => {
+    const item = parse(value)
+    return item ? [[key, item]] : []
+  }))
+}
+
+function parseSignOff(raw: unknown): SignOff | undefined {
+  const s = raw as SignOff
+  if (typeof raw !== 'object' || raw === null || typeof s.reviewer !== 'string' || typeof s.signed_at !== 'string') return undefined
+  const num = (v: unknown) => typeof v === 'number' && Number.isFinite(v) ? v : 0
+  return {
+    reviewer: s.reviewer,
+    signed_at: s.signed_at,
+    total_cost: num(s.total_cost),
+    reviewed_pct: num(s.reviewed_pct),
+    flagged: num(s.flagged),
+    note: typeof s.note === 'string' ? s.note : '',
+  }
+}
+
+/** Reads a stored or imported review; anything without a report number reads back as null. Malformed entries are dropped. */
+export function parseReviewFile(raw: unknown): ReviewFile | null {
+  const file = raw as ReviewFile
+  if (typeof raw !== 'object' || raw === null || typeof file.report_number !== 'string') return null
+  return {
+    report_number: file.report_number,
+    project: typeof file.project === 'string' ? file.project : '',
+    reviewer: typeof file.reviewer === 'string' ? file.reviewer : '',
+    updated: typeof file.updated === 'string' ? file.updated : '',
+    lines: parseItems(file.lines, v => {
+      const item = parseItem(v)
+      const description = (v as LineReview).description
+      return item && typeof description === 'string' ? { ...item, description } : null
+    }),
+    divisions: parseItems(file.divisions, parseItem),
+    signoff: parseSignOff(file.signoff),
+  }
+}
+
+/** The line's own review, if it was made against this line. */
+export function lineReview(review: ReviewFile, line: EstimateLine, index: number): ReviewItem {
+  const own = review.lines[index]
+  return own && own.description === line.description ? own : UNREVIEWED
+}
+
+export const divisionReview = (review: ReviewFile, division: string): ReviewItem => review.divisions[division] ?? UNREVIEWED
+
+/** The line's own state, or its division's when the line has none. */
+export function effectiveState(review: ReviewFile, line: EstimateLine, index: number): ReviewState {
+  const own = lineReview(review, line, index).state
+  return own !== 'unreviewed' ? own : divisionReview(review, line.csi_division).state
+}
+
+export function reviewProgress(review: ReviewFile, data: ProjectData): ReviewProgress {
+  const counts: Record<ReviewState, number> = { unreviewed: 0, accepted: 0, flagged: 0, adjusted: 0 }
+  let reviewedCost = 0
+  let totalCost = 0
+  data.lines.forEach((line, i) => {
+    const state = effectiveState(review, line, i)
+    counts[state]++
+    // Credits weigh by their size, so a negative line can't cancel out reviewed cost
+    const weight = Math.abs(line.total_cost)
+    totalCost += weight
+    if (state !== 'unreviewed') reviewedCost += weight
+  })
+  return { reviewedPct: totalCost > 0 ? reviewedCost / totalCost * 100 : 0, reviewedCost, totalCost, counts }
+}
+
+const touched = (review: ReviewFile, changes: Partial<ReviewFile>): ReviewFile =>
+  ({ ...review, ...changes, updated: new Date().toISOString(), signoff: undefined })
+
+const comment = (review: ReviewFile, text: string): ReviewComment =>
+  ({ author: review.reviewer || 'Anonymous', at: new Date().toISOString(), text })
+
+export function setLineState(review: ReviewFile, line: EstimateLine, index: number, state: ReviewState): ReviewFile {
+  const item = lineReview(review, line, index)
+  return touched(review, { lines: { ...review.lines, [index]: { ...item, state, description: line.description } } })
+}
+
+export function addLineComment(review: ReviewFile, line: EstimateLine, index: number, text: string): ReviewFile {
+  const item = lineReview(review, line, index)
+  return touched(review, {
+    lines: { ...review.lines, [index]: { ...item, comments: [...item.comments, comment(review, text)], description: line.description } },
+  })
+}
+
+export function setDivisionState(review: ReviewFile, division: string, state: ReviewState): ReviewFile {
+  const item = divisionReview(review, division)
+  return touched(review, { divisions: { ...review.divisions, [division]: { ...item, state } } })
+}
+
+export function addDivisionComment(review: ReviewFile, division: string, text: string): ReviewFile {
+  const item = divisionReview(review, division)
+  return touched(review, { divisions: { ...review.divisions, [division]: { ...item, comments: [...item.comments, comment(review, text)] } } })
+}
+
+/** The reviewer's name goes on comments made from now on; earlier comments keep theirs. */
+export const setReviewer = (review: ReviewFile, reviewer: string): ReviewFile => ({ ...review, reviewer, updated: new Date().toISOString() })
+
+export function signOff(review: ReviewFile, data: ProjectData, note: string): ReviewFile {
+  const progress = reviewProgress(review, data)
+  return {
+    ...review,
+    signoff: {
+      reviewer: review.reviewer,
+      signed_at: new Date().toISOString(),
+      total_cost: data.summary.total_cost,
+      reviewed_pct: Math.round(progress.reviewedPct * 10) / 10,
+      flagged: progress.counts.flagged,
+      note,
+    },
+  }
+}
+
+/** True when `totalCost` is the direct cost the reviewer signed off, to the dollar. */
+export const signOffCovers = (signoff: SignOff, totalCost: number) => Math.abs(totalCost - signoff.total_cost) < 0.5
+
+/**
+ * One line for reports: "Signed off by J. Smith on 2026-03-04 — 98.2% of cost reviewed, 3 lines flagged".
+ * Given the direct cost being reported, a sign-off made on other figures (re-priced, a scenario,
+ * a filtered subset) says so instead of vouching for them.
+ */
+export function signOffStatement(signoff: SignOff, totalCost?: number): string {
+  if (totalCost !== undefined && !signOffCovers(signoff, totalCost)) {
+    return `Signed off by ${signoff.reviewer} on ${signoff.signed_at.slice(0, 10)} at ${fmt(signoff.total_cost)}; figures since changed`
+  }
+  const flagged = signoff.flagged > 0 ? `, ${signoff.flagged} line${signoff.flagged === 1 ? '' : 's'} flagged` : ''
+  return `Signed off by ${signoff.reviewer} on ${signoff.signed_at.slice(0, 10)} — ${signoff.reviewed_pct}% of cost reviewed${flagged}`
+}
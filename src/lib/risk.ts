@@ -0,0 +1,209 @@
+import type { ProjectData } from '../types'
+import type { AccuracyRange } from './benchmarks'
+
+// ============================================================
+// COST RISK
+// Each line's cost is treated as uncertain around its point value, with a
+// spread set by its confidence level. A Monte Carlo run samples every line
+// independently and reports percentiles of the total, a histogram and the
+// lines and divisions that drive the spread. Runs are seeded, so the same
+// inputs always give the same figures.
+// ============================================================
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low'
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['high', 'medium', 'low']
+
+export type DistributionShape = 'triangular' | 'uniform'
+
+export interface CostDistribution {
+  shape: DistributionShape
+  /** Signed percent below the point value, e.g. -10 */
+  low: number
+  /** Signed percent above the point value, e.g. 15 */
+  high: number
+}
+
+export type RiskProfile = Record<ConfidenceLevel, CostDistribution>
+
+// Skewed upward: estimates miss scope more often than they overstate it
+export const DEFAULT_RISK_PROFILE: RiskProfile = {
+  high: { shape: 'triangular', low: -5, high: 5 },
+  medium: { shape: 'triangular', low: -10, high: 15 },
+  low: { shape: 'triangular', low: -20, high: 30 },
+}
+
+export interface RiskLine {
+  label: string
+  division: string
+  total: number
+  confidence: string
+}
+
+export interface SimulationRequest {
+  lines: RiskLine[]
+  profile: RiskProfile
+  iterations: number
+  /** The project's stated accuracy range, checked against the simulated spread */
+  range: AccuracyRange | null
+  seed: number
+}
+
+export interface HistogramBin {
+  from: number
+  to: number
+  count: number
+}
+
+export interface RiskDriver {
+  label: string
+  /** Change in the total with this item at its own P10 / P90 and everything else at its point value */
+  low: number
+  high: number
+  /** Share of the simulated variance of the total, 0–1 */
+  share: number
+}
+
+export interface SimulationResult {
+  iterations: number
+  /** Sum of line point values */
+  base: number
+  mean: number
+  p10: number
+  p50: number
+  p90: number
+  histogram: HistogramBin[]
+  lineDrivers: RiskDriver[]
+  divisionDrivers: RiskDriver[]
+  /** Fraction of runs inside the stated range around the base; null when none is stated */
+  withinRange: number | null
+}
+
+export const ITERATION_OPTIONS = [2_000, 10_000, 50_000]
+
+const HISTOGRAM_BINS = 40
+const TOP_DRIVERS = 10
+
+export const riskLines = (data: ProjectData): RiskLine[] =>
+  data.lines.map(l => ({ label: l.description, division: l.csi_division, total: l.total_cost, confidence: l.confidence }))
+
+// Lines with a confidence outside the three levels are treated as low, as the validator does
+const distributionFor = (profile: RiskProfile, confidence: string) =>
+  profile[confidence as ConfidenceLevel] ?? profile.low
+
+/** Multiplier on the point value at cumulative probability `u`. */
+export function quantileFactor(d: CostDistribution, u: number): number {
+  const a = 1 + d.low / 100
+  const b = 1 + d.high / 100
+  if (d.shape === 'uniform' || b <= a) return a + (b - a) * u
+  // Triangular with its mode at the point value (factor 1)
+  const c = Math.min(Math.max(1, a), b)
+  const split = (c - a) / (b - a)
+  return u < split
+    ? a + Math.sqrt(u * (b - a) * (c - a))
+    : b - Math.sqrt((1 - u) * (b - a) * (b - c))
+}
+
+/** mulberry32: small, fast and good enough for sampling. */
+function seededRandom(seed: number) {
+  let t = seed >>> 0
+  return () => {
+    t = (t + 0x6D2B79F5) >>> 0
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Linear-interpolated percentile of an ascending array, p in 0–1. */
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0
+  const pos = (sorted.length - 1) * p
+  const lo = Math.floor(pos)
+  const hi = Math.min(lo + 1, sorted.length - 1)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)
+}
+
+const topDrivers = (drivers: RiskDriver[]) =>
+  drivers.filter(d => d.share > 0 || d.low !== d.high).sort((a, b) => b.share - a.share).slice(0, TOP_DRIVERS)
+
+export function simulate({ lines, profile, iterations, range, seed }: SimulationRequest): SimulationResult {
+  const random = seededRandom(seed)
+  const n = lines.length
+  const dists = lines.map(l => distributionFor(profile, l.confidence))
+  const base = lines.reduce((a, l) => a + l.total, 0)
+
+  const divisions = [...new Set(lines.map(l => l.division))]
+  const divisionOf = lines.map(l => divisions.indexOf(l.division))
+  const divisionRuns = divisions.map(() => new Float64Array(iterations))
+
+  // Deviations from the point value keep the covariance sums well conditioned
+  const totals = new Float64Array(iterations)
+  const dev = new Float64Array(n)
+  const devSum = new Float64Array(n)
+  const devCross = new Float64Array(n)
+  let totalDevSum = 0
+  let totalDevSq = 0
+
+  for (let k = 0; k < iterations; k++) {
+    let t = 0
+    for (let i = 0; i < n; i++) {
+      dev[i] = lines[i].total * (quantileFactor(dists[i], random()) - 1)
+      t += dev[i]
+      divisionRuns[divisionOf[i]][k] += dev[i]
+    }
+    for (let i = 0; i < n; i++) {
+      devSum[i] += dev[i]
+      devCross[i] += dev[i] * t
+    }
+    totalDevSum += t
+    totalDevSq += t * t
+    totals[k] = base + t
+  }
+
+  // Cov(line, total) / Var(total): the line shares sum to 1 because lines are independent
+  const meanDev = totalDevSum / iterations
+  const variance = totalDevSq / iterations - meanDev * meanDev
+  const shareOf = (i: number) => variance > 0 ? (devCross[i] / iterations - devSum[i] / iterations * meanDev) / variance : 0
+
+  const lineDrivers = lines.map((l, i) => ({
+    label: l.label,
+    low: l.total * (quantileFactor(dists[i], 0.1) - 1),
+    high: l.total * (quantileFactor(dists[i], 0.9) - 1),
+    share: shareOf(i),
+  }))
+
+  const divisionShares = divisions.map(() => 0)
+  lines.forEach((_, i) => { divisionShares[divisionOf[i]] += shareOf(i) })
+  const divisionDrivers = divisions.map((div, d) => {
+    const runs = divisionRuns[d].sort()
+    return { label: div, low: percentile(runs, 0.1), high: percentile(runs, 0.9), share: divisionShares[d] }
+  })
+
+  totals.sort()
+  const min = totals[0] ?? base
+  const max = totals[iterations - 1] ?? base
+  const width = (max - min) / HISTOGRAM_BINS || 1
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, b) => ({ from: min + b * width, to: min + (b + 1) * width, count: 0 }))
+  for (const t of totals) histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((t - min) / width))].count++
+
+  let withinRange: number | null = null
+  if (range && iterations > 0) {
+    const lo = base * (1 + range.low / 100)
+    const hi = base * (1 + range.high / 100)
+    withinRange = totals.reduce((a, t) => a + (t >= lo && t <= hi ? 1 : 0), 0) / iterations
+  }
+
+  return {
+    iterations,
+    base,
+    mean: base + meanDev,
+    p10: percentile(totals, 0.1),
+    p50: percentile(totals, 0.5),
+    p90: percentile(totals, 0.9),
+    histogram,
+    lineDrivers: topDrivers(lineDrivers),
+    divisionDrivers: topDrivers(divisionDrivers),
+    withinRange,
+  }
+}
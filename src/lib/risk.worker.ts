@@ -0,0 +1,7 @@
+import { simulate, type SimulationRequest } from './risk'
+
+// Runs a simulation off the main thread. The request arrives as JSON text
+// (the same string the hook keys its result on) and the result goes back whole.
+self.onmessage = (e: MessageEvent<string>) => {
+  self.postMessage(simulate(JSON.parse(e.data) as SimulationRequest))
+}
@@ -0,0 +1,105 @@
+import type { SheetPage, SheetRoom } from '../data/qsExtraction'
+
+// ============================================================
+// ROOM SCHEDULE
+// Rooms found on the drawing sheets, consolidated across pages and
+// disciplines (the kitchen appears on architectural, electrical and
+// foodservice sheets alike). A room's area is its stated area_sf, or width
+// × length when both dimensions read as numbers. The summed area is then
+// checked against the project's gross floor area.
+// ============================================================
+
+export interface RoomScheduleRow {
+  number: string
+  name: string
+  floor?: string
+  area?: number
+  areaSource?: 'stated' | 'dimensions'
+  sheets: { discipline: string; page: number }[]
+}
+
+// Placeholders the vision model writes instead of a value
+const PLACEHOLDER = /^(various|varies|n\/?a|not specified|not applicable|tbd|-+)$/i
+
+const clean = (value: string) => PLACEHOLDER.test(value.trim()) ? '' : value.trim()
+
+/** 250, "1,250", "1250 SF" or "1,250 sq ft" → number of square feet. */
+function parseArea(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value : undefined
+  if (typeof value !== 'string') return undefined
+  const match = value.replace(/,/g, '').match(/^\s*(\d+(?:\.\d+)?)\s*(sf|sq\.?\s*ft\.?|ft²|ft2)?\s*$/i)
+  const n = match ? Number(match[1]) : NaN
+  return n > 0 ? n : undefined
+}
+
+/** 12, "12.5", "12'", "12'-6\"" → feet. */
+function parseFeet(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:'|ft)?\s*(?:-?\s*(\d+(?:\.\d+)?)\s*(?:"|in))?$/i)
+  if (!match) return undefined
+  const feet = Number(match[1]) + (match[2] ? Number(match[2]) / 12 : 0)
+  return feet > 0 ? feet : undefined
+}
+
+function roomArea(room: SheetRoom): Pick<RoomScheduleRow, 'area' | 'areaSource'> {
+  const stated = parseArea(room.area_sf)
+  if (stated !== undefined) return { area: stated, areaSource: 'stated' }
+  const width = parseFeet(room.width)
+  const length = parseFeet(room.length)
+  if (width !== undefined && length !== undefined) return { area: width * length, areaSource: 'dimensions' }
+  return {}
+}
+
+/**
+ * One row per distinct room: keyed by number and name when the room is
+ * numbered, by name alone otherwise. Summary entries ("Multiple rooms
+ * shown") are dropped. Of several sightings, a stated area wins over one
+ * from dimensions, and the first sighting wins among equals.
+ */
+export function buildRoomSchedule(pages: SheetPage[]): RoomScheduleRow[] {
+  const rows = new Map<string, RoomScheduleRow>()
+  for (const page of pages) {
+    for (const room of page.rooms) {
+      const name = clean(room.name)
+      const number = clean(room.number)
+      if (!name && !number) continue
+      if (/^multiple\b/i.test(name)) continue
+      const key = `${number.toLowerCase()}|${name.toLowerCase()}`
+      const sheet = { discipline: page.discipline, page: page.page }
+      const area = roomArea(room)
+      const row = rows.get(key)
+      if (!row) {
+        rows.set(key, { number, name, floor: page.floor, ...area, sheets: [sheet] })
+        continue
+      }
+      row.sheets.push(sheet)
+      if (area.area !== undefined && (row.area === undefined || (row.areaSource === 'dimensions' && area.areaSource === 'stated'))) {
+        Object.assign(row, area)
+      }
+    }
+  }
+  return [...rows.values()]
+}
+
+export type AreaCheckVerdict = 'no_areas' | 'no_gfa' | 'exceeds' | 'plausible' | 'incomplete'
+
+export interface AreaCheck {
+  total: number
+  withArea: number
+  withoutArea: number
+  /** Summed room area / gross floor area; null without a GFA */
+  ratio: number | null
+  verdict: AreaCheckVerdict
+}
+
+// Net room area normally runs 70–100% of gross; walls, shafts and circulation take the rest
+const MIN_NET_TO_GROSS = 0.7
+
+export function checkRoomAreas(rows: RoomScheduleRow[], grossFloorArea: number): AreaCheck {
+  const withArea = rows.filter(r => r.area !== undefined)
+  const total = withArea.reduce((a, r) => a + (r.area ?? 0), 0)
+  const ratio = grossFloorArea > 0 ? total / grossFloorArea : null
+  const verdict: AreaCheckVerdict = withArea.length === 0 ? 'no_areas'
+    : ratio === null ? 'no_gfa'
+      : ratio > 1 ? 'exceeds' : ratio >= MIN_NET_TO_GROSS ? 'plausible' : 'incomplete'
+  return { total, withArea: withArea.length, withoutArea: rows.length - withArea.length, ratio, verdict }
+}
@@ -0,0 +1,62 @@
+import { useNavigate, useParams, useSearchParams, type To } from 'react-router'
+import { DEFAULT_ESTIMATE_ID } from '../data/catalog'
+
+// ============================================================
+// DASHBOARD ROUTE
+// /:estimateId/:tab carries where you are; the query string carries what
+// you are looking at: the line filter, expanded groups per tab
+// (`open.qs=03&open.qs=09`) and a focused line (`line=<index in file>`).
+// Changing estimate, tab or focus adds a history entry; expanding groups
+// and editing the filter replace the current one.
+// ============================================================
+
+export type ExpansionScope = 'qs' | 'details'
+
+const openParam = (scope: ExpansionScope) => `open.${scope}`
+
+export function useDashboardRoute() {
+  const { estimateId = DEFAULT_ESTIMATE_ID, tab = 'overview' } = useParams()
+  const [params, setParams] = useSearchParams()
+  const navigate = useNavigate()
+
+  const line = params.get('line')
+  const focusedLine = line !== null && /^\d+$/.test(line) ? Number(line) : null
+
+  return {
+    estimateId,
+    tab,
+    focusedLine,
+
+    /** Link target for a tab, keeping the current filter, expansion and focus. */
+    tabTarget: (id: string): To => ({ pathname: `/${estimateId}/${id}`, search: params.toString() }),
+
+    /** Link target for a line on a schedule tab; the filter is dropped so the line can't be hidden by it. */
+    lineTarget: (id: string, index: number): To => ({ pathname: `/${estimateId}/${id}`, search: new URLSearchParams({ line: String(index) }).toString() }),
+
+    /** Another estimate's lines and groups differ, so only the filter carries over. */
+    setEstimate: (id: string) => {
+      const next = new URLSearchParams(params)
+      next.delete('line')
+      for (const key of [...next.keys()]) if (key.startsWith('open.')) next.delete(key)
+      navigate({ pathname: `/${id}/${tab}`, search: next.toString() })
+    },
+
+    expanded: (scope: ExpansionScope) => new Set(params.getAll(openParam(scope))),
+
+    toggleExpanded: (scope: ExpansionScope, key: string) => setParams(prev => {
+      const next = new URLSearchParams(prev)
+      const open = next.getAll(openParam(scope))
+      next.delete(openParam(scope))
+      const updated = open.includes(key) ? open.filter(k => k !== key) : [...open, key]
+      updated.forEach(k => next.append(openParam(scope), k))
+      return next
+    }, { replace: true }),
+
+    focusLine: (index: number | null) => setParams(prev => {
+      const next = new URLSearchParams(prev)
+      if (index === null) next.delete('line')
+      else next.set('line', String(index))
+      return next
+    }),
+  }
+}
@@ -0,0 +1,123 @@
+import type { EstimateLine, ProjectData } from '../types'
+import { repriceLine } from './repricing'
+
+// ============================================================
+// WHAT-IF SCENARIOS
+// A scenario is a patch over the base estimate: per-line overrides of
+// quantity and unit rate, keyed by the line's position in the file. Each
+// override remembers the description it was made against so a re-run that
+// reorders the lines drops stale overrides instead of moving them.
+// A scenario can also add whole lines (e.g. an assembly takeoff); they are
+// appended after the file's lines. Override rates and added lines are kept
+// at the file's rates and re-priced with the rest of the estimate, so they
+// follow a change of location or tender date.
+// ============================================================
+
+export interface LineOverride {
+  description: string
+  quantity?: number
+  /** At the file's rate, before re-pricing */
+  unit_cost?: number
+}
+
+export interface Scenario {
+  id: string
+  name: string
+  overrides: Record<string, LineOverride>
+  /** Lines the scenario adds to the estimate; absent on scenarios saved before lines could be added */
+  added?: EstimateLine[]
+}
+
+export interface ScenarioResult {
+  data: ProjectData
+  /** Base line for every line the scenario changed, keyed by the revised line. */
+  originals: Map<EstimateLine, EstimateLine>
+  /** Overrides that no longer match a line in this file. */
+  skipped: number
+}
+
+export const newScenario = (name: string): Scenario => ({ id: crypto.randomUUID(), name, overrides: {} })
+
+/** `repricing` is the factor `base` was re-priced by, applied to the scenario's rates too. */
+export function applyScenario(base: ProjectData, scenario: Scenario, repricing = 1): ScenarioResult {
+  const originals = new Map<EstimateLine, EstimateLine>()
+  const divisionDeltas: Record<string, number> = {}
+  let skipped = 0
+
+  const lines = base.lines.map((line, i) => {
+    const override = scenario.overrides[i]
+    if (!override) return line
+    if (override.description !== line.description) {
+      skipped++
+      return line
+    }
+    const quantity = override.quantity ?? line.quantity
+    const unit_cost = override.unit_cost !== undefined ? override.unit_cost * repricing : line.unit_cost
+    // Scale the file's total rather than re-extend it, so a factor baked into the total (e.g. a CCI) survives
+    const extension = line.quantity * line.unit_cost
+    const total_cost = extension !== 0 ? line.total_cost * (quantity * unit_cost) / extension : quantity * unit_cost
+    const revised = { ...line, quantity, unit_cost, total_cost }
+    divisionDeltas[line.csi_division] = (divisionDeltas[line.csi_division] || 0) + revised.total_cost - line.total_cost
+    originals.set(revised, line)
+    return revised
+  })
+  skipped += Object.keys(scenario.overrides).filter(i => !base.lines[Number(i)]).length
+  const added = (scenario.added ?? []).map(line => repriceLine(line, repricing))
+  for (const line of added) divisionDeltas[line.csi_division] = (divisionDeltas[line.csi_division] || 0) + line.total_cost
+
+  const delta = Object.values(divisionDeltas).reduce((a, b) => a + b, 0)
+  const total = base.summary.total_cost + delta
+  const { gross_floor_area_sf: gfa, units } = base.project
+  const division_totals = { ...base.division_totals }
+  for (const [div, d] of Object.entries(divisionDeltas)) division_totals[div] = (division_totals[div] || 0) + d
+
+  return {
+    data: {
+      ...base,
+      summary: {
+        ...base.summary,
+        total_cost: total,
+        cost_per_sf: gfa > 0 ? total / gfa : base.summary.cost_per_sf,
+        cost_per_unit: units > 0 ? total / units : base.summary.cost_per_unit,
+      },
+      sections: base.sections.map(s => {
+        const engine = s.engine + s.divisions.reduce((a, div) => a + (divisionDeltas[div] || 0), 0)
+        return { ...s, engine, pct: total > 0 ? engine / total * 100 : 0 }
+      }),
+      division_totals,
+      lines: [...lines, ...added],
+    },
+    originals,
+    skipped,
+  }
+}
+
+/** Sets or clears overrides on one file line (before re-pricing); a value equal to the file's is dropped from the patch. */
+export function overrideLine(
+  scenario: Scenario, index: number, base: EstimateLine, patch: { quantity?: number; unit_cost?: number },
+): Scenario {
+  const next: LineOverride = { ...scenario.overrides[index], ...patch, description: base.description }
+  if (next.quantity === base.quantity) delete next.quantity
+  // Rates arrive divided back from the re-priced figure, so equal only to rounding
+  if (next.unit_cost !== undefined && Math.abs(next.unit_cost - base.unit_cost) <= Math.abs(base.unit_cost) * 1e-9) delete next.unit_cost
+  const overrides = { ...scenario.overrides }
+  if (next.quantity === undefined && next.unit_cost === undefined) delete overrides[index]
+  else overrides[index] = next
+  return { ...scenario, overrides }
+}
+
+export const addLines = (scenario: Scenario, lines: EstimateLine[]): Scenario =>
+  ({ ...scenario, added: [...scenario.added ?? [], ...lines] })
+
+/** Edits quantity or rate on one added line; `index` counts from the first added line, and the rate is at base prices. */
+export function editAddedLine(scenario: Scenario, index: number, patch: { quantity?: number; unit_cost?: number }): Scenario {
+  const added = (scenario.added ?? []).map((line, i) => {
+    if (i !== index) return line
+    const next = { ...line, ...patch }
+    return { ...next, total_cost: next.quantity * next.unit_cost }
+  })
+  return { ...scenario, added }
+}
+
+export const removeAddedLine = (scenario: Scenario, index: number): Scenario =>
+  ({ ...scenario, added: (scenario.added ?? []).filter((_, i) => i !== index) })
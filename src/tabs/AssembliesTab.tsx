@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { Boxes, Calculator, CheckCircle2, Eraser, ListPlus } from 'lucide-react'
+import { fmt } from '../format'
+import { HANSCOMB_ASSEMBLIES_PATH } from '../data/catalog'
+import { parseAssemblyLibrary, type AssemblyGroup } from '../data/assemblies'
+import { useFetchedJson } from '../data/useFetchedJson'
+import { readStored, writeStored } from '../data/storage'
+import { useMeasures } from '../lib/measures'
+import { assemblyKey, assemblyLine, priceTakeoff, type Takeoff } from '../lib/assemblies'
+import { addLines, newScenario, type Scenario } from '../lib/scenarios'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600'
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1 rounded-lg border border-slate-700 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-500 disabled:opacity-40'
+
+const NEW_SCENARIO = 'new'
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function AssembliesTab(props: {
+  estimateId: string
+  scenarios: Scenario[]
+  active?: Scenario
+  onSave: (scenarios: Scenario[], activeId?: string | null) => void
+}) {
+  const library = useFetchedJson(HANSCOMB_ASSEMBLIES_PATH, parseAssemblyLibrary)
+  if (library.status === 'loading') return <div className="animate-pulse text-slate-400 text-sm">Loading assembly library...</div>
+  if (library.status === 'error') {
+    return <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">{library.error}</div>
+  }
+  return <AssembliesView groups={library.value} {...props} />
+}
+
+function AssembliesView({ groups, estimateId, scenarios, active, onSave }: {
+  groups: AssemblyGroup[]
+  estimateId: string
+  scenarios: Scenario[]
+  active?: Scenario
+  onSave: (scenarios: Scenario[], activeId?: string | null) => void
+}) {
+  const m = useMeasures()
+  const storageKey = `assembly-takeoff.${estimateId}`
+  const [takeoff, setTakeoff] = useState<Takeoff>(() => readStored(storageKey, {}))
+  const [target, setTarget] = useState(active?.id ?? NEW_SCENARIO)
+  const [inserted, setInserted] = useState<{ count: number; scenario: string } | null>(null)
+
+  const saveTakeoff = (next: Takeoff) => {
+    writeStored(storageKey, next)
+    setTakeoff(next)
+    setInserted(null)
+  }
+
+  const priced = priceTakeoff(groups, takeoff)
+  const total = priced.reduce((a, l) => a + l.total, 0)
+  const targetScenario = scenarios.find(s => s.id === target)
+
+  const insert = () => {
+    const lines = priced.map(assemblyLine)
+    const scenario = addLines(targetScenario ?? newScenario(`Scenario ${scenarios.length + 1}`), lines)
+    onSave(targetScenario ? scenarios.map(s => s.id === scenario.id ? scenario : s) : [...scenarios, scenario], scenario.id)
+    setTarget(scenario.id)
+    saveTakeoff({})
+    setInserted({ count: lines.length, scenario: scenario.name })
+  }
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6 items-start">
+      {/* Library */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Boxes size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Hanscomb Assembly Library</h3>
+          </div>
+          <p className="text-sm text-slate-500">
+            Assembly rates as priced in the Hanscomb estimate, with the quantity each was priced at there. Enter a quantity against
+            any assembly to price it; the takeoff can then be added to a what-if scenario as new lines. Rates are used as recorded
+            and aren't re-priced for location or escalation.
+          </p>
+        </div>
+
+        {groups.map(group => (
+          <div key={group.key} className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+            <div className="p-4 px-6 border-b border-slate-800 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">{group.name}</h3>
+              <span className="text-xs text-slate-600">Div {group.division} · {group.element.split('_')[0]}</span>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                  <th className="text-left p-3 pl-6">Assembly</th>
+                  <th className="text-right p-3">Rate</th>
+                  <th className="text-right p-3">Reference qty</th>
+                  <th className="text-right p-3 pr-6">Takeoff</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.assemblies.map(assembly => {
+                  const key = assemblyKey(group, assembly)
+                  const factor = m.quantityFactor(assembly.unit)
+                  const shown = m.line(assemblyLine({ group, assembly, quantity: 1, total: assembly.rate }))
+                  const entered = takeoff[key]
+                  return (
+                    <tr key={key} className="border-b border-slate-800/30 text-sm align-top">
+                      <td className="p-3 pl-6">
+                        <div className="text-slate-300"><span className="font-mono text-slate-500 mr-2">{assembly.code}</span>{assembly.description}</div>
+                        {assembly.components.map((c, i) => (
+                          <div key={i} className="text-xs text-slate-600 mt-1 pl-4">
+                            {c.material} <span className="font-mono">{money(c.rate)}/{c.unit}</span>
+                          </div>
+                        ))}
+                      </td>
+                      <td className="p-3 text-right font-mono text-slate-300 whitespace-nowrap">{money(shown.unit_cost)}/{shown.unit}</td>
+                      <td className="p-3 text-right font-mono text-xs text-slate-500 whitespace-nowrap">
+                        {assembly.referenceQuantity !== undefined
+                          ? `${(assembly.referenceQuantity * factor).toLocaleString(undefined, { maximumFractionDigits: 0 })} ${shown.unit}`
+                          : '—'}
+                        {assembly.referenceTotal !== undefined && <div className="text-slate-600">{fmt(assembly.referenceTotal)}</div>}
+                      </td>
+                      <td className="p-3 pr-6 text-right">
+                        <input
+                          key={entered ?? 0}
+                          type="number" min={0}
+                          defaultValue={entered !== undefined ? Math.round(entered * factor * 100) / 100 : ''}
+                          placeholder="0"
+                          onBlur={e => {
+                            const value = Math.max(0, Number(e.target.value) || 0) / factor
+                            if (value === (entered ?? 0)) return
+                            const next = { ...takeoff }
+                            if (value > 0) next[key] = value
+                            else delete next[key]
+                            saveTakeoff(next)
+                          }}
+                          className={`${inputClass} w-24 text-right`}
+                          aria-label={`${assembly.code} quantity in ${shown.unit}`}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      {/* Takeoff */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4 lg:sticky lg:top-36">
+        <div className="flex items-center gap-2">
+          <Calculator size={16} className="text-cyan-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Takeoff</h3>
+        </div>
+        {priced.length === 0 ? (
+          <p className="text-sm text-slate-500">Enter a quantity against an assembly to start a takeoff.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {priced.map(line => {
+                const shown = m.line(assemblyLine(line))
+                return (
+                  <div key={assemblyKey(line.group, line.assembly)} className="flex items-baseline justify-between gap-3 text-sm">
+                    <span className="min-w-0">
+                      <span className="font-mono text-slate-400">{line.assembly.code}</span>
+                      <span className="text-xs text-slate-600 ml-2">{shown.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })} {shown.unit}</span>
+                    </span>
+                    <span className="font-mono text-slate-300">{fmt(line.total)}</span>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="flex items-baseline justify-between border-t border-slate-800 pt-3">
+              <span className="text-sm font-semibold text-slate-400">Sub-estimate</span>
+              <span className="text-lg font-bold font-mono text-emerald-400">{fmt(total)}</span>
+            </div>
+            <label className="block text-xs text-slate-500 space-y-1">
+              <span>Add to</span>
+              <select value={targetScenario ? target : NEW_SCENARIO} onChange={e => setTarget(e.target.value)} className={`${inputClass} w-full`}>
+                <option value={NEW_SCENARIO}>New scenario</option>
+                {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </label>
+            <div className="flex gap-2">
+              <button onClick={insert} className={`${buttonClass} text-emerald-400 border-emerald-800 hover:border-emerald-600`}>
+                <ListPlus size={12} /> Add {priced.length} line{priced.length === 1 ? '' : 's'}
+              </button>
+              <button onClick={() => saveTakeoff({})} className={buttonClass}>
+                <Eraser size={12} /> Clear
+              </button>
+            </div>
+          </>
+        )}
+        {inserted && (
+          <p className="flex items-start gap-2 text-xs text-emerald-400">
+            <CheckCircle2 size={14} className="shrink-0" />
+            {inserted.count} line{inserted.count === 1 ? '' : 's'} added to “{inserted.scenario}”, now the active scenario. They show on the Quantity Survey tab.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { Link, type To } from 'react-router'
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, MinusCircle, ShieldCheck } from 'lucide-react'
+import type { ProjectData } from '../types'
+import type { AuditCheck, AuditReport } from '../lib/audit'
+
+const FINDINGS_SHOWN = 10
+
+/** Pass/fail report of the file's arithmetic; line findings link to the line in the QS schedule. */
+export function AuditTab({ data, report, lineTarget }: {
+  /** The estimate file as loaded, which the report was run on */
+  data: ProjectData
+  report: AuditReport
+  lineTarget: (index: number) => To
+}) {
+  const failed = report.checks.filter(c => c.status === 'fail').length
+  const passed = report.checks.filter(c => c.status === 'pass').length
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <div className="flex items-center gap-2 mb-2">
+          <ShieldCheck size={16} className="text-emerald-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Arithmetic Audit</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-3">
+          Checks that the estimate's numbers agree with each other, on the file as loaded: before re-pricing, what-if
+          scenarios or the filter. Differences within $1 or 0.1% are treated as rounding.
+        </p>
+        <p className={`flex items-center gap-2 text-sm ${failed > 0 ? 'text-amber-300' : 'text-emerald-300'}`}>
+          {failed > 0 ? <AlertTriangle size={16} /> : <CheckCircle2 size={16} />}
+          {passed} of {report.checks.length} checks pass
+          {failed > 0 && `, ${failed} fail`}
+          {report.lineFindings.size > 0 && ` · ${report.lineFindings.size.toLocaleString()} lines flagged in the schedule`}
+        </p>
+      </div>
+
+      {report.checks.map(check => <CheckCard key={check.id} check={check} data={data} lineTarget={lineTarget} />)}
+    </div>
+  )
+}
+
+function CheckCard({ check, data, lineTarget }: { check: AuditCheck; data: ProjectData; lineTarget: (index: number) => To }) {
+  const [showAll, setShowAll] = useState(false)
+  const findings = showAll ? check.findings : check.findings.slice(0, FINDINGS_SHOWN)
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+      <div className="p-4 px-6 flex items-start gap-3">
+        {check.status === 'pass' && <CheckCircle2 size={16} className="mt-0.5 shrink-0 text-emerald-400" />}
+        {check.status === 'fail' && <AlertTriangle size={16} className="mt-0.5 shrink-0 text-amber-400" />}
+        {check.status === 'skipped' && <MinusCircle size={16} className="mt-0.5 shrink-0 text-slate-600" />}
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-slate-200">{check.label}</p>
+          <p className="text-sm text-slate-500">{check.detail}</p>
+        </div>
+      </div>
+      {findings.length > 0 && (
+        <div className="border-t border-slate-800">
+          {findings.map((finding, i) => {
+            const line = finding.line !== undefined ? data.lines[finding.line] : undefined
+            return (
+              <div key={i} className="px-6 py-2 border-b border-slate-800/30 text-sm">
+                {line && finding.line !== undefined && (
+                  <Link to={lineTarget(finding.line)} className="block text-slate-300 hover:text-emerald-300 truncate" title="Show in the QS schedule">
+                    <span className="font-mono text-xs text-slate-600 mr-2">#{finding.line + 1}</span>
+                    {line.description}
+                  </Link>
+                )}
+                <p className={`font-mono text-xs ${line ? 'text-slate-500 pl-8' : 'text-slate-400'}`}>{finding.message}</p>
+              </div>
+            )
+          })}
+          {check.findings.length > FINDINGS_SHOWN && (
+            <button onClick={() => setShowAll(!showAll)} className="flex items-center gap-1 px-6 py-3 text-xs text-slate-500 hover:text-slate-300">
+              {showAll ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              {showAll ? `Show the first ${FINDINGS_SHOWN}` : `Show all ${check.findings.length.toLocaleString()}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine,
+} from 'recharts'
+import { AlertTriangle, CheckCircle2, DollarSign, Scale } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt, fmtK, fmtPct } from '../format'
+import { StatCard } from '../components/StatCard'
+import { useMeasures } from '../lib/measures'
+import { compareToBenchmarks, parseAccuracyRange, sectionVariances } from '../lib/benchmarks'
+
+const signed = (n: number, format: (n: number) => string) => `${n >= 0 ? '+' : '−'}${format(Math.abs(n))}`
+
+export function BenchmarksTab({ data }: { data: ProjectData }) {
+  const m = useMeasures()
+  const comparisons = compareToBenchmarks(data)
+  const range = parseAccuracyRange(data.project.confidence_range)
+  const variances = sectionVariances(data)
+  const estimatePerArea = m.perArea(data.summary.total_cost, data.project.gross_floor_area_sf)
+
+  if (comparisons.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-500">
+        This estimate file carries no benchmarks block, so there is nothing to compare against.
+      </div>
+    )
+  }
+
+  const chartData = [
+    { name: 'This Estimate', total: data.summary.total_cost, perArea: estimatePerArea, color: '#059669' },
+    ...comparisons.map(c => ({
+      name: c.label, total: c.benchmark.total, perArea: m.areaRate(c.benchmark.cost_per_sf),
+      color: c.withinRange === false ? '#dc2626' : '#0891b2',
+    })),
+  ]
+
+  return (
+    <div className="space-y-8">
+      {/* KPI Cards */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard icon={DollarSign} label="This Estimate" value={fmtK(data.summary.total_cost)} sub={`$${estimatePerArea.toFixed(2)}/${m.areaUnit}`} accent="emerald" />
+        {comparisons.map(c => (
+          <StatCard
+            key={c.key}
+            icon={Scale}
+            label={c.label}
+            value={fmtK(c.benchmark.total)}
+            sub={`$${m.areaRate(c.benchmark.cost_per_sf).toFixed(2)}/${m.areaUnit} · estimate ${signed(c.variancePct, fmtPct)}`}
+            accent={c.withinRange === false ? 'amber' : 'cyan'}
+          />
+        ))}
+      </div>
+
+      {/* Range callouts */}
+      <div className="space-y-3">
+        {!range && (
+          <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4 text-sm text-slate-500">
+            The project states no parseable accuracy range ("{data.project.confidence_range}"), so benchmark variances are not checked.
+          </div>
+        )}
+        {range && comparisons.map(c => {
+          const ok = c.withinRange
+          return (
+            <div key={c.key} className={`rounded-xl border p-4 flex items-start gap-3 ${ok ? 'border-emerald-800/50 bg-emerald-950/20' : 'border-amber-800/50 bg-amber-950/20'}`}>
+              {ok ? <CheckCircle2 size={18} className="text-emerald-400 mt-0.5" /> : <AlertTriangle size={18} className="text-amber-400 mt-0.5" />}
+              <div className="text-sm">
+                <p className={ok ? 'text-emerald-300' : 'text-amber-300'}>
+                  {ok ? 'Within' : 'Outside'} the stated {data.project.confidence_range} range of {c.label}: {signed(c.variancePct, fmtPct)} on $/{m.areaUnit} ({signed(c.varianceTotal, fmt)})
+                </p>
+                <p className="text-xs text-slate-500 mt-1">{c.benchmark.note}</p>
+              </div>
+            </div>
+          )
+        })}
+        {data.pla_actual !== undefined && (
+          <p className="text-xs text-slate-500">PLA contractor actual on record: {fmt(data.pla_actual)}</p>
+        )}
+      </div>
+
+      {/* Totals and $/area */}
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-6">Total Cost</h3>
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="name" tick={{ fill: '#94a3b8', fontSize: 11 }} />
+              <YAxis tickFormatter={(v: number) => fmtK(v)} tick={{ fill: '#64748b', fontSize: 11 }} />
+              <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }} formatter={value => fmt(Number(value))} />
+              <Bar dataKey="total" name="Total" radius={[4, 4, 0, 0]}>
+                {chartData.map(d => <Cell key={d.name} fill={d.color} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-6">Cost per {m.areaUnit}</h3>
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="name" tick={{ fill: '#94a3b8', fontSize: 11 }} />
+              <YAxis tickFormatter={(v: number) => `$${v.toFixed(0)}`} tick={{ fill: '#64748b', fontSize: 11 }} />
+              <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }} formatter={value => `$${Number(value).toFixed(2)}/${m.areaUnit}`} />
+              <Bar dataKey="perArea" name={`$/${m.areaUnit}`} radius={[4, 4, 0, 0]}>
+                {chartData.map(d => <Cell key={d.name} fill={d.color} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Per-section variance */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-6">Section Variance — Engine vs. PLA</h3>
+        {variances.length === 0 ? (
+          <p className="text-sm text-slate-500">The sections in this estimate carry no PLA figures, so per-section variance is not available.</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={variances} margin={{ top: 0, right: 0, left: 0, bottom: 60 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="name" angle={-35} textAnchor="end" height={80} tick={{ fill: '#94a3b8', fontSize: 11 }} />
+                <YAxis tickFormatter={(v: number) => fmtK(Math.abs(v))} tick={{ fill: '#64748b', fontSize: 11 }} />
+                <ReferenceLine y={0} stroke="#475569" />
+                <Tooltip contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }} formatter={value => signed(Number(value), fmt)} />
+                <Bar dataKey="variance" name="Engine − PLA" radius={[4, 4, 0, 0]}>
+                  {variances.map(v => <Cell key={v.name} fill={v.variance >= 0 ? '#ea580c' : '#0891b2'} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+            <table className="w-full mt-4">
+              <thead>
+                <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                  <th className="text-left p-3">Section</th>
+                  <th className="text-right p-3">Engine</th>
+                  <th className="text-right p-3">PLA</th>
+                  <th className="text-right p-3">Variance</th>
+                  <th className="text-right p-3">%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variances.map(v => (
+                  <tr key={v.name} className="border-b border-slate-800/50 hover:bg-slate-800/30 text-sm">
+                    <td className="p-3 text-slate-300">{v.name}</td>
+                    <td className="text-right p-3 font-mono text-slate-300">{fmt(v.engine)}</td>
+                    <td className="text-right p-3 font-mono text-slate-400">{fmt(v.pla)}</td>
+                    <td className={`text-right p-3 font-mono ${v.variance >= 0 ? 'text-orange-400' : 'text-cyan-400'}`}>{signed(v.variance, fmt)}</td>
+                    <td className="text-right p-3 font-mono text-slate-500">{signed(v.variancePct, fmtPct)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
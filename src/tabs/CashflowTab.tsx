@@ -0,0 +1,272 @@
+import { useState } from 'react'
+import {
+  Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts'
+import { CalendarRange, Download, RotateCcw, Wallet } from 'lucide-react'
+import type { Markup, ProjectData } from '../types'
+import { fmt, fmtK, fmtPct } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import { readStored, writeStored } from '../data/storage'
+import { StatCard } from '../components/StatCard'
+import { applyMarkups } from '../lib/markups'
+import { downloadBlob, fileStem } from '../lib/download'
+import {
+  DEFAULT_PHASING, PHASE_CURVES, PHASE_CURVE_LABELS, addMonths, buildCashflow, defaultCashflowSettings, phaseFor,
+  type CashflowSettings, type DivisionPhase,
+} from '../lib/cashflow'
+import { cashflowTable, cashflowToCsv, cashflowToXlsx } from '../lib/cashflowExport'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600'
+const tooltipStyle = { background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }
+
+const monthLabel = (month: string) => {
+  const [year, m] = month.split('-').map(Number)
+  return new Date(year, m - 1).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+}
+
+const clampPct = (n: number) => Math.min(100, Math.max(0, Math.round(n)))
+
+export function CashflowTab({ estimateId, data, markups }: {
+  estimateId: string
+  /** The whole estimate, with re-pricing and the active scenario */
+  data: ProjectData
+  markups: Markup[]
+}) {
+  const storageKey = `cashflow.${estimateId}`
+  const [settings, setSettings] = useState(() =>
+    readStored<CashflowSettings>(storageKey, defaultCashflowSettings(addMonths(new Date().toISOString().slice(0, 7), 1))))
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const save = (patch: Partial<CashflowSettings>) => {
+    const next = { ...settings, ...patch }
+    writeStored(storageKey, next)
+    setSettings(next)
+  }
+  const setPhase = (div: string, patch: Partial<DivisionPhase>) => {
+    const phase = { ...phaseFor(settings, div), ...patch }
+    save({ phases: { ...settings.phases, [div]: phase.end < phase.start ? { ...phase, end: phase.start } : phase } })
+  }
+  const resetPhase = (div: string) => {
+    const phases = { ...settings.phases }
+    delete phases[div]
+    save({ phases })
+  }
+
+  const { grandTotal } = applyMarkups(data.summary.total_cost, markups)
+  const cashflow = buildCashflow(data, settings, grandTotal)
+  const finish = addMonths(settings.start, Math.max(1, Math.round(settings.months)) - 1)
+  const divisions = Object.entries(data.division_totals).sort((a, b) => a[0].localeCompare(b[0]))
+  const monthOf = (pct: number) => Math.min(settings.months, Math.floor(pct / 100 * settings.months) + 1)
+
+  const chartData = cashflow.months.map(m => ({ ...m, label: monthLabel(m.month) }))
+
+  const exportTable = async (format: 'xlsx' | 'csv') => {
+    try {
+      const table = cashflowTable(cashflow)
+      const blob = format === 'csv' ? cashflowToCsv(table) : await cashflowToXlsx(table)
+      downloadBlob(blob, `${fileStem(`${data.project.report_number} cash flow`)}.${format}`)
+      setExportError(null)
+    } catch (err) {
+      setExportError(`Could not export the .${format} cash flow: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Programme */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <CalendarRange size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Construction Programme</h3>
+          </div>
+          <div className="flex gap-2">
+            {(['xlsx', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => exportTable(format)}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-lg border border-slate-700 text-xs text-slate-400 hover:text-slate-200 hover:border-slate-500"
+              >
+                <Download size={12} /> Export .{format}
+              </button>
+            ))}
+          </div>
+        </div>
+        {exportError && <p className="text-xs text-red-400">{exportError}</p>}
+        <div className="flex flex-wrap items-center gap-6 text-xs text-slate-500">
+          <label className="flex items-center gap-2">
+            Start
+            <input type="month" value={settings.start} onChange={e => e.target.value && save({ start: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2">
+            Duration
+            <input
+              type="number" min={1} max={120} value={settings.months}
+              onChange={e => save({ months: Math.min(120, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+              className={`${inputClass} w-16 text-right`}
+            />
+            months
+          </label>
+          <label className="flex items-center gap-2">
+            Holdback
+            <input
+              type="number" min={0} max={100} step={0.5} value={settings.holdbackPct}
+              onChange={e => save({ holdbackPct: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+              className={`${inputClass} w-16 text-right`}
+            />
+            %
+          </label>
+          <label className="flex items-center gap-2">
+            Released
+            <input
+              type="number" min={0} max={24} value={settings.releaseMonths}
+              onChange={e => save({ releaseMonths: Math.min(24, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+              className={`${inputClass} w-16 text-right`}
+            />
+            months after completion
+          </label>
+        </div>
+        <p className="text-xs text-slate-600">
+          Division totals are spread over each division's phase; markups ({fmt(grandTotal - data.summary.total_cost)}) are spread in
+          proportion to the work. Completion {monthLabel(finish)}.
+        </p>
+      </div>
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard icon={Wallet} label="Total Draws" value={fmt(cashflow.total)} sub={`${cashflow.months.length} months incl. holdback release`} accent="emerald" />
+        <StatCard icon={CalendarRange} label="Peak Month" value={cashflow.peak ? fmtK(cashflow.peak.work) : '—'} sub={cashflow.peak && `work in place, ${monthLabel(cashflow.peak.month)}`} accent="cyan" />
+        <StatCard icon={Wallet} label="Average Monthly Draw" value={fmtK(cashflow.total / Math.max(1, settings.months))} sub="over construction" accent="amber" />
+        <StatCard icon={Wallet} label="Holdback" value={fmt(cashflow.holdback)} sub={`${fmtPct(settings.holdbackPct)} released ${monthLabel(addMonths(finish, settings.releaseMonths))}`} accent="violet" />
+      </div>
+
+      {/* S-curve */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-6">Monthly and Cumulative Spend</h3>
+        <ResponsiveContainer width="100%" height={380}>
+          <ComposedChart data={chartData} margin={{ top: 0, right: 0, left: 0, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis dataKey="label" tick={{ fill: '#94a3b8', fontSize: 11 }} />
+            <YAxis yAxisId="monthly" tickFormatter={(v: number) => fmtK(v)} tick={{ fill: '#64748b', fontSize: 11 }} />
+            <YAxis yAxisId="cumulative" orientation="right" tickFormatter={(v: number) => fmtK(v)} tick={{ fill: '#64748b', fontSize: 11 }} />
+            <Tooltip contentStyle={tooltipStyle} formatter={value => fmt(Number(value))} />
+            <Legend verticalAlign="top" height={36} />
+            <Bar yAxisId="monthly" dataKey="work" name="Work in place" fill="#059669" radius={[4, 4, 0, 0]} />
+            <Bar yAxisId="monthly" dataKey="draw" name="Draw (net of holdback)" fill="#0891b2" radius={[4, 4, 0, 0]} />
+            <Line yAxisId="cumulative" dataKey="cumulativeWork" name="Cumulative work" stroke="#10b981" strokeWidth={2} dot={false} />
+            <Line yAxisId="cumulative" dataKey="cumulativeDraw" name="Cumulative draws" stroke="#f59e0b" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Phasing */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Division Phasing</h3>
+          <button
+            onClick={() => save({ phases: {} })}
+            disabled={Object.keys(settings.phases).length === 0}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40"
+          >
+            <RotateCcw size={12} /> Reset to template
+          </button>
+        </div>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+              <th className="text-left p-3 pl-6">Division</th>
+              <th className="text-right p-3">Total</th>
+              <th className="text-right p-3">Start %</th>
+              <th className="text-right p-3">End %</th>
+              <th className="text-left p-3">Months</th>
+              <th className="text-left p-3">Curve</th>
+              <th className="p-3 pr-6" />
+            </tr>
+          </thead>
+          <tbody>
+            {divisions.map(([div, total]) => {
+              const phase = phaseFor(settings, div)
+              const edited = settings.phases[div] !== undefined
+              return (
+                <tr key={div} className="border-b border-slate-800/30 text-sm">
+                  <td className="p-2 pl-6 text-slate-300">
+                    <span className="font-mono text-xs text-slate-500 mr-2">{div || '—'}</span>
+                    {DIVISION_NAMES[div] || 'Unclassified'}
+                    {!DEFAULT_PHASING[div] && !edited && <span className="text-xs text-slate-600 ml-2">(whole programme)</span>}
+                  </td>
+                  <td className="p-2 text-right font-mono text-slate-400">{fmt(total)}</td>
+                  <td className="p-2 text-right">
+                    <input
+                      type="number" min={0} max={100} value={phase.start}
+                      onChange={e => setPhase(div, { start: clampPct(Number(e.target.value)) })}
+                      className={`${inputClass} w-16 text-right`} aria-label={`Division ${div} start percent`}
+                    />
+                  </td>
+                  <td className="p-2 text-right">
+                    <input
+                      type="number" min={0} max={100} value={phase.end}
+                      onChange={e => setPhase(div, { end: clampPct(Number(e.target.value)) })}
+                      className={`${inputClass} w-16 text-right`} aria-label={`Division ${div} end percent`}
+                    />
+                  </td>
+                  <td className="p-2 text-xs text-slate-500 whitespace-nowrap">
+                    M{monthOf(phase.start)}–M{Math.max(monthOf(phase.start), Math.ceil(phase.end / 100 * settings.months))}
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={phase.curve}
+                      onChange={e => setPhase(div, { curve: e.target.value as DivisionPhase['curve'] })}
+                      className={inputClass} aria-label={`Division ${div} curve`}
+                    >
+                      {PHASE_CURVES.map(c => <option key={c} value={c}>{PHASE_CURVE_LABELS[c]}</option>)}
+                    </select>
+                  </td>
+                  <td className="p-2 pr-6 text-right">
+                    {edited && (
+                      <button onClick={() => resetPhase(div)} className="text-slate-600 hover:text-slate-300" aria-label={`Reset division ${div} phasing`}>
+                        <RotateCcw size={12} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Monthly table */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Draw Schedule</h3>
+        </div>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+              <th className="text-left p-3 pl-6">Month</th>
+              <th className="text-right p-3">Work in place</th>
+              <th className="text-right p-3">Holdback</th>
+              <th className="text-right p-3">Draw</th>
+              <th className="text-right p-3">Cumulative draws</th>
+              <th className="text-right p-3 pr-6">% complete</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cashflow.months.map(m => (
+              <tr key={m.month} className="border-b border-slate-800/30 text-sm font-mono">
+                <td className="p-2 pl-6 font-sans text-slate-300">{monthLabel(m.month)}</td>
+                <td className="p-2 text-right text-slate-300">{fmt(m.work)}</td>
+                <td className={`p-2 text-right ${m.holdbackReleased > 0 ? 'text-emerald-400' : 'text-slate-500'}`}>
+                  {m.holdbackReleased > 0 ? `+${fmt(m.holdbackReleased)}` : `−${fmt(m.holdbackRetained)}`}
+                </td>
+                <td className="p-2 text-right text-white">{fmt(m.draw)}</td>
+                <td className="p-2 text-right text-slate-400">{fmt(m.cumulativeDraw)}</td>
+                <td className="p-2 pr-6 text-right text-slate-500">{cashflow.total > 0 ? fmtPct(m.cumulativeWork / cashflow.total * 100) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
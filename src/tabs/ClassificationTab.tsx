@@ -0,0 +1,250 @@
+import { useState } from 'react'
+import { Check, Download, Tags, Trash2, Upload } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import { readStored, removeStored, writeStored } from '../data/storage'
+import { downloadBlob, fileStem } from '../lib/download'
+import { lineKey } from '../lib/diff'
+import {
+  CANDIDATE_REASON_LABELS, assignmentFor, classificationCandidates, mergeAssignments, parseReclassificationFile,
+  reclassificationKey, removeAssignment, type CandidateReason, type ClassificationCandidate, type DivisionAssignment,
+} from '../lib/reclassify'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+const buttonClass = 'flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40'
+
+const REASON_COLORS: Record<CandidateReason, string> = {
+  unclassified: '#ef4444',
+  unknown_division: '#f59e0b',
+  mismatch: '#0891b2',
+}
+
+const divisionLabel = (div: string) => div ? `${div} ${DIVISION_NAMES[div] || ''}` : 'Unclassified'
+
+export function ClassificationTab({ data, onSaved }: {
+  data: ProjectData
+  /** Called after the reclassification file changes, so the estimate can be reloaded through it. */
+  onSaved: () => void
+}) {
+  const storageKey = reclassificationKey(data.project.name)
+  const [saved, setSaved] = useState(() => parseReclassificationFile(readStored(storageKey, null)))
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const assignments = saved?.assignments ?? []
+  const candidates = classificationCandidates(data, assignments)
+  const picked = candidates.filter(c => selected.has(lineKey(c.line)))
+  const choiceFor = (c: ClassificationCandidate) => choices[lineKey(c.line)] ?? c.suggestion?.division ?? c.line.csi_division
+  const counts = candidates.reduce((acc, c) => {
+    acc[c.reason] = (acc[c.reason] || 0) + 1
+    return acc
+  }, {} as Partial<Record<CandidateReason, number>>)
+
+  const save = (next: DivisionAssignment[]) => {
+    if (next.length === 0) {
+      removeStored(storageKey)
+      setSaved(null)
+    } else {
+      const file = { project: data.project.name, updated: new Date().toISOString(), assignments: next }
+      writeStored(storageKey, file)
+      setSaved(file)
+    }
+    setSelected(new Set())
+    onSaved()
+  }
+
+  const assign = (to: (c: ClassificationCandidate) => string) =>
+    save(mergeAssignments(assignments, picked.map(c => assignmentFor(c.line, to(c)))))
+
+  const choose = (keys: string[], division: string) =>
+    setChoices(prev => ({ ...prev, ...Object.fromEntries(keys.map(k => [k, division])) }))
+
+  const toggle = (key: string) => setSelected(prev => {
+    const next = new Set(prev)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    return next
+  })
+
+  const allSelected = candidates.length > 0 && picked.length === candidates.length
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(candidates.map(c => lineKey(c.line))))
+
+  const exportFile = () => {
+    if (!saved) return
+    downloadBlob(new Blob([JSON.stringify(saved, null, 2)], { type: 'application/json' }), `${fileStem(data.project.name)}-reclassification.json`)
+  }
+
+  const importFile = async (file: File) => {
+    let raw: unknown
+    try {
+      raw = JSON.parse(await file.text())
+    } catch {
+      setImportError(`${file.name} is not valid JSON.`)
+      return
+    }
+    const imported = parseReclassificationFile(raw)
+    if (!imported) {
+      setImportError(`${file.name} is not a reclassification file (no assignments list).`)
+      return
+    }
+    setImportError(null)
+    save(mergeAssignments(assignments, imported.assignments))
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Review queue */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Tags size={16} className="text-cyan-400" />
+              <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Lines to Review</h3>
+              <span className="text-xs text-slate-600">({candidates.length})</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {(Object.keys(CANDIDATE_REASON_LABELS) as CandidateReason[]).filter(r => counts[r]).map(r => (
+                <span key={r} className="px-2 py-0.5 rounded border" style={{ color: REASON_COLORS[r], borderColor: `${REASON_COLORS[r]}60` }}>
+                  {CANDIDATE_REASON_LABELS[r]} · {counts[r]}
+                </span>
+              ))}
+            </div>
+          </div>
+          {candidates.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs text-slate-500">{picked.length} selected</span>
+              <select
+                value=""
+                onChange={e => choose(picked.map(c => lineKey(c.line)), e.target.value)}
+                disabled={picked.length === 0}
+                className={inputClass}
+                aria-label="Set selected lines to division"
+              >
+                <option value="" disabled>Set selected to…</option>
+                {Object.entries(DIVISION_NAMES).map(([div, name]) => <option key={div} value={div}>{div} {name}</option>)}
+              </select>
+              <button onClick={() => assign(choiceFor)} disabled={picked.length === 0} className={buttonClass}>
+                <Check size={12} /> Apply to selected
+              </button>
+              <button onClick={() => assign(c => c.line.csi_division)} disabled={picked.length === 0} className={buttonClass}>
+                Keep current division
+              </button>
+            </div>
+          )}
+        </div>
+        {candidates.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">Every line has a division that agrees with its description.</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                <th className="p-3 pl-6 w-8">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all lines" className="accent-emerald-500" />
+                </th>
+                <th className="text-left p-3">Description</th>
+                <th className="text-left p-3">Current</th>
+                <th className="text-left p-3">Suggested</th>
+                <th className="text-left p-3">Assign to</th>
+                <th className="text-right p-3 pr-6">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((c, i) => {
+                const key = lineKey(c.line)
+                return (
+                  <tr key={i} className={`border-b border-slate-800/50 text-sm ${selected.has(key) ? 'bg-emerald-950/20' : 'hover:bg-slate-800/30'}`}>
+                    <td className="p-3 pl-6">
+                      <input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} aria-label={`Select ${c.line.description}`} className="accent-emerald-500" />
+                    </td>
+                    <td className="p-3 text-slate-300 max-w-md truncate" title={c.line.description}>{c.line.description}</td>
+                    <td className="p-3 text-xs">
+                      <div className="text-slate-400">{divisionLabel(c.line.csi_division)}</div>
+                      <div style={{ color: REASON_COLORS[c.reason] }}>{CANDIDATE_REASON_LABELS[c.reason]}</div>
+                    </td>
+                    <td className="p-3 text-xs">
+                      {c.suggestion ? (
+                        <>
+                          <div className="text-slate-300">{divisionLabel(c.suggestion.division)}</div>
+                          <div className="text-slate-600">{c.suggestion.reason}</div>
+                        </>
+                      ) : <span className="text-slate-600">No suggestion</span>}
+                    </td>
+                    <td className="p-3">
+                      <select
+                        value={choiceFor(c)}
+                        onChange={e => choose([key], e.target.value)}
+                        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600"
+                        aria-label={`Division for ${c.line.description}`}
+                      >
+                        <option value="">Unclassified</option>
+                        {!DIVISION_NAMES[c.line.csi_division] && c.line.csi_division && <option value={c.line.csi_division}>{c.line.csi_division}</option>}
+                        {Object.entries(DIVISION_NAMES).map(([div, name]) => <option key={div} value={div}>{div} {name}</option>)}
+                      </select>
+                    </td>
+                    <td className="p-3 pr-6 text-right font-mono text-slate-400">{fmt(c.line.total_cost)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Saved reclassification file */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Reclassification File</h3>
+            <p className="text-xs text-slate-600 mt-1">
+              Applied when any run of {data.project.name} is loaded.
+              {saved?.updated && <> Last saved {new Date(saved.updated).toLocaleString()}.</>}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className={`${buttonClass} cursor-pointer`}>
+              <Upload size={12} /> Import
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void importFile(file)
+                }}
+              />
+            </label>
+            <button onClick={exportFile} disabled={!saved} className={buttonClass}>
+              <Download size={12} /> Export
+            </button>
+            <button onClick={() => save([])} disabled={!saved} className={buttonClass}>
+              <Trash2 size={12} /> Clear
+            </button>
+          </div>
+        </div>
+        {importError && <p className="text-xs text-red-400">{importError}</p>}
+        {assignments.length === 0 ? (
+          <p className="text-sm text-slate-500">No saved assignments.</p>
+        ) : (
+          <div className="divide-y divide-slate-800/50">
+            {assignments.map((a, i) => (
+              <div key={i} className="flex items-center justify-between gap-4 py-2 text-xs">
+                <span className="text-slate-300 truncate" title={a.description}>{a.description} <span className="text-slate-600">{a.unit}</span></span>
+                <span className="flex items-center gap-3 shrink-0">
+                  <span className="text-slate-500">
+                    {a.from === a.to ? `Kept ${divisionLabel(a.to)}` : `${divisionLabel(a.from)} → ${divisionLabel(a.to)}`}
+                  </span>
+                  <button onClick={() => save(removeAssignment(assignments, a))} className="text-slate-600 hover:text-red-400" aria-label="Remove assignment">
+                    <Trash2 size={12} />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react'
+import { ArrowRight } from 'lucide-react'
+import { ESTIMATE_FILES } from '../data/catalog'
+import { useEstimate } from '../data/useEstimate'
+import { EstimatePicker } from '../components/EstimatePicker'
+import { DiffView } from '../components/DiffView'
+
+export function CompareTab({ estimateId }: { estimateId: string }) {
+  const [baseId, setBaseId] = useState(estimateId)
+  const [revisedId, setRevisedId] = useState(
+    () => ESTIMATE_FILES.find(f => f.id !== estimateId)?.id ?? estimateId,
+  )
+  const base = useEstimate(baseId)
+  const revised = useEstimate(revisedId)
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Compare Estimate Runs</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <EstimatePicker value={baseId} onChange={setBaseId} label="Base estimate" />
+          <ArrowRight size={16} className="text-slate-500" />
+          <EstimatePicker value={revisedId} onChange={setRevisedId} label="Revised estimate" />
+        </div>
+      </div>
+
+      {(base.status === 'error' || revised.status === 'error') && (
+        <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">
+          {base.status === 'error' && <p>Base: {base.error}</p>}
+          {revised.status === 'error' && <p>Revised: {revised.error}</p>}
+        </div>
+      )}
+
+      {(base.status === 'loading' || revised.status === 'loading') && (
+        <div className="animate-pulse text-slate-400 text-sm">Loading estimates...</div>
+      )}
+
+      {base.status === 'ready' && revised.status === 'ready' && (
+        <DiffView base={base.result.data} revised={revised.result.data} />
+      )}
+    </div>
+  )
+}
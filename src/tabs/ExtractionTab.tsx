@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Clock, FileSearch, FileText, Gauge, Layers, Search } from 'lucide-react'
+import { fmtPct } from '../format'
+import { EXTRACTION_ITEMS_PATH, EXTRACTION_SUMMARY_PATH } from '../data/catalog'
+import { mergeExtractionRecords, parseExtractionRecord, type ExtractionRecord } from '../data/extraction'
+import { useFetchedJson } from '../data/useFetchedJson'
+import { StatCard } from '../components/StatCard'
+import { MarkdownTable } from '../components/MarkdownTable'
+import { EMPTY_ITEM_FILTER, groupItems, matchesItem, type ItemBlock, type ItemFilter } from '../lib/extraction'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+
+const TYPE_COLORS: Record<string, string> = {
+  construction_data: '#059669',
+  section_header: '#0891b2',
+  table: '#7c3aed',
+  note: '#64748b',
+}
+
+const CONFIDENCE_OPTIONS = [0, 0.8, 0.9, 0.95]
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value]
+
+const duration = (seconds: number) => seconds >= 60 ? `${(seconds / 60).toFixed(1)} min` : `${seconds.toFixed(0)} s`
+
+export function ExtractionTab() {
+  const items = useFetchedJson(EXTRACTION_ITEMS_PATH, parseExtractionRecord)
+  const summary = useFetchedJson(EXTRACTION_SUMMARY_PATH, parseExtractionRecord)
+  if (items.status === 'loading' || summary.status === 'loading') {
+    return <div className="animate-pulse text-slate-400 text-sm">Loading extraction record...</div>
+  }
+  // Either file on its own is still worth showing
+  const records = [items, summary].flatMap(s => s.status === 'ready' ? [s.value] : [])
+  if (records.length === 0) {
+    const error = items.status === 'error' ? items.error : ''
+    return <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">{error}</div>
+  }
+  return <ExtractionView record={records.reduce(mergeExtractionRecords)} />
+}
+
+function ExtractionView({ record }: { record: ExtractionRecord }) {
+  const [filter, setFilter] = useState<ItemFilter>(EMPTY_ITEM_FILTER)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const set = (patch: Partial<ItemFilter>) => setFilter(f => ({ ...f, ...patch }))
+
+  const { disciplines, items } = record
+  const pages = disciplines.reduce((a, d) => a + d.pages, 0)
+  const extracted = disciplines.reduce((a, d) => a + d.items, 0)
+  const timed = disciplines.filter(d => d.extractionTime !== undefined)
+  const seconds = timed.reduce((a, d) => a + (d.extractionTime ?? 0), 0)
+  const timedPages = timed.reduce((a, d) => a + d.pages, 0)
+  const hasVision = disciplines.some(d => d.visionPages !== undefined)
+
+  const types = [...new Set(items.map(i => i.type))].sort()
+  const matching = items.filter(i => matchesItem(filter, i))
+  const groups = groupItems(matching, disciplines)
+  const searching = filter.text.trim() !== ''
+
+  const toggleGroup = (key: string) => setExpanded(prev => {
+    const next = new Set(prev)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    return next
+  })
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard icon={FileText} label="Pages" value={pages.toLocaleString()} sub={`${disciplines.length} source files`} accent="emerald" />
+        <StatCard icon={Layers} label="Items Extracted" value={extracted.toLocaleString()} sub={`${items.length.toLocaleString()} sampled below`} accent="cyan" />
+        <StatCard icon={Clock} label="Extraction Time" value={duration(seconds)} sub={record.method} accent="violet" />
+        <StatCard icon={Gauge} label="Throughput" value={seconds > 0 ? `${(timedPages / (seconds / 60)).toFixed(1)} pages/min` : '—'} sub={pages > 0 ? `${(extracted / pages).toFixed(1)} items per page` : undefined} accent="amber" />
+      </div>
+
+      {/* Per-discipline throughput */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Throughput by Discipline</h3>
+        </div>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+              <th className="text-left p-3 pl-6">Discipline</th>
+              <th className="text-right p-3">Pages</th>
+              {hasVision && <th className="text-right p-3">Vision pages</th>}
+              <th className="text-right p-3">Items</th>
+              <th className="text-right p-3">Items / page</th>
+              <th className="text-right p-3">Time</th>
+              <th className="text-right p-3">Pages / min</th>
+              <th className="text-right p-3 pr-6">Sampled</th>
+            </tr>
+          </thead>
+          <tbody>
+            {disciplines.map(d => (
+              <tr key={d.key} className="border-b border-slate-800/50 text-sm">
+                <td className="p-3 pl-6">
+                  <div className="text-slate-300">{d.name}</div>
+                  {d.sourceFile && <div className="text-xs text-slate-600 truncate max-w-sm" title={d.sourceFile}>{d.sourceFile}</div>}
+                </td>
+                <td className="p-3 text-right font-mono text-slate-400">{d.pages.toLocaleString()}</td>
+                {hasVision && <td className="p-3 text-right font-mono text-slate-400">{d.visionPages ?? '—'}</td>}
+                <td className={`p-3 text-right font-mono ${d.items === 0 ? 'text-amber-400' : 'text-slate-400'}`}>{d.items.toLocaleString()}</td>
+                <td className="p-3 text-right font-mono text-slate-500">{d.pages > 0 ? (d.items / d.pages).toFixed(1) : '—'}</td>
+                <td className="p-3 text-right font-mono text-slate-500">{d.extractionTime !== undefined ? duration(d.extractionTime) : '—'}</td>
+                <td className="p-3 text-right font-mono text-slate-500">{d.extractionTime ? (d.pages / (d.extractionTime / 60)).toFixed(1) : '—'}</td>
+                <td className="p-3 pr-6 text-right font-mono text-slate-500">{items.filter(i => i.discipline === d.key).length.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Item browser */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <FileSearch size={16} className="text-cyan-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Extracted Items</h3>
+          <span className="text-xs text-slate-600">({matching.length.toLocaleString()} of {items.length.toLocaleString()})</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative">
+            <Search size={14} className="absolute left-2.5 top-2.5 text-slate-500" />
+            <input
+              value={filter.text}
+              onChange={e => set({ text: e.target.value })}
+              placeholder="Search content"
+              className={`${inputClass} pl-8 w-64`}
+              aria-label="Search extracted content"
+            />
+          </div>
+          <select value={filter.minConfidence} onChange={e => set({ minConfidence: Number(e.target.value) })} className={inputClass} aria-label="Minimum confidence">
+            {CONFIDENCE_OPTIONS.map(c => <option key={c} value={c}>{c === 0 ? 'Any confidence' : `≥ ${fmtPct(c * 100)}`}</option>)}
+          </select>
+          {types.map(t => {
+            const selected = filter.types.includes(t)
+            const color = TYPE_COLORS[t] ?? '#64748b'
+            return (
+              <button
+                key={t}
+                onClick={() => set({ types: toggle(filter.types, t) })}
+                className={`px-2 py-0.5 rounded text-xs border transition-colors ${selected ? 'text-white' : 'text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                style={selected ? { backgroundColor: `${color}30`, borderColor: color } : undefined}
+              >
+                {t.replace(/_/g, ' ')}
+              </button>
+            )
+          })}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {disciplines.filter(d => items.some(i => i.discipline === d.key)).map(d => {
+            const selected = filter.disciplines.includes(d.key)
+            return (
+              <button
+                key={d.key}
+                onClick={() => set({ disciplines: toggle(filter.disciplines, d.key) })}
+                className={`px-2 py-0.5 rounded text-xs border transition-colors ${selected ? 'text-white bg-cyan-900/30 border-cyan-600' : 'text-slate-500 border-slate-700 hover:text-slate-300'}`}
+              >
+                {d.name}
+              </button>
+            )
+          })}
+        </div>
+
+        {groups.length === 0 && <p className="text-sm text-slate-500">No extracted items match.</p>}
+        {groups.map(group => {
+          const isExpanded = searching || expanded.has(group.discipline)
+          return (
+            <div key={group.discipline} className="border border-slate-800 rounded-lg overflow-hidden">
+              <button
+                onClick={() => toggleGroup(group.discipline)}
+                className="w-full flex items-center justify-between p-4 hover:bg-slate-800/50 transition-colors text-left"
+              >
+                <span className="flex items-center gap-3 min-w-0">
+                  {isExpanded ? <ChevronDown size={16} className="text-slate-500 shrink-0" /> : <ChevronRight size={16} className="text-slate-500 shrink-0" />}
+                  <span className="font-medium text-slate-300 truncate">{group.sourceFile}</span>
+                </span>
+                <span className="text-xs text-slate-600 shrink-0">{group.items} items · {group.pages.length} pages</span>
+              </button>
+              {isExpanded && (
+                <div className="border-t border-slate-800 divide-y divide-slate-800/50">
+                  {group.pages.map(page => (
+                    <div key={page.page} className="p-4 flex gap-4">
+                      <span className="text-xs font-mono text-slate-600 w-14 shrink-0">p. {page.page}</span>
+                      <div className="space-y-2 min-w-0 flex-1">
+                        {page.blocks.map((block, i) => <Block key={i} block={block} />)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function Block({ block }: { block: ItemBlock }) {
+  const type = block.kind === 'text' ? block.item.type : block.items[0].type
+  const confidence = block.kind === 'text' ? block.item.confidence : Math.min(...block.items.map(i => i.confidence))
+  const color = TYPE_COLORS[type] ?? '#64748b'
+  return (
+    <div className="flex items-start gap-3">
+      <span className="text-[10px] uppercase tracking-wider px-1.5 py-0.5 rounded shrink-0" style={{ color, backgroundColor: `${color}20` }}>
+        {type.replace(/_/g, ' ')}
+      </span>
+      <div className="min-w-0 flex-1">
+        {block.kind === 'table'
+          ? <MarkdownTable rows={block.rows} />
+          : <p className="text-xs text-slate-300 whitespace-pre-wrap break-words">{block.item.content}</p>}
+      </div>
+      <span className={`text-xs font-mono shrink-0 ${confidence < 0.8 ? 'text-amber-400' : 'text-slate-600'}`}>{fmtPct(confidence * 100)}</span>
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+import { useState } from 'react'
+import { Link } from 'react-router'
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { AlertTriangle, ArrowRight, Briefcase, Building2, TrendingUp } from 'lucide-react'
+import { fmt, fmtPct } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import { PORTFOLIO_MANIFEST_PATH } from '../data/catalog'
+import { parsePortfolioManifest, type PortfolioEntry } from '../data/portfolio'
+import { useFetchedJson } from '../data/useFetchedJson'
+import { usePortfolio } from '../data/usePortfolio'
+import { readStored, writeStored } from '../data/storage'
+import { StatCard } from '../components/StatCard'
+import { useMeasures } from '../lib/measures'
+import type { EscalationRate, LocationIndex } from '../lib/repricing'
+import { normalizeProject, portfolioRange, type NormalizationBasis } from '../lib/portfolio'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+const tooltipStyle = { background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }
+
+const OWN_LOCATION = ''
+
+const perUnitLabel = (unitType: string) => unitType.replace(/s$/, '').toLowerCase() || 'unit'
+
+export function PortfolioTab(props: { estimateId: string; indices: LocationIndex[]; curve: EscalationRate[] }) {
+  const manifest = useFetchedJson(PORTFOLIO_MANIFEST_PATH, parsePortfolioManifest)
+  if (manifest.status === 'loading') return <div className="animate-pulse text-slate-400 text-sm">Loading portfolio...</div>
+  if (manifest.status === 'error') {
+    return <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">{manifest.error}</div>
+  }
+  return <PortfolioView entries={manifest.value} {...props} />
+}
+
+function PortfolioView({ entries, estimateId, indices, curve }: {
+  entries: PortfolioEntry[]
+  estimateId: string
+  indices: LocationIndex[]
+  curve: EscalationRate[]
+}) {
+  const m = useMeasures()
+  const loads = usePortfolio(entries)
+  const [basis, setBasis] = useState(() => readStored<NormalizationBasis>('portfolio-basis', {
+    location: indices[0]?.location ?? null,
+    date: new Date().toISOString().slice(0, 7),
+  }))
+  const saveBasis = (patch: Partial<NormalizationBasis>) => {
+    const next = { ...basis, ...patch }
+    writeStored('portfolio-basis', next)
+    setBasis(next)
+  }
+
+  const projects = loads.flatMap(l => l.status === 'ready' ? [normalizeProject(l.entry, l.data, indices, curve, basis)] : [])
+  const loading = loads.filter(l => l.status === 'loading').length
+  const failed = loads.flatMap(l => l.status === 'error' ? [l] : [])
+
+  const perSf = portfolioRange(projects.map(p => p.perSf))
+  const perUnit = portfolioRange(projects.map(p => p.perUnit))
+  const unitTypes = [...new Set(projects.filter(p => p.perUnit !== null).map(p => perUnitLabel(p.project.unit_type)))]
+  const unitWord = unitTypes.length === 1 ? unitTypes[0] : 'unit'
+  const divisions = [...new Set(projects.flatMap(p => Object.keys(p.divisionShares)))].sort()
+  const areaRate = (n: number) => `$${m.areaRate(n).toFixed(2)}`
+  const basisLabel = `${basis.location ?? 'each project’s own location'}, ${basis.date}`
+
+  const chartData = projects.filter(p => p.perSf !== null).map(p => ({ id: p.entry.id, label: p.entry.label, value: m.areaRate(p.perSf ?? 0) }))
+
+  return (
+    <div className="space-y-8">
+      {/* Basis */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Briefcase size={16} className="text-emerald-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Project Portfolio</h3>
+        </div>
+        <p className="text-sm text-slate-500">
+          The estimates listed in <span className="font-mono text-slate-400">{PORTFOLIO_MANIFEST_PATH}</span>, restated to one location and
+          date with the location indices and escalation curve from the Re-pricing tab, so their rates can be compared. Direct cost only;
+          markups are left out.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-400">
+          <label className="flex items-center gap-2">
+            Restate to
+            <select
+              value={basis.location ?? OWN_LOCATION}
+              onChange={e => saveBasis({ location: e.target.value === OWN_LOCATION ? null : e.target.value })}
+              className={inputClass}
+            >
+              <option value={OWN_LOCATION}>Each project's own location</option>
+              {indices.map(row => <option key={row.location} value={row.location}>{row.location} ({row.index})</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            as of
+            <input type="month" value={basis.date} onChange={e => e.target.value && saveBasis({ date: e.target.value })} className={inputClass} />
+          </label>
+        </div>
+      </div>
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+        <StatCard
+          icon={Building2} label="Projects" value={`${projects.length}`} accent="emerald"
+          sub={loading > 0 ? `${loading} still loading` : failed.length > 0 ? `${failed.length} could not be loaded` : `of ${entries.length} in the manifest`}
+        />
+        <StatCard
+          icon={TrendingUp} label={`Median $/${m.areaUnit}`} value={perSf ? areaRate(perSf.median) : '—'} accent="cyan"
+          sub={perSf ? `${areaRate(perSf.min)} – ${areaRate(perSf.max)} across ${perSf.count}` : 'No project records a floor area'}
+        />
+        <StatCard
+          icon={TrendingUp} label={`Median $/${unitWord}`} value={perUnit ? fmt(perUnit.median) : '—'} accent="violet"
+          sub={perUnit ? `${fmt(perUnit.min)} – ${fmt(perUnit.max)} across ${perUnit.count}` : 'No project records a unit count'}
+        />
+      </div>
+
+      {failed.length > 0 && (
+        <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300 space-y-1">
+          {failed.map(f => <p key={f.entry.id}>{f.entry.label}: {f.error}</p>)}
+        </div>
+      )}
+
+      {/* $/SF */}
+      {chartData.length > 0 && (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-1">Cost per {m.areaUnit}</h3>
+          <p className="text-xs text-slate-600 mb-6">Restated to {basisLabel}.</p>
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData} margin={{ top: 0, right: 0, left: 0, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="id" tick={{ fill: '#94a3b8', fontSize: 11 }} />
+              <YAxis tickFormatter={(v: number) => `$${v.toFixed(0)}`} tick={{ fill: '#64748b', fontSize: 11 }} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={value => `$${Number(value).toFixed(2)}/${m.areaUnit}`}
+                labelFormatter={label => chartData.find(d => d.id === label)?.label ?? String(label)}
+              />
+              <Bar dataKey="value" name={`$/${m.areaUnit}`} radius={[4, 4, 0, 0]}>
+                {chartData.map(d => <Cell key={d.id} fill={d.id === estimateId ? '#10b981' : '#0891b2'} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Projects */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Projects</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                <th className="text-left p-3 pl-6">Estimate</th>
+                <th className="text-left p-3">Type</th>
+                <th className="text-left p-3">Location</th>
+                <th className="text-left p-3">Dated</th>
+                <th className="text-right p-3">Recorded</th>
+                <th className="text-right p-3">Factor</th>
+                <th className="text-right p-3">Restated</th>
+                <th className="text-right p-3">$/{m.areaUnit}</th>
+                <th className="text-right p-3">Per unit</th>
+                <th className="p-3 pr-6" />
+              </tr>
+            </thead>
+            <tbody>
+              {projects.map(p => (
+                <tr key={p.entry.id} className={`border-b border-slate-800/30 text-sm ${p.entry.id === estimateId ? 'bg-emerald-900/10' : ''}`}>
+                  <td className="p-3 pl-6">
+                    <div className="text-slate-300">{p.entry.label}</div>
+                    <div className="text-xs text-slate-600">{p.project.name} · {m.area(p.project.gross_floor_area_sf).toLocaleString(undefined, { maximumFractionDigits: 0 })} {m.areaUnit} · {p.project.units} {p.project.unit_type}</div>
+                  </td>
+                  <td className="p-3 text-slate-400">{p.project.building_type}</td>
+                  <td className="p-3 text-slate-400">{p.project.location}</td>
+                  <td className="p-3 text-slate-400 whitespace-nowrap">{p.project.report_date || '—'}</td>
+                  <td className="p-3 text-right font-mono text-slate-500">{fmt(p.recorded)}</td>
+                  <td className="p-3 text-right font-mono text-slate-400 whitespace-nowrap" title={`Location ×${p.locationFactor.toFixed(3)} · escalation ×${p.escalationFactor.toFixed(3)}`}>
+                    {p.notes.length > 0 && (
+                      <span title={p.notes.join('\n')} className="inline-block mr-1 text-amber-500 align-middle">
+                        <AlertTriangle size={12} />
+                      </span>
+                    )}
+                    ×{p.factor.toFixed(3)}
+                  </td>
+                  <td className="p-3 text-right font-mono text-slate-300">{fmt(p.total)}</td>
+                  <td className="p-3 text-right font-mono text-white">{p.perSf !== null ? areaRate(p.perSf) : '—'}</td>
+                  <td className="p-3 text-right font-mono text-slate-300 whitespace-nowrap">
+                    {p.perUnit !== null ? `${fmt(p.perUnit)}/${perUnitLabel(p.project.unit_type)}` : '—'}
+                  </td>
+                  <td className="p-3 pr-6 text-right">
+                    <Link to={`/${p.entry.id}/overview`} className="inline-flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300 whitespace-nowrap">
+                      Open <ArrowRight size={12} />
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Division shares */}
+      {projects.length > 0 && (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+          <div className="p-6 border-b border-slate-800">
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Division Shares</h3>
+            <p className="text-xs text-slate-600 mt-1">Percent of each estimate's direct cost. Shares don't change with restating.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+                  <th className="text-left p-3 pl-6">Division</th>
+                  {projects.map(p => <th key={p.entry.id} className="text-right p-3" title={p.entry.label}>{p.entry.id}</th>)}
+                  <th className="text-right p-3 pr-6">Median</th>
+                </tr>
+              </thead>
+              <tbody>
+                {divisions.map(div => {
+                  const median = portfolioRange(projects.map(p => p.divisionShares[div] ?? 0))?.median ?? 0
+                  return (
+                    <tr key={div} className="border-b border-slate-800/30 text-sm">
+                      <td className="p-2 pl-6 text-slate-300 whitespace-nowrap">
+                        <span className="font-mono text-xs text-slate-500 mr-2">{div || '—'}</span>
+                        {DIVISION_NAMES[div] || 'Unclassified'}
+                      </td>
+                      {projects.map(p => {
+                        const share = p.divisionShares[div]
+                        return (
+                          <td
+                            key={p.entry.id}
+                            className="p-2 text-right font-mono text-xs text-slate-300"
+                            style={{ backgroundColor: share ? `rgba(16, 185, 129, ${Math.min(0.5, share / 40)})` : undefined }}
+                          >
+                            {share !== undefined ? fmtPct(share) : <span className="text-slate-700">—</span>}
+                          </td>
+                        )
+                      })}
+                      <td className="p-2 pr-6 text-right font-mono text-xs text-slate-400">{fmtPct(median)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { Fragment, useState } from 'react'
+import { ChevronDown, ChevronRight, DollarSign, RotateCcw, Scale, Sigma } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt, fmtPct } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import type { PlaEstimate } from '../data/pla'
+import type { FetchState } from '../data/useFetchedJson'
+import { StatCard } from '../components/StatCard'
+import {
+  defaultCrosswalk, itemKey, mapPlaLines, reconcile, type Crosswalk,
+} from '../lib/reconcile'
+
+const signed = (n: number, format: (n: number) => string) => `${n >= 0 ? '+' : '−'}${format(Math.abs(n))}`
+const divisionLabel = (div: string) => div ? `${div} ${DIVISION_NAMES[div] || ''}` : 'Unassigned'
+
+export function ReconcileTab({ pla, ...props }: {
+  data: ProjectData
+  pla: FetchState<PlaEstimate>
+  /** Saved crosswalk; null while the default applies */
+  saved: Crosswalk | null
+  onSave: (crosswalk: Crosswalk | null) => void
+}) {
+  if (pla.status === 'loading') return <div className="animate-pulse text-slate-400 text-sm">Loading PLA estimate...</div>
+  if (pla.status === 'error') {
+    return <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">{pla.error}</div>
+  }
+  return <ReconcileView {...props} pla={pla.value} />
+}
+
+function ReconcileView({ data, pla, saved, onSave }: {
+  data: ProjectData; pla: PlaEstimate; saved: Crosswalk | null; onSave: (crosswalk: Crosswalk | null) => void
+}) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [editing, setEditing] = useState(false)
+
+  const crosswalk = saved ?? defaultCrosswalk(pla)
+  const plaLines = mapPlaLines(pla, crosswalk)
+  const rows = reconcile(data, plaLines)
+  const engineTotal = rows.reduce((a, r) => a + r.engine, 0)
+  const plaTotal = rows.reduce((a, r) => a + r.pla, 0)
+
+  const setSectionDivision = (section: string, division: string) =>
+    onSave({ ...crosswalk, sections: { ...crosswalk.sections, [section]: division } })
+
+  const setItemDivision = (section: string, item: string, division: string | null) => {
+    const items = { ...crosswalk.items }
+    if (division === null) delete items[itemKey(section, item)]
+    else items[itemKey(section, item)] = division
+    onSave({ ...crosswalk, items })
+  }
+
+  const toggle = (division: string) => setExpanded(prev => {
+    const next = new Set(prev)
+    if (next.has(division)) next.delete(division)
+    else next.add(division)
+    return next
+  })
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard icon={DollarSign} label="Engine (Divisions)" value={fmt(engineTotal)} sub={data.project.report_number} accent="emerald" />
+        <StatCard icon={Sigma} label="PLA Contractor" value={fmt(plaTotal)} sub={pla.source} accent="violet" />
+        <StatCard icon={Scale} label="Variance" value={signed(engineTotal - plaTotal, fmt)} sub={plaTotal > 0 ? signed((engineTotal - plaTotal) / plaTotal * 100, fmtPct) : undefined} accent="amber" />
+        <StatCard icon={Sigma} label="PLA Lines Mapped" value={`${plaLines.filter(l => l.division).length} / ${plaLines.length}`} sub={saved ? 'Custom crosswalk' : 'Default crosswalk'} accent="cyan" />
+      </div>
+
+      {/* Side-by-side */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Division Reconciliation</h3>
+        </div>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+              <th className="text-left p-4">Division</th>
+              <th className="text-right p-4">Engine</th>
+              <th className="text-right p-4">PLA</th>
+              <th className="text-right p-4">Variance</th>
+              <th className="text-right p-4">%</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const isExpanded = expanded.has(row.division)
+              return (
+                <Fragment key={row.division}>
+                  <tr onClick={() => toggle(row.division)} className="border-b border-slate-800/50 hover:bg-slate-800/30 text-sm cursor-pointer">
+                    <td className="p-4 text-slate-300">
+                      <span className="inline-flex items-center gap-2">
+                        {isExpanded ? <ChevronDown size={14} className="text-emerald-400" /> : <ChevronRight size={14} className="text-slate-500" />}
+                        {divisionLabel(row.division)}
+                        <span className="text-xs text-slate-600">({row.plaLines.length} PLA lines)</span>
+                      </span>
+                    </td>
+                    <td className="text-right p-4 font-mono text-slate-300">{fmt(row.engine)}</td>
+                    <td className="text-right p-4 font-mono text-slate-400">{fmt(row.pla)}</td>
+                    <td className={`text-right p-4 font-mono ${row.variance >= 0 ? 'text-orange-400' : 'text-cyan-400'}`}>{signed(row.variance, fmt)}</td>
+                    <td className="text-right p-4 font-mono text-slate-500">{row.variancePct === null ? '—' : signed(row.variancePct, fmtPct)}</td>
+                  </tr>
+                  {isExpanded && row.plaLines.map(line => (
+                    <tr key={itemKey(line.section, line.item)} className="border-b border-slate-800/30 text-xs bg-slate-900/60">
+                      <td className="p-2 pl-12 text-slate-400">{line.item}</td>
+                      <td className="p-2 text-right text-slate-600">{line.section}</td>
+                      <td className="p-2 text-right font-mono text-slate-400">{fmt(line.cost)}</td>
+                      <td colSpan={2} />
+                    </tr>
+                  ))}
+                  {isExpanded && row.plaLines.length === 0 && (
+                    <tr className="border-b border-slate-800/30 text-xs bg-slate-900/60">
+                      <td colSpan={5} className="p-2 pl-12 text-slate-600">No PLA lines are mapped to this division.</td>
+                    </tr>
+                  )}
+                </Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Crosswalk editor */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50">
+        <div className="p-6 flex items-center justify-between">
+          <button onClick={() => setEditing(e => !e)} className="flex items-center gap-2 text-sm font-semibold text-slate-400 uppercase tracking-wider">
+            {editing ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            PLA → CSI Crosswalk
+          </button>
+          {saved && (
+            <button onClick={() => onSave(null)} className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300">
+              <RotateCcw size={12} /> Reset to defaults
+            </button>
+          )}
+        </div>
+        {editing && (
+          <div className="border-t border-slate-800 divide-y divide-slate-800">
+            {Object.entries(pla.sections).map(([section, { lines, total }]) => (
+              <div key={section} className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-slate-300">{section} <span className="text-xs text-slate-600 font-mono">{fmt(total)}</span></span>
+                  <DivisionSelect value={crosswalk.sections[section] ?? ''} onChange={d => setSectionDivision(section, d ?? '')} />
+                </div>
+                <div className="space-y-1">
+                  {lines.map(({ item, cost }) => {
+                    const override = crosswalk.items[itemKey(section, item)]
+                    return (
+                      <div key={item} className="flex items-center justify-between text-xs pl-4">
+                        <span className={override !== undefined ? 'text-slate-300' : 'text-slate-500'}>{item} <span className="font-mono text-slate-600">{fmt(cost)}</span></span>
+                        <DivisionSelect value={override ?? null} onChange={d => setItemDivision(section, item, d)} allowDefault />
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function DivisionSelect({ value, onChange, allowDefault = false }: {
+  value: string | null; onChange: (division: string | null) => void; allowDefault?: boolean
+}) {
+  return (
+    <select
+      value={value ?? '__default'}
+      onChange={e => onChange(e.target.value === '__default' ? null : e.target.value)}
+      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600"
+    >
+      {allowDefault && <option value="__default">Section default</option>}
+      <option value="">Unassigned</option>
+      {Object.entries(DIVISION_NAMES).map(([div, name]) => <option key={div} value={div}>{div} {name}</option>)}
+    </select>
+  )
+}
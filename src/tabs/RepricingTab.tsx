@@ -0,0 +1,245 @@
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+} from 'recharts'
+import { CalendarClock, MapPin, Plus, RotateCcw, Trash2 } from 'lucide-react'
+import type { Markup, ProjectData } from '../types'
+import { fmt, fmtPct } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import { useMeasures } from '../lib/measures'
+import {
+  DEFAULT_ESCALATION_CURVE, DEFAULT_LOCATION_INDICES, escalationFactor,
+  type EscalationRate, type LocationIndex, type Repricing, type RepricingTarget,
+} from '../lib/repricing'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600'
+const buttonClass = 'flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200'
+
+const signed = (n: number, format: (n: number) => string) => `${n >= 0 ? '+' : '−'}${format(Math.abs(n))}`
+const monthYear = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+const multiplier = (f: number) => `×${f.toFixed(4)}`
+
+export function RepricingTab({ original, restated, repricing, markups, indices, curve, target, onIndicesChange, onCurveChange, onTargetChange }: {
+  /** The estimate as priced in the file */
+  original: ProjectData
+  restated: ProjectData
+  repricing: Repricing
+  markups: Markup[]
+  indices: LocationIndex[]
+  curve: EscalationRate[]
+  target: RepricingTarget
+  onIndicesChange: (indices: LocationIndex[]) => void
+  onCurveChange: (curve: EscalationRate[]) => void
+  onTargetChange: (target: RepricingTarget) => void
+}) {
+  const m = useMeasures()
+  const gfa = original.project.gross_floor_area_sf
+  const units = original.project.units
+  const kpis = [
+    { label: 'Direct cost', from: original.summary.total_cost, to: restated.summary.total_cost, format: fmt },
+    ...(gfa > 0 ? [{ label: `Cost per ${m.areaUnit}`, from: m.perArea(original.summary.total_cost, gfa), to: m.perArea(restated.summary.total_cost, gfa), format: (n: number) => `$${n.toFixed(2)}` }] : []),
+    ...(units > 0 ? [{ label: `Cost per ${original.project.unit_type.replace(/s$/, '')}`, from: original.summary.cost_per_unit, to: restated.summary.cost_per_unit, format: fmt }] : []),
+  ]
+  const divisions = Object.keys(original.division_totals).sort()
+
+  const { baseDate } = repricing
+  const escalationCurve = baseDate ? Array.from({ length: 37 }, (_, month) => ({
+    month,
+    index: (escalationFactor(curve, baseDate, month) - 1) * 100,
+  })) : []
+
+  const sourceLabel = repricing.sourceFromFile
+    ? `${original.project.location} (${repricing.sourceIndex} from the estimate file)`
+    : repricing.sourceLocation
+      ? `${repricing.sourceLocation} (${repricing.sourceIndex})`
+      : `${original.project.location} (not in the table; index 1.00 assumed)`
+
+  const setIndex = (i: number, patch: Partial<LocationIndex>) => {
+    const renamed = patch.location !== undefined && target.location === indices[i].location
+    onIndicesChange(indices.map((row, j) => j === i ? { ...row, ...patch } : row))
+    if (renamed) onTargetChange({ ...target, location: patch.location ?? null })
+  }
+  const removeIndex = (i: number) => {
+    if (target.location === indices[i].location) onTargetChange({ ...target, location: null })
+    onIndicesChange(indices.filter((_, j) => j !== i))
+  }
+  const setRate = (i: number, patch: Partial<EscalationRate>) => onCurveChange(curve.map((row, j) => j === i ? { ...row, ...patch } : row))
+  const lastYear = curve.reduce((a, r) => Math.max(a, r.year), (baseDate ?? new Date()).getFullYear() - 1)
+
+  return (
+    <div className="space-y-8">
+      {/* Target */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Restate Estimate</h3>
+        <div className="grid md:grid-cols-2 gap-6 text-sm">
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">Priced at: <span className="text-slate-300">{sourceLabel}</span></p>
+            <label className="flex items-center gap-2 text-slate-400">
+              <MapPin size={14} className="text-cyan-400" /> Restate to
+              <select
+                value={target.location ?? ''}
+                onChange={e => onTargetChange({ ...target, location: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">Project location</option>
+                {indices.map(row => <option key={row.location} value={row.location}>{row.location} ({row.index})</option>)}
+              </select>
+              <span className="text-xs font-mono text-slate-500">{multiplier(repricing.locationFactor)}</span>
+            </label>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">Report date: <span className="text-slate-300">{baseDate ? baseDate.toLocaleDateString() : 'none recorded'}</span></p>
+            <label className="flex items-center gap-2 text-slate-400">
+              <CalendarClock size={14} className="text-amber-400" /> Tender in
+              <input
+                type="number" min={0} max={120} value={target.months}
+                onChange={e => onTargetChange({ ...target, months: Math.max(0, Math.min(120, Math.round(Number(e.target.value) || 0))) })}
+                className={`${inputClass} w-16 text-right`}
+                aria-label="Months to tender"
+                disabled={!baseDate}
+              />
+              months{repricing.tenderDate && ` (${monthYear(repricing.tenderDate)})`}
+              <span className="text-xs font-mono text-slate-500">{multiplier(repricing.escalationFactor)}</span>
+            </label>
+          </div>
+        </div>
+        {!baseDate && (
+          <p className="text-xs text-amber-400">
+            The estimate records no usable report date{original.project.report_date && ` ("${original.project.report_date}")`}, so it isn't escalated; only the location restatement applies.
+          </p>
+        )}
+        {repricing.escalationFactor !== 1 && markups.some(mk => /escalat/i.test(mk.label)) && (
+          <p className="text-xs text-amber-400">
+            The markup stack on the Quantity Survey tab also carries an escalation line; remove it there so escalation isn't counted twice.
+          </p>
+        )}
+        {repricing.factor !== 1 && (
+          <button onClick={() => onTargetChange({ location: null, months: 0 })} className={buttonClass}>
+            <RotateCcw size={12} /> Back to the file's pricing
+          </button>
+        )}
+      </div>
+
+      {/* Original vs restated */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-800 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Original vs. Restated</h3>
+          <span className="text-xs font-mono text-slate-500">Combined {multiplier(repricing.factor)} ({signed((repricing.factor - 1) * 100, fmtPct)})</span>
+        </div>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+              <th className="text-left p-3 pl-6"></th>
+              <th className="text-right p-3">Original</th>
+              <th className="text-right p-3">Restated</th>
+              <th className="text-right p-3 pr-6">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {kpis.map(k => (
+              <tr key={k.label} className="border-b border-slate-800/50 text-sm font-semibold">
+                <td className="p-3 pl-6 text-slate-300">{k.label}</td>
+                <td className="p-3 text-right font-mono text-slate-400">{k.format(k.from)}</td>
+                <td className="p-3 text-right font-mono text-white">{k.format(k.to)}</td>
+                <td className="p-3 pr-6 text-right font-mono text-orange-400">{signed(k.to - k.from, k.format)}</td>
+              </tr>
+            ))}
+            {divisions.map(div => {
+              const from = original.division_totals[div]
+              const to = restated.division_totals[div] ?? from
+              return (
+                <tr key={div} className="border-b border-slate-800/30 text-xs">
+                  <td className="p-2 pl-6 text-slate-400">{div ? `${div} ${DIVISION_NAMES[div] || ''}` : 'Unclassified'}</td>
+                  <td className="p-2 text-right font-mono text-slate-500">{fmt(from)}</td>
+                  <td className="p-2 text-right font-mono text-slate-300">{fmt(to)}</td>
+                  <td className="p-2 pr-6 text-right font-mono text-slate-500">{signed(to - from, fmt)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Location indices */}
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Location Indices</h3>
+            <div className="flex items-center gap-3">
+              <button onClick={() => onIndicesChange([...indices, { location: `Location ${indices.length + 1}`, index: 1 }])} className={buttonClass}>
+                <Plus size={12} /> Add
+              </button>
+              <button onClick={() => onIndicesChange(DEFAULT_LOCATION_INDICES)} className={buttonClass}>
+                <RotateCcw size={12} /> Defaults
+              </button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {indices.map((row, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input value={row.location} onChange={e => setIndex(i, { location: e.target.value })} className={`${inputClass} flex-1`} aria-label="Location" />
+                <input
+                  type="number" step={0.01} min={0} value={row.index}
+                  onChange={e => setIndex(i, { index: Math.max(0, Number(e.target.value) || 0) })}
+                  className={`${inputClass} w-20 text-right`} aria-label={`${row.location} index`}
+                />
+                <button onClick={() => removeIndex(i)} className="text-slate-600 hover:text-red-400" aria-label={`Remove ${row.location}`}>
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Escalation curve */}
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Escalation Curve</h3>
+            <div className="flex items-center gap-3">
+              <button onClick={() => onCurveChange([...curve, { year: lastYear + 1, pct: curve[curve.length - 1]?.pct ?? 3 }])} className={buttonClass}>
+                <Plus size={12} /> Add year
+              </button>
+              <button onClick={() => onCurveChange(DEFAULT_ESCALATION_CURVE)} className={buttonClass}>
+                <RotateCcw size={12} /> Defaults
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3 mb-4">
+            {curve.map((row, i) => (
+              <div key={i} className="flex items-center gap-1 text-xs text-slate-500">
+                <input
+                  type="number" value={row.year}
+                  onChange={e => setRate(i, { year: Math.round(Number(e.target.value) || row.year) })}
+                  className={`${inputClass} w-16`} aria-label="Year"
+                />
+                <input
+                  type="number" step={0.1} value={row.pct}
+                  onChange={e => setRate(i, { pct: Number(e.target.value) || 0 })}
+                  className={`${inputClass} w-14 text-right`} aria-label={`${row.year} escalation percent`}
+                />
+                %
+                <button onClick={() => onCurveChange(curve.filter((_, j) => j !== i))} className="text-slate-600 hover:text-red-400" aria-label={`Remove ${row.year}`}>
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+          {baseDate && (
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={escalationCurve}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="month" tick={{ fill: '#64748b', fontSize: 11 }} tickFormatter={(v: number) => `${v}m`} interval={5} />
+                <YAxis tick={{ fill: '#64748b', fontSize: 11 }} tickFormatter={(v: number) => `${v.toFixed(0)}%`} />
+                <Tooltip
+                  contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }}
+                  labelFormatter={label => `${label} months after the report`}
+                  formatter={value => [fmtPct(Number(value)), 'Cumulative escalation']}
+                />
+                <Line type="monotone" dataKey="index" stroke="#d97706" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
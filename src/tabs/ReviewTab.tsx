@@ -0,0 +1,301 @@
+import { useState } from 'react'
+import {
+  AlertTriangle, ChevronDown, ChevronRight, ClipboardCheck, Download, MessageSquare, PenLine, Trash2, Upload,
+} from 'lucide-react'
+import type { EstimateLine, ProjectData } from '../types'
+import { fmt, fmtPct } from '../format'
+import { DIVISION_NAMES } from '../constants'
+import { downloadBlob, fileStem } from '../lib/download'
+import {
+  REVIEW_STATES, REVIEW_STATE_LABELS, addDivisionComment, addLineComment, divisionReview, effectiveState, emptyReview,
+  lineReview, parseReviewFile, reviewProgress, setDivisionState, setLineState, setReviewer, signOff, signOffStatement,
+  type ReviewComment, type ReviewFile, type ReviewState,
+} from '../lib/review'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+const buttonClass = 'flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40'
+
+const STATE_COLORS: Record<ReviewState, string> = {
+  unreviewed: '#64748b',
+  accepted: '#10b981',
+  flagged: '#f59e0b',
+  adjusted: '#8b5cf6',
+}
+
+type Shown = 'all' | ReviewState
+
+export function ReviewTab({ data, stored, loading, error, onSave }: {
+  /** The estimate file as loaded; reviews are of the report, not of a scenario or re-pricing */
+  data: ProjectData
+  stored: ReviewFile | null
+  loading: boolean
+  error?: string
+  onSave: (review: ReviewFile | null) => void
+}) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [threadOpen, setThreadOpen] = useState<string | null>(null)
+  const [shown, setShown] = useState<Shown>('all')
+  const [note, setNote] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+
+  if (loading) return <div className="animate-pulse text-slate-400 text-sm">Loading review...</div>
+
+  const review = stored ?? emptyReview(data)
+  const progress = reviewProgress(review, data)
+  const { report_number } = data.project
+
+  const divisions = Object.entries(data.lines.reduce((acc, line, index) => {
+    (acc[line.csi_division] ??= []).push({ line, index })
+    return acc
+  }, {} as Record<string, { line: EstimateLine; index: number }[]>)).sort((a, b) => a[0].localeCompare(b[0]))
+
+  const toggle = (div: string) => setExpanded(prev => {
+    const next = new Set(prev)
+    if (next.has(div)) next.delete(div)
+    else next.add(div)
+    return next
+  })
+
+  const exportFile = () =>
+    downloadBlob(new Blob([JSON.stringify(review, null, 2)], { type: 'application/json' }), `${fileStem(report_number)}-review.json`)
+
+  const importFile = async (file: File) => {
+    let raw: unknown
+    try {
+      raw = JSON.parse(await file.text())
+    } catch {
+      setImportError(`${file.name} is not valid JSON.`)
+      return
+    }
+    const imported = parseReviewFile(raw)
+    if (!imported) {
+      setImportError(`${file.name} is not a review file (no report_number).`)
+      return
+    }
+    if (imported.report_number !== report_number) {
+      setImportError(`${file.name} is a review of report ${imported.report_number}, not ${report_number}.`)
+      return
+    }
+    setImportError(null)
+    onSave(imported)
+  }
+
+  const stateSelect = (state: ReviewState, onChange: (state: ReviewState) => void, label: string, inherited?: ReviewState) => (
+    <select
+      value={state}
+      onChange={e => onChange(e.target.value as ReviewState)}
+      className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs focus:outline-none focus:border-emerald-600"
+      style={{ color: STATE_COLORS[state === 'unreviewed' && inherited ? inherited : state] }}
+      aria-label={label}
+    >
+      {REVIEW_STATES.map(s => (
+        <option key={s} value={s}>
+          {s === 'unreviewed' && inherited && inherited !== 'unreviewed' ? `${REVIEW_STATE_LABELS[inherited]} (division)` : REVIEW_STATE_LABELS[s]}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="space-y-8">
+      {/* Reviewer and progress */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <ClipboardCheck size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Estimator Review</h3>
+            <span className="text-xs text-slate-600">Report {report_number}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className={`${buttonClass} cursor-pointer`}>
+              <Upload size={12} /> Import
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void importFile(file)
+                }}
+              />
+            </label>
+            <button onClick={exportFile} disabled={!stored} className={buttonClass}>
+              <Download size={12} /> Export
+            </button>
+            <button onClick={() => onSave(null)} disabled={!stored} className={buttonClass}>
+              <Trash2 size={12} /> Clear
+            </button>
+          </div>
+        </div>
+        <label className="flex flex-wrap items-center gap-3 text-sm text-slate-400">
+          Reviewer
+          <input
+            key={review.reviewer}
+            defaultValue={review.reviewer}
+            placeholder="Name of the qualified estimator"
+            onBlur={e => {
+              const name = e.target.value.trim()
+              if (name !== review.reviewer) onSave(setReviewer(review, name))
+            }}
+            className={`${inputClass} w-72`}
+          />
+        </label>
+        <div>
+          <div className="flex items-baseline justify-between mb-1">
+            <span className="text-sm text-slate-400">{fmtPct(progress.reviewedPct)} of cost reviewed</span>
+            <span className="text-xs text-slate-600">{fmt(progress.reviewedCost)} of {fmt(progress.totalCost)}</span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+            <div className="h-full bg-emerald-500" style={{ width: `${Math.min(100, progress.reviewedPct)}%` }} />
+          </div>
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-500">
+            {REVIEW_STATES.map(s => (
+              <span key={s} className="inline-flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STATE_COLORS[s] }} />
+                {REVIEW_STATE_LABELS[s]} · {progress.counts[s]}
+              </span>
+            ))}
+          </div>
+        </div>
+        {(error || importError) && <p className="text-xs text-red-400">{importError ?? error}</p>}
+      </div>
+
+      {/* Divisions and lines */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+        <div className="p-4 px-6 border-b border-slate-800 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">A line left unreviewed takes its division's state.</p>
+          <select value={shown} onChange={e => setShown(e.target.value as Shown)} className={inputClass} aria-label="Show lines">
+            <option value="all">All lines</option>
+            {REVIEW_STATES.map(s => <option key={s} value={s}>{REVIEW_STATE_LABELS[s]} lines</option>)}
+          </select>
+        </div>
+        {divisions.map(([div, lines]) => {
+          const item = divisionReview(review, div)
+          const listed = lines.filter(({ line, index }) => shown === 'all' || effectiveState(review, line, index) === shown)
+          if (listed.length === 0) return null
+          const total = lines.reduce((a, { line }) => a + line.total_cost, 0)
+          const isExpanded = expanded.has(div)
+          const thread = `div:${div}`
+          return (
+            <div key={div} className="border-b border-slate-800/50">
+              <div className="flex items-center gap-3 px-6 py-3">
+                <button onClick={() => toggle(div)} className="flex flex-1 min-w-0 items-center gap-2 text-left">
+                  {isExpanded ? <ChevronDown size={14} className="text-emerald-400" /> : <ChevronRight size={14} className="text-slate-500" />}
+                  <span className="font-bold text-white text-sm">Div {div || '—'}</span>
+                  <span className="text-slate-400 text-sm truncate">{DIVISION_NAMES[div] || 'Unclassified'}</span>
+                  <span className="text-xs text-slate-600">({listed.length})</span>
+                </button>
+                <span className="font-mono text-sm text-slate-300">{fmt(total)}</span>
+                <CommentButton count={item.comments.length} onClick={() => setThreadOpen(threadOpen === thread ? null : thread)} />
+                {stateSelect(item.state, state => onSave(setDivisionState(review, div, state)), `Division ${div} review state`)}
+              </div>
+              {threadOpen === thread && (
+                <Thread comments={item.comments} onAdd={text => onSave(addDivisionComment(review, div, text))} />
+              )}
+              {isExpanded && listed.map(({ line, index }) => {
+                const own = lineReview(review, line, index)
+                const lineThread = `line:${index}`
+                return (
+                  <div key={index} className="border-t border-slate-800/30">
+                    <div className="flex items-center gap-3 px-6 py-2 pl-12 text-sm">
+                      <span className="flex-1 min-w-0 truncate text-slate-400" title={line.description}>{line.description}</span>
+                      <span className="font-mono text-slate-300">{fmt(line.total_cost)}</span>
+                      <CommentButton count={own.comments.length} onClick={() => setThreadOpen(threadOpen === lineThread ? null : lineThread)} />
+                      {stateSelect(own.state, state => onSave(setLineState(review, line, index, state)), `${line.description} review state`, item.state)}
+                    </div>
+                    {threadOpen === lineThread && (
+                      <Thread comments={own.comments} onAdd={text => onSave(addLineComment(review, line, index, text))} />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Sign-off */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-3">
+        <div className="flex items-center gap-2">
+          <PenLine size={16} className="text-cyan-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Sign-off</h3>
+        </div>
+        {review.signoff ? (
+          <>
+            <p className="text-sm text-emerald-300">{signOffStatement(review.signoff)}.</p>
+            {review.signoff.note && <p className="text-sm text-slate-400 whitespace-pre-wrap">{review.signoff.note}</p>}
+            <p className="text-xs text-slate-600">
+              Stamped on the exported QS schedule. Changing any review state or adding a comment withdraws the sign-off.
+            </p>
+          </>
+        ) : (
+          <>
+            {(progress.reviewedPct < 100 || progress.counts.flagged > 0) && (
+              <p className="flex items-start gap-2 text-sm text-amber-300">
+                <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                {progress.reviewedPct < 100 && `${fmtPct(100 - progress.reviewedPct)} of cost is unreviewed. `}
+                {progress.counts.flagged > 0 && `${progress.counts.flagged} line${progress.counts.flagged === 1 ? ' is' : 's are'} flagged.`}
+              </p>
+            )}
+            <textarea
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="Sign-off note (optional)"
+              rows={2}
+              className={`${inputClass} w-full`}
+            />
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => { onSave(signOff(review, data, note.trim())); setNote('') }}
+                disabled={!review.reviewer}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-lg border border-emerald-800 text-xs text-emerald-400 hover:border-emerald-600 disabled:opacity-40"
+              >
+                <PenLine size={12} /> Sign off
+              </button>
+              {!review.reviewer && <span className="text-xs text-slate-600">Enter the reviewer's name to sign off.</span>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function CommentButton({ count, onClick }: { count: number; onClick: () => void }) {
+  return (
+    <button onClick={onClick} className={`flex items-center gap-1 text-xs ${count > 0 ? 'text-cyan-400' : 'text-slate-600'} hover:text-slate-200`} aria-label="Comments">
+      <MessageSquare size={12} /> {count > 0 && count}
+    </button>
+  )
+}
+
+function Thread({ comments, onAdd }: { comments: ReviewComment[]; onAdd: (text: string) => void }) {
+  const [text, setText] = useState('')
+  const add = () => {
+    if (!text.trim()) return
+    onAdd(text.trim())
+    setText('')
+  }
+  return (
+    <div className="px-6 pb-3 pl-12 space-y-2">
+      {comments.map((c, i) => (
+        <div key={i} className="text-xs">
+          <span className="font-medium text-slate-300">{c.author}</span>
+          <span className="text-slate-600 ml-2">{new Date(c.at).toLocaleString()}</span>
+          <p className="text-slate-400 whitespace-pre-wrap">{c.text}</p>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') add() }}
+          placeholder="Add a comment"
+          className={`${inputClass} flex-1 text-xs`}
+        />
+        <button onClick={add} disabled={!text.trim()} className={buttonClass}>Add</button>
+      </div>
+    </div>
+  )
+}
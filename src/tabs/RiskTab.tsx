@@ -0,0 +1,224 @@
+import { useState } from 'react'
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine,
+} from 'recharts'
+import { AlertTriangle, CheckCircle2, Dices, DollarSign, RotateCcw, TrendingDown, TrendingUp } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmt, fmtK, fmtPct } from '../format'
+import { CONFIDENCE_COLORS, DIVISION_NAMES } from '../constants'
+import { readStored, removeStored, writeStored } from '../data/storage'
+import { useRiskSimulation } from '../data/useRiskSimulation'
+import { StatCard } from '../components/StatCard'
+import { parseAccuracyRange } from '../lib/benchmarks'
+import {
+  CONFIDENCE_LEVELS, DEFAULT_RISK_PROFILE, ITERATION_OPTIONS, riskLines,
+  type CostDistribution, type DistributionShape, type RiskProfile, type SimulationResult,
+} from '../lib/risk'
+
+const PROFILE_KEY = 'risk-profile'
+const SEED = 20240601
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-600'
+const tooltipStyle = { background: '#0f172a', border: '1px solid #334155', borderRadius: '8px' }
+
+const signed = (n: number, format: (n: number) => string) => `${n >= 0 ? '+' : '−'}${format(Math.abs(n))}`
+const divisionLabel = (div: string) => div ? `${div} ${DIVISION_NAMES[div] || ''}` : 'Unclassified'
+
+export function RiskTab({ data }: { data: ProjectData }) {
+  const [saved, setSaved] = useState(() => readStored<RiskProfile | null>(PROFILE_KEY, null))
+  const [iterations, setIterations] = useState(ITERATION_OPTIONS[1])
+  const profile = saved ?? DEFAULT_RISK_PROFILE
+  const range = parseAccuracyRange(data.project.confidence_range)
+  const simulation = useRiskSimulation({ lines: riskLines(data), profile, iterations, range, seed: SEED })
+
+  const setDistribution = (level: keyof RiskProfile, patch: Partial<CostDistribution>) => {
+    const next = { ...profile, [level]: { ...profile[level], ...patch } }
+    setSaved(next)
+    writeStored(PROFILE_KEY, next)
+  }
+
+  const resetProfile = () => {
+    setSaved(null)
+    removeStored(PROFILE_KEY)
+  }
+
+  const result = simulation.status === 'ready' ? simulation.result : simulation.status === 'running' ? simulation.previous : undefined
+
+  return (
+    <div className="space-y-8">
+      {/* Distribution per confidence level */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Dices size={16} className="text-violet-400" />
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Cost Distribution by Confidence</h3>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              Runs
+              <select value={iterations} onChange={e => setIterations(Number(e.target.value))} className={inputClass}>
+                {ITERATION_OPTIONS.map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+              </select>
+            </label>
+            {saved && (
+              <button onClick={resetProfile} className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300">
+                <RotateCcw size={12} /> Reset to defaults
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="grid md:grid-cols-3 gap-4">
+          {CONFIDENCE_LEVELS.map(level => {
+            const d = profile[level]
+            const count = data.lines.filter(l => l.confidence === level).length
+            return (
+              <div key={level} className="rounded-lg border border-slate-800 p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium capitalize" style={{ color: CONFIDENCE_COLORS[level] }}>{level}</span>
+                  <span className="text-xs text-slate-600">{count} lines</span>
+                </div>
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <select value={d.shape} onChange={e => setDistribution(level, { shape: e.target.value as DistributionShape })} className={inputClass} aria-label={`${level} shape`}>
+                    <option value="triangular">Triangular</option>
+                    <option value="uniform">Uniform</option>
+                  </select>
+                  <input
+                    type="number" step={1} max={0} value={d.low}
+                    onChange={e => setDistribution(level, { low: Math.min(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} w-16 text-right`} aria-label={`${level} downside percent`}
+                  />
+                  <span>% to +</span>
+                  <input
+                    type="number" step={1} min={0} value={d.high}
+                    onChange={e => setDistribution(level, { high: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} w-16 text-right`} aria-label={`${level} upside percent`}
+                  />
+                  <span>%</span>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+        <p className="text-xs text-slate-600 mt-4">
+          Each line varies independently around its point cost; triangular spreads peak at the point cost.
+          {simulation.status === 'running' && <span className="text-violet-400"> Simulating…</span>}
+        </p>
+      </div>
+
+      {simulation.status === 'error' && (
+        <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">{simulation.error}</div>
+      )}
+      {result && <RiskResults result={result} statedRange={data.project.confidence_range} hasRange={range !== null} />}
+    </div>
+  )
+}
+
+function RiskResults({ result, statedRange, hasRange }: { result: SimulationResult; statedRange: string; hasRange: boolean }) {
+  const [driverView, setDriverView] = useState<'lines' | 'divisions'>('lines')
+  const { base, p10, p50, p90 } = result
+  const pct = (v: number) => base !== 0 ? (v - base) / Math.abs(base) * 100 : 0
+
+  const histogram = result.histogram.map(b => ({ ...b, label: fmtK((b.from + b.to) / 2) }))
+  const binLabel = (v: number) => histogram.find(b => v <= b.to)?.label ?? histogram[histogram.length - 1]?.label
+  const drivers = (driverView === 'lines' ? result.lineDrivers : result.divisionDrivers).map(d => ({
+    ...d,
+    name: driverView === 'lines' ? d.label : divisionLabel(d.label),
+  }))
+
+  const holds = hasRange && result.withinRange !== null ? result.withinRange >= 0.8 : null
+
+  return (
+    <>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard icon={DollarSign} label="Point Estimate" value={fmtK(base)} sub={`Mean of runs ${fmtK(result.mean)}`} accent="emerald" />
+        <StatCard icon={TrendingDown} label="P10" value={fmtK(p10)} sub={signed(pct(p10), fmtPct)} accent="cyan" />
+        <StatCard icon={Dices} label="P50" value={fmtK(p50)} sub={signed(pct(p50), fmtPct)} accent="violet" />
+        <StatCard icon={TrendingUp} label="P90" value={fmtK(p90)} sub={signed(pct(p90), fmtPct)} accent="amber" />
+      </div>
+
+      {/* Stated accuracy range */}
+      {holds === null ? (
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4 text-sm text-slate-500">
+          The project states no parseable accuracy range ("{statedRange}"), so the simulated spread is not checked against one.
+        </div>
+      ) : (
+        <div className={`rounded-xl border p-4 flex items-start gap-3 ${holds ? 'border-emerald-800/50 bg-emerald-950/20' : 'border-amber-800/50 bg-amber-950/20'}`}>
+          {holds ? <CheckCircle2 size={18} className="text-emerald-400 mt-0.5" /> : <AlertTriangle size={18} className="text-amber-400 mt-0.5" />}
+          <div className="text-sm">
+            <p className={holds ? 'text-emerald-300' : 'text-amber-300'}>
+              {fmtPct((result.withinRange ?? 0) * 100)} of runs land within the stated {statedRange} of the point estimate
+              {holds ? ', so the range covers the P10–P90 band.' : ', short of the 80% a P10–P90 range implies.'}
+            </p>
+            <p className="text-xs text-slate-500 mt-1">
+              Simulated P10–P90: {signed(pct(p10), fmtPct)} to {signed(pct(p90), fmtPct)} ({fmt(p10)} – {fmt(p90)}, {result.iterations.toLocaleString()} runs).
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-6">Distribution of Total Cost</h3>
+          <ResponsiveContainer width="100%" height={320}>
+            <BarChart data={histogram} barCategoryGap={1}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="label" tick={{ fill: '#94a3b8', fontSize: 10 }} interval={7} />
+              <YAxis tick={{ fill: '#64748b', fontSize: 11 }} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(_, payload) => {
+                  const bin = payload?.[0]?.payload as (typeof histogram)[number] | undefined
+                  return bin ? `${fmt(bin.from)} – ${fmt(bin.to)}` : ''
+                }}
+                formatter={value => [Number(value).toLocaleString(), 'Runs']}
+              />
+              <Bar dataKey="count" fill="#7c3aed" />
+              <ReferenceLine x={binLabel(p10)} stroke="#0891b2" strokeDasharray="4 4" label={{ value: 'P10', fill: '#0891b2', fontSize: 11, position: 'top' }} />
+              <ReferenceLine x={binLabel(p50)} stroke="#a78bfa" strokeDasharray="4 4" label={{ value: 'P50', fill: '#a78bfa', fontSize: 11, position: 'top' }} />
+              <ReferenceLine x={binLabel(p90)} stroke="#d97706" strokeDasharray="4 4" label={{ value: 'P90', fill: '#d97706', fontSize: 11, position: 'top' }} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Risk Drivers</h3>
+            <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+              {(['lines', 'divisions'] as const).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setDriverView(v)}
+                  className={`px-3 py-1 capitalize ${driverView === v ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                  {v}
+                </button>
+              ))}
+            </div>
+          </div>
+          <ResponsiveContainer width="100%" height={320}>
+            <BarChart data={drivers} layout="vertical" stackOffset="sign" margin={{ left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis type="number" tickFormatter={(v: number) => signed(v, fmtK)} tick={{ fill: '#64748b', fontSize: 11 }} />
+              <YAxis
+                type="category" dataKey="name" width={160}
+                tick={{ fill: '#94a3b8', fontSize: 10 }}
+                tickFormatter={(v: string) => v.length > 28 ? `${v.slice(0, 27)}…` : v}
+              />
+              <ReferenceLine x={0} stroke="#475569" />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value, name) => [signed(Number(value), fmt), name === 'low' ? 'At its P10' : 'At its P90']}
+                labelFormatter={(label, payload) => {
+                  const share = (payload?.[0]?.payload as (typeof drivers)[number] | undefined)?.share
+                  return share === undefined ? String(label) : `${label} · ${fmtPct(share * 100)} of variance`
+                }}
+              />
+              <Bar dataKey="low" stackId="swing" fill="#0891b2" />
+              <Bar dataKey="high" stackId="swing" fill="#ea580c" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </>
+  )
+}
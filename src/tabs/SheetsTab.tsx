@@ -0,0 +1,277 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle2, DoorOpen, FileImage, Info } from 'lucide-react'
+import type { ProjectData } from '../types'
+import { fmtPct } from '../format'
+import { QS_EXTRACTION_PATH } from '../data/catalog'
+import { parseQsExtraction, type SheetPage, type SheetTable } from '../data/qsExtraction'
+import { useFetchedJson } from '../data/useFetchedJson'
+import { useMeasures } from '../lib/measures'
+import { buildRoomSchedule, checkRoomAreas } from '../lib/roomSchedule'
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-emerald-600'
+
+const label = (key: string) => key.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())
+
+export function SheetsTab({ data }: { data: ProjectData }) {
+  const sheets = useFetchedJson(QS_EXTRACTION_PATH, parseQsExtraction)
+  if (sheets.status === 'loading') return <div className="animate-pulse text-slate-400 text-sm">Loading drawing sheets...</div>
+  if (sheets.status === 'error') {
+    return <div className="rounded-xl border border-red-800/50 bg-red-950/20 p-4 text-sm text-red-300">{sheets.error}</div>
+  }
+  return <SheetsView data={data} pages={sheets.value} />
+}
+
+function SheetsView({ data, pages }: { data: ProjectData; pages: SheetPage[] }) {
+  const [discipline, setDiscipline] = useState('')
+  const [pageType, setPageType] = useState('')
+  const [selected, setSelected] = useState<SheetPage>(pages[0])
+
+  const disciplines = [...new Set(pages.map(p => p.discipline))]
+  const inDiscipline = pages.filter(p => !discipline || p.discipline === discipline)
+  const pageTypes = [...new Set(inDiscipline.map(p => p.pageType))].sort()
+  const listed = inDiscipline.filter(p => !pageType || p.pageType === pageType)
+
+  return (
+    <div className="space-y-8">
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Sheet list */}
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-4 space-y-3 lg:max-h-[48rem] flex flex-col">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={discipline}
+              onChange={e => { setDiscipline(e.target.value); setPageType('') }}
+              className={inputClass}
+              aria-label="Discipline"
+            >
+              <option value="">All disciplines</option>
+              {disciplines.map(d => <option key={d} value={d}>{label(d)}</option>)}
+            </select>
+            <select value={pageType} onChange={e => setPageType(e.target.value)} className={`${inputClass} max-w-[12rem]`} aria-label="Page type">
+              <option value="">All page types</option>
+              {pageTypes.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <p className="text-xs text-slate-600">{listed.length} of {pages.length} sheets</p>
+          <div className="overflow-y-auto -mx-1 space-y-1">
+            {listed.map(p => (
+              <button
+                key={`${p.discipline}-${p.page}`}
+                onClick={() => setSelected(p)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  p === selected ? 'bg-emerald-900/30 text-white' : 'text-slate-400 hover:bg-slate-800/50'
+                }`}
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="truncate">{p.pageType}</span>
+                  <span className="text-xs font-mono text-slate-600 shrink-0">p. {p.page + 1}</span>
+                </span>
+                <span className="text-xs text-slate-600">
+                  {label(p.discipline)}{p.floor && ` · ${p.floor}`}{p.rooms.length > 0 && ` · ${p.rooms.length} rooms`}{p.tables.length > 0 && ` · ${p.tables.length} tables`}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Selected sheet */}
+        <div className="lg:col-span-2 rounded-xl border border-slate-800 bg-slate-900/50 p-6 space-y-6 min-w-0">
+          <SheetDetail page={selected} />
+        </div>
+      </div>
+
+      <RoomSchedule pages={pages} grossFloorArea={data.project.gross_floor_area_sf} />
+    </div>
+  )
+}
+
+function SheetDetail({ page }: { page: SheetPage }) {
+  const fields = Object.entries(page.fields).filter(([, v]) => !isEmpty(v))
+  return (
+    <>
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <FileImage size={16} className="text-cyan-400" />
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">{label(page.discipline)} · Page {page.page + 1}</h3>
+        </div>
+        <p className="text-white font-medium">{page.pageType}{page.floor && <span className="text-slate-500 font-normal"> — {page.floor}</span>}</p>
+        {page.description && <p className="text-sm text-slate-400 mt-2">{page.description}</p>}
+        {page.model && (
+          <p className="text-xs text-slate-600 mt-1">
+            {page.model}{page.extractionTime !== undefined && ` · ${page.extractionTime.toFixed(1)} s`}
+          </p>
+        )}
+      </div>
+
+      {page.rooms.length > 0 && (
+        <Section title="Rooms">
+          <ValueTable rows={page.rooms.map(r => ({ ...r }))} />
+        </Section>
+      )}
+      {page.tables.map((table, i) => (
+        <Section key={i} title={table.name ?? `Table ${i + 1}`} aside={table.type}>
+          <SheetTableView table={table} />
+        </Section>
+      ))}
+      {fields.map(([key, value]) => (
+        <Section key={key} title={label(key)}>
+          <Value value={value} />
+        </Section>
+      ))}
+      {page.notes.length > 0 && (
+        <Section title="Notes">
+          <ul className="list-disc pl-5 space-y-1 text-sm text-slate-400">
+            {page.notes.map((n, i) => <li key={i}>{n}</li>)}
+          </ul>
+        </Section>
+      )}
+    </>
+  )
+}
+
+function Section({ title, aside, children }: { title: string; aside?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{title}</h4>
+        {aside && <span className="text-xs text-slate-600">{aside}</span>}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+function SheetTableView({ table }: { table: SheetTable }) {
+  if (table.rows.length === 0) return <p className="text-xs text-slate-600">No rows extracted.</p>
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs w-full">
+        <thead>
+          <tr className="border-b border-slate-800 text-slate-500">
+            {table.columns.map(c => <th key={c} className="text-left p-2 font-medium">{c}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, i) => (
+            <tr key={i} className="border-b border-slate-800/30">
+              {table.columns.map(c => <td key={c} className="p-2 text-slate-300 align-top">{cellText(row[c])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// --- Generic rendering for the keys the model chose ----------------
+
+const isEmpty = (v: unknown): boolean =>
+  v === null || v === undefined || v === ''
+  || (Array.isArray(v) && v.every(isEmpty))
+  || (typeof v === 'object' && !Array.isArray(v) && Object.values(v as object).every(isEmpty))
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+const cellText = (v: unknown): string =>
+  v === null || v === undefined ? ''
+    : typeof v === 'object' ? (Array.isArray(v) ? v.map(cellText).join(', ') : Object.entries(v).map(([k, x]) => `${k}: ${cellText(x)}`).join('; '))
+      : String(v)
+
+function ValueTable({ rows }: { rows: Record<string, unknown>[] }) {
+  const columns = [...new Set(rows.flatMap(r => Object.keys(r)))]
+  return <SheetTableView table={{ columns, rows }} />
+}
+
+function Value({ value }: { value: unknown }) {
+  if (Array.isArray(value)) {
+    const items = value.filter(v => !isEmpty(v))
+    if (items.every(isRecord)) return <ValueTable rows={items} />
+    const short = items.every(v => typeof v !== 'object' && String(v).length <= 24)
+    if (short) {
+      return (
+        <div className="flex flex-wrap gap-1">
+          {items.map((v, i) => <span key={i} className="px-2 py-0.5 rounded bg-slate-800 text-xs text-slate-300 font-mono">{cellText(v)}</span>)}
+        </div>
+      )
+    }
+    return (
+      <ul className="list-disc pl-5 space-y-1 text-sm text-slate-400">
+        {items.map((v, i) => <li key={i}>{cellText(v)}</li>)}
+      </ul>
+    )
+  }
+  if (isRecord(value)) {
+    return (
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {Object.entries(value).filter(([, v]) => !isEmpty(v)).map(([k, v]) => (
+          <div key={k} className="contents">
+            <dt className="text-slate-500">{label(k)}</dt>
+            <dd className="text-slate-300 min-w-0">{typeof v === 'object' ? <Value value={v} /> : String(v)}</dd>
+          </div>
+        ))}
+      </dl>
+    )
+  }
+  return <p className="text-sm text-slate-300">{String(value)}</p>
+}
+
+// --- Room schedule ---------------------------------------------------
+
+function RoomSchedule({ pages, grossFloorArea }: { pages: SheetPage[]; grossFloorArea: number }) {
+  const m = useMeasures()
+  const rows = buildRoomSchedule(pages)
+  const check = checkRoomAreas(rows, grossFloorArea)
+  const areaText = (sf: number) => `${Math.round(m.area(sf)).toLocaleString()} ${m.areaUnit}`
+
+  const callout = {
+    no_areas: { ok: null, text: `None of the ${rows.length} rooms carries a readable area or dimensions, so the schedule can't be checked against the ${areaText(grossFloorArea)} gross floor area.` },
+    no_gfa: { ok: null, text: `Rooms sum to ${areaText(check.total)}, but the estimate records no gross floor area to check against.` },
+    exceeds: { ok: false, text: `Rooms sum to ${areaText(check.total)}, ${fmtPct((check.ratio ?? 0) * 100)} of the ${areaText(grossFloorArea)} gross floor area: more than the building holds, so rooms are double-counted or misread.` },
+    plausible: { ok: true, text: `Rooms sum to ${areaText(check.total)}, ${fmtPct((check.ratio ?? 0) * 100)} of the ${areaText(grossFloorArea)} gross floor area, a plausible net-to-gross ratio.` },
+    incomplete: { ok: false, text: `Rooms sum to ${areaText(check.total)}, only ${fmtPct((check.ratio ?? 0) * 100)} of the ${areaText(grossFloorArea)} gross floor area: the schedule is missing rooms or areas.` },
+  }[check.verdict]
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-800 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <DoorOpen size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Consolidated Room Schedule</h3>
+          </div>
+          <span className="text-xs text-slate-600">{rows.length} rooms · {check.withArea} with area</span>
+        </div>
+        <div className={`rounded-lg border p-3 flex items-start gap-2 text-sm ${
+          callout.ok === null ? 'border-slate-700 text-slate-400' : callout.ok ? 'border-emerald-800/50 bg-emerald-950/20 text-emerald-300' : 'border-amber-800/50 bg-amber-950/20 text-amber-300'
+        }`}>
+          {callout.ok === null ? <Info size={16} className="mt-0.5 shrink-0" /> : callout.ok ? <CheckCircle2 size={16} className="mt-0.5 shrink-0" /> : <AlertTriangle size={16} className="mt-0.5 shrink-0" />}
+          <span>{callout.text}{check.withArea > 0 && check.withoutArea > 0 && ` ${check.withoutArea} rooms have no area and are left out.`}</span>
+        </div>
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-slate-800 text-xs uppercase tracking-wider text-slate-500">
+            <th className="text-left p-3 pl-6">No.</th>
+            <th className="text-left p-3">Room</th>
+            <th className="text-left p-3">Floor</th>
+            <th className="text-right p-3">Area</th>
+            <th className="text-left p-3 pr-6">Sheets</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, i) => (
+            <tr key={i} className="border-b border-slate-800/30 text-sm">
+              <td className="p-2 pl-6 font-mono text-slate-500">{r.number || '—'}</td>
+              <td className="p-2 text-slate-300">{r.name || '—'}</td>
+              <td className="p-2 text-slate-500">{r.floor ?? '—'}</td>
+              <td className="p-2 text-right font-mono text-slate-400">
+                {r.area !== undefined ? areaText(r.area) : '—'}
+                {r.areaSource === 'dimensions' && <span className="text-xs text-slate-600"> (W×L)</span>}
+              </td>
+              <td className="p-2 pr-6 text-xs text-slate-600">{r.sheets.map(s => `${label(s.discipline)} p. ${s.page + 1}`).join(', ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
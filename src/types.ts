@@ -0,0 +1,61 @@
+export interface EstimateLine {
+  description: string; quantity: number; unit: string; unit_cost: number;
+  total_cost: number; csi_division: string; source: string; confidence: string;
+  /** UNIFORMAT element code (e.g. "A11_foundations"), on elemental estimates */
+  element?: string;
+  /** Material, labour and equipment parts of the cost; per unit on some lines, extended on others */
+  material_cost?: number; labor_cost?: number; equipment_cost?: number;
+  // Provenance, where the pipeline records it
+  /** Drawing discipline the quantity was read from (e.g. "architectural") */
+  discipline?: string;
+  /** How the quantity was read: "vision", "docling", "schedule/architectural"… */
+  extraction_source?: string;
+  /** 0–1 score for the extracted quantity, separate from the pricing `confidence` */
+  extraction_confidence?: number;
+  /** The pipeline's own pricing route (e.g. "schedule_extraction", "parametric") */
+  estimate_source?: string;
+  /** Cost database item code the rate came from */
+  rsmeans_code?: string;
+  /** Cost database item text the description matched; "[division avg: NN]" when none did */
+  matched_description?: string;
+  /** Engine reports: matched database item and its 0–1 match score */
+  db_item_id?: string; db_match_score?: number;
+}
+
+export interface Benchmark {
+  total: number; sf: number; cost_per_sf: number; note: string;
+}
+
+export interface Markup {
+  id: string; label: string;
+  kind: 'percent' | 'lump_sum';
+  /** Percent (e.g. 15 for 15%) or dollars, depending on `kind` */
+  value: number;
+  /** Percent markups apply to the direct cost alone or to the running total above them */
+  basis: 'direct' | 'cumulative';
+}
+
+export interface ProjectData {
+  project: {
+    name: string; client: string; location: string; building_type: string;
+    construction_type: string; stories: number; gross_floor_area_sf: number;
+    units: number; unit_type: string; report_date: string; report_number: string;
+    prepared_by: string; class: string; confidence_range: string;
+    area_source?: string; mezzanine?: boolean; level_1_sf?: number; mezzanine_sf?: number;
+    /** Location cost index the rates were priced at (e.g. 0.92), when the pipeline records one */
+    location_factor?: number;
+  };
+  summary: {
+    total_cost: number; cost_per_sf: number; cost_per_unit: number;
+    line_count: number;
+    pricing_method: { cost_db_pct: number; rate_library_fallback_pct: number; parametric_gap_fill_pct: number; match_rate: number };
+  };
+  sections: { name: string; divisions: string[]; pla: number; engine: number; pct: number }[];
+  division_totals: Record<string, number>;
+  lines: EstimateLine[];
+  benchmarks: Record<string, Benchmark>;
+  /** Contractor's actual estimate total, when the file records one next to the benchmarks. */
+  pla_actual?: number;
+  /** Markups recorded by the pipeline, in application order */
+  markups?: Markup[];
+}